@@ -0,0 +1,140 @@
+// Role-based access policy for MCP tools
+//
+// The policy maps users, email domains and IdP groups/roles to named roles; each tool
+// file declares the roles its tools require. The policy is read from the `access-policy`
+// key in OAUTH_KV, then the ACCESS_POLICY variable, then DEFAULT_ACCESS_POLICY, so it can
+// be changed without a redeploy. Roles are resolved when an MCP session starts.
+
+import { z } from "zod";
+import type { AccessPolicy, Props } from "../types";
+
+// Holders of this role pass every role check
+export const ADMIN_ROLE = "admin";
+
+export const ACCESS_POLICY_KV_KEY = "access-policy";
+
+/**
+ * Used when no policy is configured: everyone can read the database and use the
+ * GitHub, Gmail and search tools, database writes are limited to named users
+ */
+export const DEFAULT_ACCESS_POLICY: AccessPolicy = {
+	defaultRoles: ["db-reader", "github", "gmail", "web-search"],
+	roles: {
+		"db-writer": {
+			// Add logins of users who should have access to database write operations
+			users: ["coleam00"],
+		},
+	},
+};
+
+const RoleGrantSchema = z
+	.object({
+		users: z.array(z.string()).optional(),
+		emailDomains: z.array(z.string()).optional(),
+		groups: z.array(z.string()).optional(),
+	})
+	.strict();
+
+const AccessPolicySchema = z
+	.object({
+		defaultRoles: z.array(z.string()).optional(),
+		roles: z.record(RoleGrantSchema),
+	})
+	.strict();
+
+/**
+ * Parse and validate a JSON access policy. Throws if it is malformed.
+ */
+export function parseAccessPolicy(json: string): AccessPolicy {
+	return AccessPolicySchema.parse(JSON.parse(json));
+}
+
+/**
+ * Load the access policy from KV or the environment. An invalid policy is logged and
+ * skipped rather than locking everyone out.
+ */
+export async function loadAccessPolicy(env: Env): Promise<AccessPolicy> {
+	try {
+		const stored = await (env as any).OAUTH_KV?.get(ACCESS_POLICY_KV_KEY);
+		if (stored) return parseAccessPolicy(stored);
+	} catch (error) {
+		console.error(`Ignoring invalid access policy in KV (${ACCESS_POLICY_KV_KEY}):`, error);
+	}
+
+	try {
+		if ((env as any).ACCESS_POLICY) return parseAccessPolicy((env as any).ACCESS_POLICY);
+	} catch (error) {
+		console.error("Ignoring invalid ACCESS_POLICY:", error);
+	}
+
+	return DEFAULT_ACCESS_POLICY;
+}
+
+/**
+ * Resolve the roles granted to a user by the policy
+ */
+export function resolveRoles(policy: AccessPolicy, props: Props): ReadonlySet<string> {
+	const roles = new Set(policy.defaultRoles ?? []);
+
+	const login = props.login?.toLowerCase();
+	const qualifiedLogin = props.provider ? `${props.provider}:${login}` : undefined;
+	const domain = getTrustedDomain(props);
+	const groups = new Set(props.groups ?? []);
+
+	for (const [role, grant] of Object.entries(policy.roles)) {
+		const matchesUser = grant.users?.some((user) => {
+			const entry = user.toLowerCase();
+			return entry === login || entry === qualifiedLogin;
+		});
+		const matchesDomain = domain !== undefined && grant.emailDomains?.some((d) => d.toLowerCase() === domain);
+		const matchesGroup = grant.groups?.some((group) => groups.has(group));
+		if (matchesUser || matchesDomain || matchesGroup) {
+			roles.add(role);
+		}
+	}
+
+	return roles;
+}
+
+/**
+ * Check whether a set of resolved roles includes the given role
+ */
+export function hasRole(roles: ReadonlySet<string>, role: string): boolean {
+	return roles.has(role) || roles.has(ADMIN_ROLE);
+}
+
+/**
+ * Collect group and role claims from the ID token / user info into a flat list.
+ * Reads `groups`, `roles`, `permissions` (Auth0 RBAC), Keycloak's `realm_access.roles`
+ * and `resource_access.<clientId>.roles`, and namespaced custom claims ending in
+ * `/groups` or `/roles` (Auth0 Actions).
+ */
+export function extractIdentityGroups(claims: Record<string, any>, clientId?: string): string[] {
+	const values: unknown[] = [
+		claims.groups,
+		claims.roles,
+		claims.permissions,
+		claims.realm_access?.roles,
+		clientId ? claims.resource_access?.[clientId]?.roles : undefined,
+		...Object.entries(claims)
+			.filter(([key]) => /^https?:\/\/.+\/(groups|roles)$/.test(key))
+			.map(([, value]) => value),
+	];
+
+	const groups = new Set<string>();
+	for (const value of values) {
+		for (const group of Array.isArray(value) ? value : [value]) {
+			if (typeof group === "string" && group) groups.add(group);
+		}
+	}
+	return Array.from(groups);
+}
+
+// Only domains the IdP vouches for count: the Google Workspace domain or a verified email
+function getTrustedDomain(props: Props): string | undefined {
+	if (props.hd) return props.hd.toLowerCase();
+	if (props.verified_email === true && props.email?.includes("@")) {
+		return props.email.split("@").pop()!.toLowerCase();
+	}
+	return undefined;
+}
@@ -0,0 +1,73 @@
+import { Hono } from "hono";
+import type { UpstreamProviderConfig } from "../types";
+import { createProviderHandler } from "./provider-handler";
+import { UPSTREAM_PROVIDERS, getConfiguredProviders } from "./providers";
+
+/**
+ * Create the routing handler that supports multiple providers.
+ * Each registered provider gets its own /<id>/authorize and /<id>/callback routes.
+ */
+export function createAuthRouter(providers: UpstreamProviderConfig[] = UPSTREAM_PROVIDERS) {
+	const authRouter = new Hono<{ Bindings: Env }>();
+
+	for (const provider of providers) {
+		authRouter.route(`/${provider.id}`, createProviderHandler(provider));
+	}
+
+	// Root authorize handler - detects available providers and redirects or shows selection
+	authRouter.get("/authorize", async (c) => {
+		const configured = getConfiguredProviders(c.env).filter((provider) => providers.includes(provider));
+		const queryString = new URL(c.req.url).search;
+
+		// If only one provider is configured, redirect directly to it
+		if (configured.length === 1) {
+			return c.redirect(`/${configured[0].id}/authorize${queryString}`);
+		}
+
+		// If multiple providers, show selection page
+		if (configured.length > 1) {
+			return c.html(renderProviderSelection(configured, queryString));
+		}
+
+		// No providers configured
+		return c.text("No OAuth providers configured. Please check your environment variables.", 500);
+	});
+
+	return authRouter;
+}
+
+function renderProviderSelection(providers: UpstreamProviderConfig[], queryString: string): string {
+	return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <title>Choose OAuth Provider</title>
+        <style>
+          body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; margin: 0; padding: 40px; background: #f5f5f5; }
+          .container { max-width: 400px; margin: 0 auto; background: white; padding: 32px; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.1); }
+          h1 { text-align: center; color: #333; margin-bottom: 24px; }
+          .provider { display: block; width: 100%; padding: 12px 16px; margin: 8px 0; border-radius: 6px; border: 1px solid #ddd; background: white; text-decoration: none; color: #333; transition: all 0.2s; }
+          .provider:hover { background: #f8f9fa; border-color: #007cba; transform: translateY(-1px); }
+          .provider-name { font-weight: 500; font-size: 16px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <h1>Choose Authentication Provider</h1>
+          ${providers
+				.map(
+					(provider) =>
+						`<a href="/${provider.id}/authorize${escapeAttribute(queryString)}" class="provider">
+              <div class="provider-name">${provider.name}</div>
+            </a>`,
+				)
+				.join("")}
+        </div>
+      </body>
+      </html>
+    `;
+}
+
+function escapeAttribute(value: string): string {
+	return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
@@ -0,0 +1,175 @@
+// ID token verification against an upstream provider's JWKS
+
+import type { IdTokenValidationResult } from "../types";
+
+// Allowed clock skew between us and the upstream provider when checking exp/iat
+const CLOCK_SKEW_SECONDS = 60;
+
+// Signature algorithms we accept, mapped to their WebCrypto parameters
+const SUPPORTED_ALGORITHMS = {
+	RS256: {
+		importParams: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+		verifyParams: { name: "RSASSA-PKCS1-v1_5" },
+	},
+	ES256: {
+		importParams: { name: "ECDSA", namedCurve: "P-256" },
+		verifyParams: { name: "ECDSA", hash: "SHA-256" },
+	},
+} as const;
+
+type SupportedAlgorithm = keyof typeof SUPPORTED_ALGORITHMS;
+
+interface Jwk extends JsonWebKey {
+	kid?: string;
+	use?: string;
+}
+
+export interface IdTokenExpectations {
+	issuer: string | string[]; // Accepted issuers, for providers that issue more than one form
+	audience: string; // Our client ID at the upstream provider
+	jwksUri: string;
+	nonce?: string;
+	now?: number; // Current time in seconds, overridable for tests
+}
+
+// JWKS documents cached per isolate, keyed by URI
+const jwksCache = new Map<string, Jwk[]>();
+
+/**
+ * Clear cached JWKS documents
+ */
+export function clearJwksCache(): void {
+	jwksCache.clear();
+}
+
+/**
+ * Verify an ID token's signature (RS256/ES256) against the provider's JWKS
+ * and check its iss, aud, exp and nonce claims.
+ */
+export async function verifyIdToken(idToken: string, expected: IdTokenExpectations): Promise<IdTokenValidationResult> {
+	const parts = idToken.split(".");
+	if (parts.length !== 3) {
+		return { isValid: false, error: "ID token is not a valid JWT" };
+	}
+	const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+	let header: { alg?: string; kid?: string };
+	let claims: Record<string, any>;
+	try {
+		header = JSON.parse(base64UrlDecodeToString(encodedHeader));
+		claims = JSON.parse(base64UrlDecodeToString(encodedPayload));
+	} catch {
+		return { isValid: false, error: "ID token could not be decoded" };
+	}
+
+	if (!header.alg || !(header.alg in SUPPORTED_ALGORITHMS)) {
+		return { isValid: false, error: `Unsupported ID token algorithm: ${header.alg}` };
+	}
+	const algorithm = SUPPORTED_ALGORITHMS[header.alg as SupportedAlgorithm];
+
+	let jwk: Jwk | undefined;
+	try {
+		jwk = await findSigningKey(expected.jwksUri, header.kid, header.alg as SupportedAlgorithm);
+	} catch (error) {
+		console.error("Failed to load JWKS:", error);
+		return { isValid: false, error: "Could not load the provider's signing keys" };
+	}
+	if (!jwk) {
+		return { isValid: false, error: "No matching signing key found for ID token" };
+	}
+
+	try {
+		const key = await crypto.subtle.importKey("jwk", jwk, algorithm.importParams, false, ["verify"]);
+		const signatureValid = await crypto.subtle.verify(
+			algorithm.verifyParams,
+			key,
+			base64UrlDecode(encodedSignature),
+			new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`),
+		);
+		if (!signatureValid) {
+			return { isValid: false, error: "ID token signature is invalid" };
+		}
+	} catch (error) {
+		console.error("Error verifying ID token signature:", error);
+		return { isValid: false, error: "ID token signature could not be verified" };
+	}
+
+	return validateIdTokenClaims(claims, expected);
+}
+
+/**
+ * Check the standard ID token claims
+ * https://openid.net/specs/openid-connect-core-1_0.html#IDTokenValidation
+ */
+export function validateIdTokenClaims(claims: Record<string, any>, expected: IdTokenExpectations): IdTokenValidationResult {
+	const now = expected.now ?? Math.floor(Date.now() / 1000);
+
+	const issuers = Array.isArray(expected.issuer) ? expected.issuer : [expected.issuer];
+	if (!issuers.some((issuer) => normalizeIssuer(issuer) === normalizeIssuer(claims.iss))) {
+		return { isValid: false, error: `ID token issuer mismatch: expected ${issuers.join(" or ")}, got ${claims.iss}` };
+	}
+
+	const audiences: unknown[] = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+	if (!audiences.includes(expected.audience)) {
+		return { isValid: false, error: "ID token was not issued for this client" };
+	}
+	if (audiences.length > 1 && claims.azp !== expected.audience) {
+		return { isValid: false, error: "ID token authorized party does not match this client" };
+	}
+
+	if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_SECONDS < now) {
+		return { isValid: false, error: "ID token has expired" };
+	}
+	if (typeof claims.iat === "number" && claims.iat - CLOCK_SKEW_SECONDS > now) {
+		return { isValid: false, error: "ID token was issued in the future" };
+	}
+
+	if (expected.nonce !== undefined && claims.nonce !== expected.nonce) {
+		return { isValid: false, error: "ID token nonce does not match the authorization request" };
+	}
+
+	return { isValid: true, claims };
+}
+
+/**
+ * Look up the signing key for a token, refreshing the cached JWKS once if the kid is unknown
+ * (providers rotate keys and publish the new one before using it).
+ */
+async function findSigningKey(jwksUri: string, kid: string | undefined, alg: SupportedAlgorithm): Promise<Jwk | undefined> {
+	const kty = alg === "RS256" ? "RSA" : "EC";
+	const pick = (keys: Jwk[]) =>
+		keys.find((key) => key.kty === kty && (!kid || key.kid === kid) && (!key.use || key.use === "sig") && (!key.alg || key.alg === alg));
+
+	const cached = jwksCache.get(jwksUri);
+	const cachedKey = cached && pick(cached);
+	if (cachedKey) return cachedKey;
+
+	const response = await fetch(jwksUri, {
+		headers: {
+			Accept: "application/json",
+			"User-Agent": "Cloudflare-Worker/1.0",
+		},
+	});
+	if (!response.ok) {
+		throw new Error(`JWKS request failed: ${response.status}`);
+	}
+	const { keys } = (await response.json()) as { keys?: Jwk[] };
+	if (!Array.isArray(keys)) {
+		throw new Error("JWKS document has no keys");
+	}
+	jwksCache.set(jwksUri, keys);
+	return pick(keys);
+}
+
+function normalizeIssuer(issuer: unknown): string | undefined {
+	return typeof issuer === "string" ? issuer.replace(/\/+$/, "") : undefined;
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+	const base64 = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+	return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+function base64UrlDecodeToString(value: string): string {
+	return new TextDecoder().decode(base64UrlDecode(value));
+}
@@ -6,11 +6,18 @@ import type {
   ApprovalDialogOptions,
   ParsedApprovalResult,
   UpstreamAuthorizeParams,
-  UpstreamTokenParams 
+  UpstreamTokenParams,
+  UpstreamRefreshParams,
+  UpstreamTokenResponse,
+  UpstreamAuthState
 } from "../types";
+import { TOOL_SCOPES, resolveGrantedScopes } from "./scopes";
 
 const COOKIE_NAME = "mcp-approved-clients";
 const ONE_YEAR_IN_SECONDS = 31536000;
+const STATE_COOKIE_PREFIX = "mcp-oauth-state-";
+const STATE_KV_PREFIX = "upstream-state:";
+const STATE_TTL_SECONDS = 600;
 
 // --- Helper Functions ---
 
@@ -165,24 +172,39 @@ async function getApprovedClientsFromCookie(
 // --- Exported Functions ---
 
 /**
- * Checks if a given client ID has already been approved by the user,
- * based on a signed cookie.
+ * Builds the approval cookie entry for a client and the scopes it requested.
+ * Approving every tool scope is recorded as the bare client ID.
+ * @param clientId - The OAuth client ID.
+ * @param requestedScopes - The scopes from the authorization request.
+ * @returns The entry stored in the approval cookie.
+ */
+function getApprovalEntry(clientId: string, requestedScopes: string[] | undefined): string {
+	const scopes = resolveGrantedScopes(requestedScopes);
+	return scopes.length === Object.keys(TOOL_SCOPES).length ? clientId : `${clientId} ${[...scopes].sort().join(" ")}`;
+}
+
+/**
+ * Checks if a given client ID has already been approved by the user for the requested scopes,
+ * based on a signed cookie. An approval for every scope also covers narrower requests.
  *
  * @param request - The incoming Request object to read cookies from.
  * @param clientId - The OAuth client ID to check approval for.
  * @param cookieSecret - The secret key used to sign/verify the approval cookie.
+ * @param requestedScopes - The scopes from the authorization request.
  * @returns A promise resolving to true if the client ID is in the list of approved clients in a valid cookie, false otherwise.
  */
 export async function clientIdAlreadyApproved(
 	request: Request,
 	clientId: string,
 	cookieSecret: string,
+	requestedScopes?: string[],
 ): Promise<boolean> {
 	if (!clientId) return false;
 	const cookieHeader = request.headers.get("Cookie");
 	const approvedClients = await getApprovedClientsFromCookie(cookieHeader, cookieSecret);
+	if (!approvedClients) return false;
 
-	return approvedClients?.includes(clientId) ?? false;
+	return approvedClients.includes(clientId) || approvedClients.includes(getApprovalEntry(clientId, requestedScopes));
 }
 
 
@@ -196,7 +218,7 @@ export async function clientIdAlreadyApproved(
  * @returns A Response containing the HTML approval dialog
  */
 export function renderApprovalDialog(request: Request, options: ApprovalDialogOptions): Response {
-	const { client, server, state } = options;
+	const { client, server, state, scopes = [] } = options;
 
 	// Encode state for form submission
 	const encodedState = btoa(JSON.stringify(state));
@@ -224,6 +246,11 @@ export function renderApprovalDialog(request: Request, options: ApprovalDialogOp
 			? client.redirectUris.map((uri) => sanitizeHtml(uri))
 			: [];
 
+	// Requested tool scopes with their descriptions
+	const scopeItems = scopes.map(
+		(scope) => `<li><code>${sanitizeHtml(scope)}</code> &mdash; ${sanitizeHtml(TOOL_SCOPES[scope] ?? "")}</li>`,
+	);
+
 	// Generate HTML for the approval dialog
 	const htmlContent = `
     <!DOCTYPE html>
@@ -339,6 +366,11 @@ export function renderApprovalDialog(request: Request, options: ApprovalDialogOp
             text-decoration: underline;
           }
           
+          .scope-list {
+            margin: 0.5rem 0;
+            padding-left: 1.25rem;
+          }
+          
           .detail-value.small {
             font-size: 0.8em;
           }
@@ -499,6 +531,17 @@ export function renderApprovalDialog(request: Request, options: ApprovalDialogOp
 				}
             </div>
             
+            ${
+					scopeItems.length > 0
+						? `
+            <div class="client-info">
+              <div class="detail-label">Requested permissions:</div>
+              <ul class="scope-list">${scopeItems.join("")}</ul>
+            </div>
+            `
+						: ""
+				}
+            
             <p>This MCP Client is requesting to be authorized on ${serverName}. If you approve, you will be redirected to complete authentication.</p>
             
             <form method="post" action="${new URL(request.url).pathname}">
@@ -570,8 +613,10 @@ export async function parseRedirectApproval(
 	const existingApprovedClients =
 		(await getApprovedClientsFromCookie(cookieHeader, cookieSecret)) || [];
 
-	// Add the newly approved client ID (avoid duplicates)
-	const updatedApprovedClients = Array.from(new Set([...existingApprovedClients, clientId]));
+	// Add the newly approved client ID and scopes (avoid duplicates)
+	const updatedApprovedClients = Array.from(
+		new Set([...existingApprovedClients, getApprovalEntry(clientId, state.oauthReqInfo?.scope)]),
+	);
 
 	// Sign the updated list
 	const payload = JSON.stringify(updatedApprovedClients);
@@ -587,6 +632,59 @@ export async function parseRedirectApproval(
 	return { headers, state };
 }
 
+/**
+ * Renders an error page for failed upstream authentication
+ *
+ * @param title - Short heading describing the failure
+ * @param message - Explanation shown to the user
+ * @param status - HTTP status code of the response
+ * @returns A Response containing the HTML error page
+ */
+export function renderAuthErrorPage(title: string, message: string, status = 400): Response {
+	const htmlContent = `
+    <!DOCTYPE html>
+    <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${sanitizeHtml(title)}</title>
+        <style>
+          body {
+            font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            background-color: #f9fafb;
+            margin: 0;
+          }
+          .card {
+            max-width: 560px;
+            margin: 4rem auto;
+            background-color: #fff;
+            border-radius: 8px;
+            box-shadow: 0 8px 36px 8px rgba(0, 0, 0, 0.1);
+            padding: 2rem;
+          }
+          h1 { color: #f44336; font-size: 1.4rem; font-weight: 500; margin-top: 0; }
+        </style>
+      </head>
+      <body>
+        <div class="card">
+          <h1>${sanitizeHtml(title)}</h1>
+          <p>${sanitizeHtml(message)}</p>
+          <p>Please return to your MCP client and try signing in again.</p>
+        </div>
+      </body>
+    </html>
+  `;
+
+	return new Response(htmlContent, {
+		headers: {
+			"Content-Type": "text/html; charset=utf-8",
+		},
+		status,
+	});
+}
+
 /**
  * Sanitizes HTML content to prevent XSS attacks
  * @param unsafe - The unsafe string that might contain HTML
@@ -615,6 +713,8 @@ export function getUpstreamAuthorizeUrl({
 	scope,
 	redirect_uri,
 	state,
+	code_challenge,
+	extra_params,
 }: UpstreamAuthorizeParams): string {
 	const upstream = new URL(upstream_url);
 	upstream.searchParams.set("client_id", client_id);
@@ -622,14 +722,22 @@ export function getUpstreamAuthorizeUrl({
 	upstream.searchParams.set("scope", scope);
 	if (state) upstream.searchParams.set("state", state);
 	upstream.searchParams.set("response_type", "code");
+	if (code_challenge) {
+		upstream.searchParams.set("code_challenge", code_challenge);
+		upstream.searchParams.set("code_challenge_method", "S256");
+	}
+	for (const [key, value] of Object.entries(extra_params ?? {})) {
+		upstream.searchParams.set(key, value);
+	}
 	return upstream.href;
 }
 
 /**
  * Fetches an authorization token from an upstream service.
+ * Accepts both JSON and form-encoded token responses (GitHub defaults to the latter).
  *
  * @param {UpstreamTokenParams} options - The parameters for the token exchange
- * @returns {Promise<[string, null] | [null, Response]>} A promise that resolves to an array containing the access token or an error response.
+ * @returns {Promise<[UpstreamTokenResponse, null] | [null, Response]>} A promise that resolves to an array containing the token response or an error response.
  */
 export async function fetchUpstreamAuthToken({
 	client_id,
@@ -637,26 +745,222 @@ export async function fetchUpstreamAuthToken({
 	code,
 	redirect_uri,
 	upstream_url,
-}: UpstreamTokenParams): Promise<[string, null] | [null, Response]> {
+	code_verifier,
+}: UpstreamTokenParams): Promise<[UpstreamTokenResponse, null] | [null, Response]> {
 	if (!code) {
 		return [null, new Response("Missing code", { status: 400 })];
 	}
 
+	const body = new URLSearchParams({ client_id, code, grant_type: "authorization_code", redirect_uri });
+	if (client_secret) body.set("client_secret", client_secret);
+	if (code_verifier) body.set("code_verifier", code_verifier);
+
 	const resp = await fetch(upstream_url, {
-		body: new URLSearchParams({ client_id, client_secret, code, redirect_uri }).toString(),
+		body: body.toString(),
 		headers: {
+			Accept: "application/json",
 			"Content-Type": "application/x-www-form-urlencoded",
+			"User-Agent": "Cloudflare-Worker/1.0",
 		},
 		method: "POST",
 	});
 	if (!resp.ok) {
 		console.log(await resp.text());
-		return [null, new Response("Failed to fetch access token", { status: 500 })];
+		return [null, new Response(`Failed to fetch access token: ${resp.status}`, { status: 500 })];
 	}
-	const body = await resp.formData();
-	const accessToken = body.get("access_token") as string;
-	if (!accessToken) {
+
+	const tokenData = await parseUpstreamTokenResponse(resp);
+	if (!tokenData.access_token) {
 		return [null, new Response("Missing access token", { status: 400 })];
 	}
-	return [accessToken, null];
+	return [tokenData, null];
+}
+
+/**
+ * Exchanges an upstream refresh token for a new access token.
+ *
+ * @param params - The parameters for the refresh request.
+ * @param params.refresh_token - The (decrypted) upstream refresh token.
+ * @param params.upstream_url - The token endpoint URL of the upstream service.
+ * @param params.client_id - The client ID of the application.
+ * @param params.client_secret - The client secret of the application, if it is a confidential client.
+ * @returns A promise resolving to the token response. Throws if the upstream service rejects the refresh.
+ */
+export async function refreshUpstreamAuthToken({
+	client_id,
+	client_secret,
+	refresh_token,
+	upstream_url,
+}: UpstreamRefreshParams): Promise<UpstreamTokenResponse> {
+	const body = new URLSearchParams({ client_id, grant_type: "refresh_token", refresh_token });
+	if (client_secret) body.set("client_secret", client_secret);
+
+	const resp = await fetch(upstream_url, {
+		body: body.toString(),
+		headers: {
+			Accept: "application/json",
+			"Content-Type": "application/x-www-form-urlencoded",
+			"User-Agent": "Cloudflare-Worker/1.0",
+		},
+		method: "POST",
+	});
+	if (!resp.ok) {
+		console.log(await resp.text());
+		throw new Error(`Failed to refresh access token: ${resp.status}`);
+	}
+
+	const tokenData = await parseUpstreamTokenResponse(resp);
+	if (!tokenData.access_token) {
+		throw new Error("Missing access token in refresh response");
+	}
+	return tokenData;
+}
+
+/**
+ * Parses a token endpoint response, which is JSON for most providers and
+ * form-encoded for some (e.g. GitHub without an Accept header).
+ * @param resp - The token endpoint response.
+ * @returns A promise resolving to the token response.
+ */
+async function parseUpstreamTokenResponse(resp: Response): Promise<UpstreamTokenResponse> {
+	const contentType = resp.headers.get("Content-Type") ?? "";
+	return contentType.includes("application/json")
+		? await resp.json()
+		: (Object.fromEntries(new URLSearchParams(await resp.text())) as UpstreamTokenResponse);
+}
+
+// --- Upstream State Functions ---
+
+/**
+ * Stores the upstream authorization state in KV and returns the opaque `state`
+ * parameter to send upstream, plus a Set-Cookie header binding it to this browser.
+ * The state is `<random id>.<HMAC signature>` so forged values are rejected before any KV lookup.
+ * The cookie is named after the state id, so sign-ins started in several tabs don't overwrite each other.
+ *
+ * @param kv - The KV namespace used for short-lived state storage.
+ * @param cookieSecret - The secret key used to sign the state.
+ * @param data - The request info, PKCE verifier and nonce to keep server-side.
+ * @returns A promise resolving to the state parameter and the binding cookie header value.
+ */
+export async function createUpstreamState(
+	kv: KVNamespace,
+	cookieSecret: string,
+	data: UpstreamAuthState,
+): Promise<{ state: string; setCookie: string }> {
+	const stateId = generateCodeVerifier();
+	const signature = await signData(await importKey(cookieSecret), stateId);
+	const state = `${stateId}.${signature}`;
+
+	await kv.put(`${STATE_KV_PREFIX}${stateId}`, JSON.stringify(data), { expirationTtl: STATE_TTL_SECONDS });
+
+	return {
+		setCookie: `${STATE_COOKIE_PREFIX}${stateId}=${state}; HttpOnly; Secure; Path=/; SameSite=Lax; Max-Age=${STATE_TTL_SECONDS}`,
+		state,
+	};
+}
+
+/**
+ * Validates the `state` returned by the upstream provider against its signature and
+ * the binding cookie, then loads and deletes the stored state (single use).
+ *
+ * @param request - The callback Request carrying the state query parameter and cookie.
+ * @param kv - The KV namespace used for short-lived state storage.
+ * @param cookieSecret - The secret key used to sign the state.
+ * @param providerId - The provider whose callback is being handled.
+ * @returns A promise resolving to the stored state, or an error response.
+ */
+export async function consumeUpstreamState(
+	request: Request,
+	kv: KVNamespace,
+	cookieSecret: string,
+	providerId: string,
+): Promise<[UpstreamAuthState, null] | [null, Response]> {
+	const state = new URL(request.url).searchParams.get("state");
+	const [stateId, signature] = state?.split(".") ?? [];
+	if (!stateId || !signature) {
+		return [null, renderAuthErrorPage("Invalid sign-in request", "The authorization state is missing or malformed.")];
+	}
+
+	if (!(await verifySignature(await importKey(cookieSecret), signature, stateId))) {
+		return [null, renderAuthErrorPage("Invalid sign-in request", "The authorization state could not be verified.")];
+	}
+
+	// CSRF protection: the callback must come back to the browser that started the flow
+	if (getCookieValue(request.headers.get("Cookie"), `${STATE_COOKIE_PREFIX}${stateId}`) !== state) {
+		return [
+			null,
+			renderAuthErrorPage("Invalid sign-in request", "This sign-in was started in a different browser session. Please try again."),
+		];
+	}
+
+	const key = `${STATE_KV_PREFIX}${stateId}`;
+	const stored = await kv.get<UpstreamAuthState>(key, "json");
+	if (!stored) {
+		return [null, renderAuthErrorPage("Sign-in expired", "The authorization request has expired or was already used.")];
+	}
+	await kv.delete(key);
+
+	if (stored.providerId !== providerId || !stored.oauthReqInfo?.clientId) {
+		return [null, renderAuthErrorPage("Invalid sign-in request", "The authorization state does not belong to this provider.")];
+	}
+
+	return [stored, null];
+}
+
+/**
+ * Builds the Set-Cookie header value that clears the binding cookie of a state.
+ * @param state - The state parameter returned by the upstream provider.
+ * @returns The Set-Cookie header value.
+ */
+export function clearUpstreamStateCookie(state: string): string {
+	const [stateId] = state.split(".");
+	return `${STATE_COOKIE_PREFIX}${stateId}=; HttpOnly; Secure; Path=/; SameSite=Lax; Max-Age=0`;
+}
+
+/**
+ * Reads a single cookie value from a Cookie header.
+ * @param cookieHeader - The value of the Cookie header from the request.
+ * @param name - The cookie name.
+ * @returns The cookie value, or undefined if absent.
+ */
+function getCookieValue(cookieHeader: string | null, name: string): string | undefined {
+	const cookie = cookieHeader
+		?.split(";")
+		.map((c) => c.trim())
+		.find((c) => c.startsWith(`${name}=`));
+	return cookie?.substring(name.length + 1);
+}
+
+// --- PKCE Helper Functions ---
+
+/**
+ * Encodes bytes as an unpadded base64url string.
+ * @param bytes - The bytes to encode.
+ * @returns The base64url encoded string.
+ */
+function base64UrlEncode(bytes: Uint8Array): string {
+	return btoa(String.fromCharCode(...bytes))
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=/g, "");
+}
+
+/**
+ * Generates a random PKCE code verifier.
+ * @returns A 43-character base64url code verifier.
+ */
+export function generateCodeVerifier(): string {
+	const array = new Uint8Array(32);
+	crypto.getRandomValues(array);
+	return base64UrlEncode(array);
+}
+
+/**
+ * Derives the S256 PKCE code challenge for a verifier.
+ * @param verifier - The code verifier.
+ * @returns A promise resolving to the base64url encoded SHA-256 digest of the verifier.
+ */
+export async function generateCodeChallenge(verifier: string): Promise<string> {
+	const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier));
+	return base64UrlEncode(new Uint8Array(digest));
 }
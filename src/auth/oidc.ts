@@ -0,0 +1,99 @@
+// OpenID Connect discovery and standard claim mapping
+
+import type { UpstreamIdentity } from "../types";
+
+/**
+ * Subset of the OpenID Provider Metadata we rely on
+ * https://openid.net/specs/openid-connect-discovery-1_0.html#ProviderMetadata
+ */
+export interface OidcDiscoveryDocument {
+	issuer: string;
+	authorization_endpoint: string;
+	token_endpoint: string;
+	userinfo_endpoint?: string;
+	jwks_uri: string;
+	scopes_supported?: string[];
+	code_challenge_methods_supported?: string[];
+	id_token_signing_alg_values_supported?: string[];
+}
+
+// Discovery documents cached per isolate, keyed by issuer
+const discoveryCache = new Map<string, Promise<OidcDiscoveryDocument>>();
+
+/**
+ * Fetch and validate the discovery document for an issuer.
+ * Results are cached for the lifetime of the isolate; failed lookups are not cached.
+ */
+export function discoverOidcConfiguration(issuer: string): Promise<OidcDiscoveryDocument> {
+	const normalizedIssuer = issuer.replace(/\/+$/, "");
+	let discovery = discoveryCache.get(normalizedIssuer);
+	if (!discovery) {
+		discovery = fetchDiscoveryDocument(normalizedIssuer);
+		discoveryCache.set(normalizedIssuer, discovery);
+		discovery.catch(() => discoveryCache.delete(normalizedIssuer));
+	}
+	return discovery;
+}
+
+/**
+ * Clear cached discovery documents (used when an issuer rotates its configuration)
+ */
+export function clearOidcDiscoveryCache(): void {
+	discoveryCache.clear();
+}
+
+async function fetchDiscoveryDocument(issuer: string): Promise<OidcDiscoveryDocument> {
+	const response = await fetch(`${issuer}/.well-known/openid-configuration`, {
+		headers: {
+			Accept: "application/json",
+			"User-Agent": "Cloudflare-Worker/1.0",
+		},
+	});
+	if (!response.ok) {
+		throw new Error(`OIDC discovery failed for ${issuer}: ${response.status}`);
+	}
+
+	const document = (await response.json()) as Partial<OidcDiscoveryDocument>;
+
+	// The issuer in the document must exactly match the one we were configured with
+	if (document.issuer?.replace(/\/+$/, "") !== issuer) {
+		throw new Error(`OIDC discovery issuer mismatch: expected ${issuer}, got ${document.issuer}`);
+	}
+	for (const field of ["authorization_endpoint", "token_endpoint", "jwks_uri"] as const) {
+		if (!document[field]) {
+			throw new Error(`OIDC discovery document for ${issuer} is missing ${field}`);
+		}
+	}
+
+	return document as OidcDiscoveryDocument;
+}
+
+/**
+ * Map standard OIDC claims (sub, email, name, preferred_username, given_name,
+ * family_name, picture) into Props
+ */
+export function mapOidcClaims(claims: Record<string, any>, accessToken: string, provider: string): UpstreamIdentity {
+	const { sub, email, email_verified, name, preferred_username, given_name, family_name, picture, updated_at } = claims;
+
+	// Use preferred_username as login, fallback to email prefix
+	const login = preferred_username || email?.split("@")[0] || sub || "unknown";
+
+	return {
+		userId: login,
+		label: name || preferred_username || email,
+		props: {
+			accessToken,
+			email,
+			login,
+			name: name || `${given_name || ""} ${family_name || ""}`.trim() || preferred_username || "Unknown User",
+			picture,
+			verified_email: email_verified,
+			sub,
+			updated_at,
+			preferred_username,
+			given_name,
+			family_name,
+			provider,
+		},
+	};
+}
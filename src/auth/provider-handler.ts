@@ -0,0 +1,212 @@
+import { Hono } from "hono";
+import type { AuthRequest, ExtendedEnv, UpstreamProviderConfig } from "../types";
+import {
+	clientIdAlreadyApproved,
+	parseRedirectApproval,
+	renderApprovalDialog,
+	renderAuthErrorPage,
+	fetchUpstreamAuthToken,
+	getUpstreamAuthorizeUrl,
+	generateCodeVerifier,
+	generateCodeChallenge,
+	createUpstreamState,
+	consumeUpstreamState,
+	clearUpstreamStateCookie,
+} from "./oauth-utils";
+import { verifyIdToken } from "./id-token";
+import { applyUpstreamTokens } from "./upstream-tokens";
+import { extractIdentityGroups } from "./access-policy";
+import { resolveGrantedScopes } from "./scopes";
+
+/**
+ * Create the Hono app serving /authorize and /callback for an upstream provider.
+ * Mount it under `/${provider.id}` so the callback URL matches the one registered upstream.
+ */
+export function createProviderHandler(provider: UpstreamProviderConfig) {
+	const app = new Hono<{ Bindings: ExtendedEnv }>();
+
+	app.get("/authorize", async (c) => {
+		const oauthReqInfo = await c.env.OAUTH_PROVIDER.parseAuthRequest(c.req.raw);
+		const { clientId } = oauthReqInfo;
+		if (!clientId) {
+			return c.text("Invalid request", 400);
+		}
+
+		if (
+			await clientIdAlreadyApproved(c.req.raw, oauthReqInfo.clientId, (c.env as any).COOKIE_ENCRYPTION_KEY, oauthReqInfo.scope)
+		) {
+			return redirectToUpstream(provider, c.req.raw, oauthReqInfo, c.env, {});
+		}
+
+		return renderApprovalDialog(c.req.raw, {
+			client: await c.env.OAUTH_PROVIDER.lookupClient(clientId),
+			scopes: resolveGrantedScopes(oauthReqInfo.scope),
+			server: provider.approvalDialog,
+			state: { oauthReqInfo }, // arbitrary data that flows through the form submission below
+		});
+	});
+
+	app.post("/authorize", async (c) => {
+		// Validates form submission, extracts state, and generates Set-Cookie headers to skip approval dialog next time
+		const { state, headers } = await parseRedirectApproval(c.req.raw, (c.env as any).COOKIE_ENCRYPTION_KEY);
+		if (!state.oauthReqInfo) {
+			return c.text("Invalid request", 400);
+		}
+
+		return redirectToUpstream(provider, c.req.raw, state.oauthReqInfo, c.env, headers);
+	});
+
+	/**
+	 * OAuth Callback Endpoint
+	 *
+	 * This route handles the callback from the upstream provider after user authentication.
+	 * It exchanges the temporary code for an access token (using PKCE where supported), then
+	 * stores user metadata & the auth token as part of the 'props' on the token passed
+	 * down to the client. It ends by redirecting the client back to _its_ callback URL
+	 */
+	app.get("/callback", async (c) => {
+		// Load (and consume) the OAuth request info, PKCE verifier and nonce stored for this state
+		const [upstreamState, stateError] = await consumeUpstreamState(
+			c.req.raw,
+			(c.env as any).OAUTH_KV,
+			(c.env as any).COOKIE_ENCRYPTION_KEY,
+			provider.id,
+		);
+		if (stateError) return stateError;
+		const { oauthReqInfo, codeVerifier, nonce } = upstreamState;
+
+		// Exchange the code for an access token
+		const [tokenData, errResponse] = await fetchUpstreamAuthToken({
+			client_id: provider.clientId(c.env),
+			client_secret: provider.clientSecret?.(c.env),
+			code: c.req.query("code"),
+			code_verifier: codeVerifier,
+			redirect_uri: new URL(`/${provider.id}/callback`, c.req.url).href,
+			upstream_url: await provider.tokenUrl(c.env),
+		});
+		if (errResponse) return errResponse;
+		const accessToken = tokenData.access_token;
+
+		// Verify the ID token for OIDC-based providers before trusting anything else from them
+		let idTokenClaims: Record<string, any> | undefined;
+		if (provider.idToken) {
+			if (!tokenData.id_token) {
+				return renderAuthErrorPage(`${provider.name} sign-in failed`, "The provider did not return an ID token.", 401);
+			}
+			const validation = await verifyIdToken(tokenData.id_token, {
+				audience: provider.clientId(c.env),
+				issuer: await provider.idToken.issuer(c.env),
+				jwksUri: await provider.idToken.jwksUri(c.env),
+				nonce,
+			});
+			if (!validation.isValid) {
+				console.error(`${provider.name} ID token rejected:`, validation.error);
+				return renderAuthErrorPage(`${provider.name} sign-in failed`, validation.error, 401);
+			}
+			idTokenClaims = validation.claims;
+		}
+
+		let userInfo: Record<string, any>;
+		try {
+			userInfo = provider.fetchUserInfo
+				? await provider.fetchUserInfo(accessToken, c.env)
+				: await fetchUserInfo(await provider.userinfoUrl(c.env), accessToken);
+		} catch (error) {
+			console.error(`${provider.name} user info fetch failed:`, error);
+			return c.text(`Failed to fetch user info from ${provider.name}. Please try again.`, 500);
+		}
+
+		// The user info must describe the same subject as the verified ID token
+		const userInfoSubject = userInfo.sub ?? userInfo.id;
+		if (idTokenClaims && userInfoSubject !== undefined && String(userInfoSubject) !== idTokenClaims.sub) {
+			return renderAuthErrorPage(`${provider.name} sign-in failed`, "User info does not match the ID token subject.", 401);
+		}
+
+		const { userId, label, props } = provider.mapUserInfo(userInfo, accessToken);
+		// Group/role claims feed the access policy (see access-policy.ts)
+		const claims = { ...userInfo, ...idTokenClaims };
+		const groups = extractIdentityGroups(claims, provider.clientId(c.env));
+		if (groups.length > 0) props.groups = groups;
+		if (typeof claims.hd === "string") props.hd = claims.hd;
+		// Tool scopes the client asked for decide which tools its sessions get
+		props.grantedScopes = resolveGrantedScopes(oauthReqInfo.scope);
+		// Keep the upstream refresh token (encrypted) and expiry so tools can renew the access token
+		const upstreamProps = await applyUpstreamTokens(props, tokenData, (c.env as any).COOKIE_ENCRYPTION_KEY);
+
+		// Return back to the MCP client a new token
+		const { redirectTo } = await c.env.OAUTH_PROVIDER.completeAuthorization({
+			metadata: {
+				label,
+			},
+			// This will be available on this.props inside MyMCP
+			props: upstreamProps,
+			request: oauthReqInfo,
+			scope: props.grantedScopes,
+			userId,
+		});
+
+		return new Response(null, {
+			headers: {
+				location: redirectTo,
+				"Set-Cookie": clearUpstreamStateCookie(c.req.query("state") ?? ""),
+			},
+			status: 302,
+		});
+	});
+
+	return app;
+}
+
+async function redirectToUpstream(
+	provider: UpstreamProviderConfig,
+	request: Request,
+	oauthReqInfo: AuthRequest,
+	env: Env,
+	headers: Record<string, string> = {},
+) {
+	// Generate PKCE parameters; the verifier stays server-side with the OAuth request info
+	const codeVerifier = provider.pkce ? generateCodeVerifier() : undefined;
+	const codeChallenge = codeVerifier ? await generateCodeChallenge(codeVerifier) : undefined;
+	// Nonce binds the returned ID token to this authorization request
+	const nonce = provider.idToken ? generateCodeVerifier() : undefined;
+
+	const { state, setCookie } = await createUpstreamState((env as any).OAUTH_KV, (env as any).COOKIE_ENCRYPTION_KEY, {
+		codeVerifier,
+		nonce,
+		oauthReqInfo,
+		providerId: provider.id,
+	});
+
+	const responseHeaders = new Headers(headers);
+	responseHeaders.append("Set-Cookie", setCookie);
+	responseHeaders.set(
+		"location",
+		getUpstreamAuthorizeUrl({
+			client_id: provider.clientId(env),
+			code_challenge: codeChallenge,
+			extra_params: { ...provider.authorizeParams?.(env), ...(nonce ? { nonce } : {}) },
+			redirect_uri: new URL(`/${provider.id}/callback`, request.url).href,
+			scope: typeof provider.scopes === "function" ? await provider.scopes(env) : provider.scopes,
+			state,
+			upstream_url: await provider.authorizeUrl(env),
+		}),
+	);
+
+	return new Response(null, { headers: responseHeaders, status: 302 });
+}
+
+/**
+ * Fetch the user info document from a bearer-token protected endpoint
+ */
+async function fetchUserInfo(userinfoUrl: string, accessToken: string): Promise<Record<string, any>> {
+	const response = await fetch(userinfoUrl, {
+		headers: {
+			Authorization: `Bearer ${accessToken}`,
+			"User-Agent": "Cloudflare-Worker/1.0",
+		},
+	});
+	if (!response.ok) {
+		throw new Error(`User info request failed: ${response.status} ${await response.text()}`);
+	}
+	return response.json();
+}
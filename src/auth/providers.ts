@@ -0,0 +1,252 @@
+// Registry of upstream OAuth providers
+//
+// Each provider is declared once here. Routes (/<id>/authorize, /<id>/callback),
+// the provider selection page and the callbacks are generated from these entries
+// by createProviderHandler() and createAuthRouter().
+
+import { Octokit } from "octokit";
+import type { Props, UpstreamProviderConfig } from "../types";
+import { discoverOidcConfiguration, mapOidcClaims } from "./oidc";
+
+const github: UpstreamProviderConfig = {
+	id: "github",
+	name: "GitHub",
+	approvalDialog: {
+		description: "This is a demo MCP Remote Server using GitHub for authentication.",
+		logo: "https://avatars.githubusercontent.com/u/314135?s=200&v=4",
+		name: "Cloudflare GitHub MCP Server",
+	},
+	isConfigured: (env) => Boolean((env as any).GITHUB_CLIENT_ID),
+	clientId: (env) => (env as any).GITHUB_CLIENT_ID,
+	clientSecret: (env) => (env as any).GITHUB_CLIENT_SECRET,
+	authorizeUrl: () => "https://github.com/login/oauth/authorize",
+	tokenUrl: () => "https://github.com/login/oauth/access_token",
+	userinfoUrl: () => "https://api.github.com/user",
+	scopes: "read:user",
+	pkce: false,
+	fetchUserInfo: async (accessToken) => {
+		const user = await new Octokit({ auth: accessToken }).rest.users.getAuthenticated();
+		return user.data;
+	},
+	mapUserInfo: ({ login, name, email }, accessToken) => ({
+		userId: login,
+		label: name,
+		props: {
+			accessToken,
+			email,
+			login,
+			name,
+			provider: "github",
+		},
+	}),
+};
+
+const google: UpstreamProviderConfig = {
+	id: "google",
+	name: "Google",
+	approvalDialog: {
+		description: "This is a demo MCP Remote Server using Google for authentication.",
+		logo: "https://developers.google.com/identity/images/g-logo.png",
+		name: "Cloudflare Google MCP Server",
+	},
+	isConfigured: (env) => Boolean((env as any).GOOGLE_CLIENT_ID),
+	clientId: (env) => (env as any).GOOGLE_CLIENT_ID,
+	clientSecret: (env) => (env as any).GOOGLE_CLIENT_SECRET,
+	authorizeUrl: () => "https://accounts.google.com/o/oauth2/v2/auth",
+	tokenUrl: () => "https://oauth2.googleapis.com/token",
+	userinfoUrl: () => "https://www.googleapis.com/oauth2/v2/userinfo",
+	scopes: "openid profile email https://www.googleapis.com/auth/gmail.send https://www.googleapis.com/auth/gmail.readonly",
+	pkce: true,
+	// Google only returns a refresh token for offline access, and only on the consent screen
+	authorizeParams: () => ({ access_type: "offline", prompt: "consent" }),
+	idToken: {
+		// Google may issue ID tokens with or without the scheme in iss
+		issuer: () => ["https://accounts.google.com", "accounts.google.com"],
+		jwksUri: () => "https://www.googleapis.com/oauth2/v3/certs",
+	},
+	mapUserInfo: ({ email, verified_email, name, picture }, accessToken) => {
+		// Use email as login for Google (since Google doesn't have a "login" field like GitHub)
+		const login = email.split("@")[0];
+		return {
+			userId: login,
+			label: name,
+			props: {
+				accessToken,
+				email,
+				login,
+				name,
+				picture,
+				verified_email,
+				provider: "google",
+			},
+		};
+	},
+};
+
+const auth0: UpstreamProviderConfig = {
+	id: "auth0",
+	name: "Auth0",
+	approvalDialog: {
+		description: "This is a demo MCP Remote Server using Auth0 for authentication.",
+		logo: "https://cdn.auth0.com/website/new-homepage/dark-favicon.png",
+		name: "Cloudflare Auth0 MCP Server",
+	},
+	isConfigured: (env) => Boolean((env as any).AUTH0_DOMAIN && (env as any).AUTH0_CLIENT_ID),
+	clientId: (env) => (env as any).AUTH0_CLIENT_ID,
+	clientSecret: (env) => (env as any).AUTH0_CLIENT_SECRET,
+	authorizeUrl: (env) => `https://${(env as any).AUTH0_DOMAIN}/authorize`,
+	tokenUrl: (env) => `https://${(env as any).AUTH0_DOMAIN}/oauth/token`,
+	userinfoUrl: (env) => `https://${(env as any).AUTH0_DOMAIN}/userinfo`,
+	scopes: "openid profile email offline_access",
+	pkce: true,
+	idToken: {
+		// Auth0 issuers carry a trailing slash
+		issuer: (env) => `https://${(env as any).AUTH0_DOMAIN}/`,
+		jwksUri: (env) => `https://${(env as any).AUTH0_DOMAIN}/.well-known/jwks.json`,
+	},
+	authorizeParams: (env): Record<string, string> => ((env as any).AUTH0_AUDIENCE ? { audience: (env as any).AUTH0_AUDIENCE } : {}),
+	mapUserInfo: ({ sub, email, email_verified, name, nickname, picture, updated_at }, accessToken) => {
+		// Use nickname as login (Auth0 equivalent), fallback to email prefix
+		const login = nickname || email?.split("@")[0] || sub.split("|")[1] || "unknown";
+		return {
+			userId: login,
+			label: name || email,
+			props: {
+				accessToken,
+				email,
+				login,
+				name: name || nickname || "Unknown User",
+				picture,
+				verified_email: email_verified,
+				sub,
+				updated_at,
+				provider: "auth0",
+			},
+		};
+	},
+};
+
+// Keycloak follows OpenID Connect standard with realm-specific endpoints
+function keycloakIssuer(env: Env): string {
+	return `${(env as any).KEYCLOAK_DOMAIN}/realms/${encodeURIComponent((env as any).KEYCLOAK_REALM)}`;
+}
+
+function keycloakEndpoint(env: Env, path: string): string {
+	return `${keycloakIssuer(env)}/protocol/openid-connect/${path}`;
+}
+
+const keycloak: UpstreamProviderConfig = {
+	id: "keycloak",
+	name: "Keycloak",
+	approvalDialog: {
+		description: "This is a demo MCP Remote Server using Keycloak for authentication.",
+		logo: "https://www.keycloak.org/resources/images/keycloak_logo_480x108.png",
+		name: "Cloudflare Keycloak MCP Server",
+	},
+	isConfigured: (env) => Boolean((env as any).KEYCLOAK_DOMAIN && (env as any).KEYCLOAK_CLIENT_ID),
+	clientId: (env) => (env as any).KEYCLOAK_CLIENT_ID,
+	// Only set for confidential clients
+	clientSecret: (env) => (env as any).KEYCLOAK_CLIENT_SECRET,
+	authorizeUrl: (env) => keycloakEndpoint(env, "auth"),
+	tokenUrl: (env) => keycloakEndpoint(env, "token"),
+	userinfoUrl: (env) => keycloakEndpoint(env, "userinfo"),
+	scopes: "openid profile email",
+	pkce: true,
+	idToken: {
+		issuer: keycloakIssuer,
+		jwksUri: (env) => keycloakEndpoint(env, "certs"),
+	},
+	mapUserInfo: (userInfo, accessToken) => mapOidcClaims(userInfo, accessToken, "keycloak"),
+};
+
+function customOAuthUrl(env: Env): string {
+	return (env as any).CUSTOM_OAUTH_URL || "http://localhost:3000";
+}
+
+const custom: UpstreamProviderConfig = {
+	id: "custom",
+	name: "Custom OAuth",
+	approvalDialog: {
+		description: "This is a demo MCP Remote Server using Custom OAuth 2.1 server for authentication.",
+		logo: "https://oauth.net/images/oauth-2-sm.png",
+		name: "Custom OAuth 2.1 MCP Server",
+	},
+	isConfigured: (env) => Boolean((env as any).CUSTOM_OAUTH_URL),
+	clientId: (env) => (env as any).CUSTOM_OAUTH_CLIENT_ID || "demo-client",
+	authorizeUrl: (env) => `${customOAuthUrl(env)}/oauth/authorize`,
+	tokenUrl: (env) => `${customOAuthUrl(env)}/oauth/token`,
+	userinfoUrl: (env) => `${customOAuthUrl(env)}/api/userinfo`,
+	scopes: "read write",
+	pkce: true,
+	mapUserInfo: ({ user_id, username, scope, client_id }, accessToken) => {
+		// Use username as login, fallback to user_id
+		const login = username || user_id || "demo_user";
+		const name = username || user_id || "Demo User";
+		return {
+			userId: login,
+			label: name,
+			props: {
+				accessToken,
+				email: `${login}@custom-oauth.local`, // Custom OAuth server doesn't provide email
+				login,
+				name,
+				user_id,
+				scope: Array.isArray(scope) ? scope.join(" ") : scope,
+				client_id,
+				provider: "custom-oauth",
+			} as Props,
+		};
+	},
+};
+
+// Generic OpenID Connect provider (Okta, Azure AD, Authentik, Dex, ...) configured from
+// the issuer's /.well-known/openid-configuration
+function oidcDiscovery(env: Env) {
+	return discoverOidcConfiguration((env as any).OIDC_ISSUER);
+}
+
+const oidc: UpstreamProviderConfig = {
+	id: "oidc",
+	name: "OpenID Connect",
+	approvalDialog: {
+		description: "This is a demo MCP Remote Server using an OpenID Connect provider for authentication.",
+		logo: "https://openid.net/wp-content/uploads/2023/02/openid-logo.png",
+		name: "OpenID Connect MCP Server",
+	},
+	isConfigured: (env) => Boolean((env as any).OIDC_ISSUER && (env as any).OIDC_CLIENT_ID),
+	clientId: (env) => (env as any).OIDC_CLIENT_ID,
+	clientSecret: (env) => (env as any).OIDC_CLIENT_SECRET,
+	authorizeUrl: async (env) => (await oidcDiscovery(env)).authorization_endpoint,
+	tokenUrl: async (env) => (await oidcDiscovery(env)).token_endpoint,
+	userinfoUrl: async (env) => {
+		const { userinfo_endpoint, issuer } = await oidcDiscovery(env);
+		if (!userinfo_endpoint) {
+			throw new Error(`OIDC issuer ${issuer} does not advertise a userinfo_endpoint`);
+		}
+		return userinfo_endpoint;
+	},
+	scopes: async (env) => {
+		if ((env as any).OIDC_SCOPES) return (env as any).OIDC_SCOPES;
+		// Ask for a refresh token when the issuer supports it
+		const { scopes_supported } = await oidcDiscovery(env);
+		return scopes_supported?.includes("offline_access") ? "openid profile email offline_access" : "openid profile email";
+	},
+	pkce: true,
+	idToken: {
+		issuer: async (env) => (await oidcDiscovery(env)).issuer,
+		jwksUri: async (env) => (await oidcDiscovery(env)).jwks_uri,
+	},
+	mapUserInfo: (userInfo, accessToken) => mapOidcClaims(userInfo, accessToken, "oidc"),
+};
+
+/**
+ * All known upstream providers, in the order they appear on the selection page
+ */
+export const UPSTREAM_PROVIDERS: UpstreamProviderConfig[] = [github, google, auth0, keycloak, oidc, custom];
+
+/**
+ * Get the providers that have credentials configured in the environment
+ */
+export function getConfiguredProviders(env: Env): UpstreamProviderConfig[] {
+	return UPSTREAM_PROVIDERS.filter((provider) => provider.isConfigured(env));
+}
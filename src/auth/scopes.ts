@@ -0,0 +1,38 @@
+// MCP permission scopes requested by clients and enforced per tool
+//
+// A client asks for scopes in its authorization request, the user sees them on the
+// approval dialog, and they are stored on the grant (Props.grantedScopes). Tools are only
+// registered for a session when both the user's role and the grant's scope allow them.
+
+import type { Props } from "../types";
+
+/**
+ * Scopes tools can require, with the description shown on the approval dialog
+ */
+export const TOOL_SCOPES: Record<string, string> = {
+	"db:read": "List database tables and run read-only queries",
+	"db:write": "Modify the database (INSERT, UPDATE, DELETE and DDL statements)",
+	"db:audit": "Search the audit log of SQL run through the database tools",
+	"github:read": "Search and read GitHub repositories",
+	"gmail:read": "Read your Gmail profile",
+	"gmail:send": "Send email from your Gmail account",
+	"search:web": "Search the web and news with Brave Search",
+};
+
+/**
+ * Resolve the tool scopes to grant for the scopes a client requested.
+ * Unknown scopes are dropped. Clients that request no tool scopes at all get every
+ * scope, so existing clients keep working.
+ */
+export function resolveGrantedScopes(requested: string[] | undefined): string[] {
+	const known = (requested ?? []).filter((scope) => scope in TOOL_SCOPES);
+	return known.length > 0 ? Array.from(new Set(known)) : Object.keys(TOOL_SCOPES);
+}
+
+/**
+ * Check whether the session's grant includes a scope.
+ * Grants issued before scopes were enforced carry no scopes and allow everything.
+ */
+export function hasScope(props: Props, scope: string): boolean {
+	return props.grantedScopes === undefined || props.grantedScopes.includes(scope);
+}
@@ -0,0 +1,197 @@
+// Upstream access token lifecycle: encrypted refresh token storage and renewal
+
+import type { TokenExchangeCallbackOptions, TokenExchangeCallbackResult } from "@cloudflare/workers-oauth-provider";
+import type { Props, UpstreamProviderConfig, UpstreamTokenResponse, UpstreamTokenSource } from "../types";
+import { refreshUpstreamAuthToken } from "./oauth-utils";
+import { UPSTREAM_PROVIDERS } from "./providers";
+
+// Refresh this long before the upstream token actually expires
+const EXPIRY_SKEW_MS = 60_000;
+
+// Props.provider values that differ from the registry id
+const PROVIDER_ALIASES: Record<string, string> = {
+	"custom-oauth": "custom",
+};
+
+/**
+ * Store the tokens from an upstream token response on the props.
+ * The refresh token is encrypted; providers that don't rotate refresh tokens
+ * omit it from refresh responses, so the previous one is kept.
+ */
+export async function applyUpstreamTokens(
+	props: Props,
+	tokenData: UpstreamTokenResponse,
+	secret: string,
+	now = Date.now(),
+): Promise<Props> {
+	const expiresIn = Number(tokenData.expires_in);
+	return {
+		...props,
+		accessToken: tokenData.access_token,
+		accessTokenExpiresAt: expiresIn > 0 ? now + expiresIn * 1000 : undefined,
+		refreshToken: tokenData.refresh_token ? await encryptUpstreamToken(secret, tokenData.refresh_token) : props.refreshToken,
+	};
+}
+
+/**
+ * Whether the upstream access token has expired or is about to
+ */
+export function isUpstreamTokenExpiring(props: Props, now = Date.now()): boolean {
+	return props.accessTokenExpiresAt !== undefined && props.accessTokenExpiresAt - EXPIRY_SKEW_MS <= now;
+}
+
+/**
+ * Use the stored refresh token to get a new upstream access token.
+ * Throws `{ status: 401 }` when the grant cannot be renewed so API helpers report it as an auth failure.
+ */
+export async function refreshUpstreamProps(env: Env, props: Props): Promise<Props> {
+	const provider = findProvider(props.provider);
+	if (!provider || !props.refreshToken) {
+		throw { status: 401, message: "The upstream access token expired and cannot be refreshed. Please re-authenticate." };
+	}
+
+	const secret = (env as any).COOKIE_ENCRYPTION_KEY;
+	try {
+		const tokenData = await refreshUpstreamAuthToken({
+			client_id: provider.clientId(env),
+			client_secret: provider.clientSecret?.(env),
+			refresh_token: await decryptUpstreamToken(secret, props.refreshToken),
+			upstream_url: await provider.tokenUrl(env),
+		});
+		return await applyUpstreamTokens(props, tokenData, secret);
+	} catch (error) {
+		console.error(`${provider.name} token refresh failed:`, error);
+		throw {
+			status: 401,
+			message: `Could not refresh the ${provider.name} access token. Please re-authenticate.`,
+			details: error instanceof Error ? error.message : error,
+		};
+	}
+}
+
+/**
+ * Create a token source over the props passed to the tools.
+ * Refreshed tokens are written back onto `props` (so every tool sees them) and handed to
+ * `persist`, e.g. to save them in Durable Object storage. Concurrent refreshes are coalesced.
+ */
+export function createUpstreamTokenSource(
+	env: Env,
+	props: Props,
+	persist?: (props: Props) => Promise<void> | void,
+): UpstreamTokenSource {
+	let pending: Promise<string | null> | null = null;
+
+	const refresh = (): Promise<string | null> => {
+		if (!props.refreshToken) return Promise.resolve(null);
+		if (!pending) {
+			pending = (async () => {
+				Object.assign(props, await refreshUpstreamProps(env, props));
+				await persist?.(props);
+				return props.accessToken;
+			})().finally(() => {
+				pending = null;
+			});
+		}
+		return pending;
+	};
+
+	return {
+		getAccessToken: async () => (isUpstreamTokenExpiring(props) ? ((await refresh()) ?? props.accessToken) : props.accessToken),
+		refresh,
+	};
+}
+
+/**
+ * Run an upstream API operation with a bearer token, refreshing the token and retrying
+ * once if the upstream API rejects it with a 401.
+ */
+export async function withUpstreamToken<T>(
+	token: string | UpstreamTokenSource,
+	operation: (accessToken: string) => Promise<T>,
+): Promise<T> {
+	if (typeof token === "string") {
+		return operation(token);
+	}
+
+	try {
+		return await operation(await token.getAccessToken());
+	} catch (error) {
+		if ((error as any)?.status !== 401) throw error;
+		const refreshed = await token.refresh();
+		if (!refreshed) throw error;
+		return operation(refreshed);
+	}
+}
+
+/**
+ * OAuthProvider tokenExchangeCallback: when an MCP client refreshes its own token, renew an
+ * expiring upstream token too and store it in the grant so new sessions start with it.
+ */
+export function createTokenExchangeCallback(env: Env) {
+	return async ({ grantType, props }: TokenExchangeCallbackOptions): Promise<TokenExchangeCallbackResult | void> => {
+		if (grantType !== "refresh_token" || !props?.refreshToken || !isUpstreamTokenExpiring(props)) {
+			return;
+		}
+		try {
+			return { newProps: await refreshUpstreamProps(env, props) };
+		} catch {
+			// Keep the current props; tools will report the authentication failure
+			return;
+		}
+	};
+}
+
+/**
+ * Encrypt an upstream token with AES-GCM, keyed from the given secret
+ */
+export async function encryptUpstreamToken(secret: string, token: string): Promise<string> {
+	const iv = crypto.getRandomValues(new Uint8Array(12));
+	const ciphertext = await crypto.subtle.encrypt(
+		{ iv, name: "AES-GCM" },
+		await importEncryptionKey(secret),
+		new TextEncoder().encode(token),
+	);
+	return `${base64UrlEncode(iv)}.${base64UrlEncode(new Uint8Array(ciphertext))}`;
+}
+
+/**
+ * Decrypt a token produced by encryptUpstreamToken
+ */
+export async function decryptUpstreamToken(secret: string, encrypted: string): Promise<string> {
+	const [iv, ciphertext] = encrypted.split(".");
+	if (!iv || !ciphertext) {
+		throw new Error("Encrypted token is malformed");
+	}
+	const plaintext = await crypto.subtle.decrypt(
+		{ iv: base64UrlDecode(iv), name: "AES-GCM" },
+		await importEncryptionKey(secret),
+		base64UrlDecode(ciphertext),
+	);
+	return new TextDecoder().decode(plaintext);
+}
+
+function findProvider(id: string | undefined): UpstreamProviderConfig | undefined {
+	const providerId = id ? (PROVIDER_ALIASES[id] ?? id) : undefined;
+	return UPSTREAM_PROVIDERS.find((provider) => provider.id === providerId);
+}
+
+async function importEncryptionKey(secret: string): Promise<CryptoKey> {
+	if (!secret) {
+		throw new Error("COOKIE_ENCRYPTION_KEY is not defined. A secret key is required for encrypting tokens.");
+	}
+	// Derive a 256-bit key from the secret, which may be any length
+	const keyMaterial = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(secret));
+	return crypto.subtle.importKey("raw", keyMaterial, { name: "AES-GCM" }, false, ["encrypt", "decrypt"]);
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+	return btoa(String.fromCharCode(...bytes))
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=/g, "");
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+	const base64 = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+	return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,295 @@
+// Audit log of the SQL run through the database tools
+//
+// When AUDIT_LOG_DATABASE_URL is set, every statement run by queryDatabase, explainQuery and
+// executeDatabase, and every transaction begun, committed or rolled back, is recorded in the
+// mcp_audit.audit_log table of that database: who ran it (login and OAuth provider), the tool, the
+// SQL and parameters, the tables it references, the row count, duration and outcome. Schema reads,
+// resource reads and the EXPLAINs of the query cost check are recorded too. Parameters are masked
+// with the masking policy before they are stored. The schema and table are created on first use,
+// with every privilege revoked from PUBLIC. Failing to write a record is logged and never fails
+// the tool call.
+// The log is protected by Postgres privileges, not by inspecting SQL: the URL must connect as a
+// role none of the tool databases use, so SQL run by the other tools cannot read or change it
+// however it names the table. getAuditLog searches the log for users with the db-auditor role.
+
+import postgres from "postgres";
+import { getDb } from "./connection";
+import { loadDatabaseConfigs } from "./databases";
+import { maskSqlParameters } from "./masking";
+import { parseSqlStatements, type SqlToken } from "./sql-parser";
+import { withQueryTimeouts, type QueryTimeouts } from "./timeouts";
+import type { Props } from "../types";
+
+export const AUDIT_LOG_SCHEMA = "mcp_audit";
+export const AUDIT_LOG_TABLE = `${AUDIT_LOG_SCHEMA}.audit_log`;
+
+export const DEFAULT_AUDIT_LOG_LIMIT = 50;
+
+export type AuditOutcome = "success" | "rolled_back" | "error";
+
+// What a tool call ran, for its audit record
+export interface AuditContext {
+	props: Props;
+	tool: string;
+	database: string;
+	sql: string;
+	params?: unknown[];
+	transactionId?: string;
+}
+
+export interface AuditEntry extends AuditContext {
+	rowCount?: number;
+	durationMs: number;
+	outcome: AuditOutcome;
+	error?: string;
+}
+
+export interface AuditLogFilters {
+	login?: string;
+	tool?: string;
+	table?: string;
+	outcome?: AuditOutcome;
+	since?: string; // ISO 8601 timestamps
+	until?: string;
+	limit?: number;
+}
+
+// Words that are followed by a table name
+const TABLE_KEYWORDS = new Set(["from", "join", "into", "update", "table", "truncate"]);
+
+// Created separately so each statement works with the extended query protocol
+const CREATE_AUDIT_TABLE = [
+	`CREATE SCHEMA IF NOT EXISTS ${AUDIT_LOG_SCHEMA}`,
+	`REVOKE ALL ON SCHEMA ${AUDIT_LOG_SCHEMA} FROM PUBLIC`,
+	`CREATE TABLE IF NOT EXISTS ${AUDIT_LOG_TABLE} (
+		id bigserial PRIMARY KEY,
+		occurred_at timestamptz NOT NULL DEFAULT now(),
+		login text NOT NULL,
+		provider text,
+		tool text NOT NULL,
+		database text NOT NULL,
+		sql text NOT NULL,
+		params jsonb,
+		tables text[] NOT NULL DEFAULT '{}',
+		transaction_id text,
+		row_count integer,
+		duration_ms integer NOT NULL,
+		outcome text NOT NULL,
+		error text
+	)`,
+	`CREATE INDEX IF NOT EXISTS audit_log_occurred_at_idx ON ${AUDIT_LOG_TABLE} (occurred_at DESC)`,
+	`REVOKE ALL ON TABLE ${AUDIT_LOG_TABLE} FROM PUBLIC`,
+];
+
+// The table is only created once per database URL and isolate
+const ensuredTables = new Map<string, Promise<void>>();
+
+/**
+ * The database audit records are written to, or undefined when audit logging is off.
+ * AUDIT_LOG_DATABASE_URL is refused (and logged) when it connects as the same role, on the same
+ * server, as a configured tool database: that role could then read and change the log through the
+ * other tools.
+ */
+export function getAuditDatabase(env: Env): { url: string } | undefined {
+	const url = env.AUDIT_LOG_DATABASE_URL;
+	if (!url) {
+		return undefined;
+	}
+
+	const auditRole = connectionRole(url);
+	if (!auditRole) {
+		console.error("Audit logging is off: AUDIT_LOG_DATABASE_URL is not a valid connection URL");
+		return undefined;
+	}
+	const shared = loadDatabaseConfigs(env).find((database) => connectionRole(database.url) === auditRole);
+	if (shared) {
+		console.error(`Audit logging is off: AUDIT_LOG_DATABASE_URL connects as the same role as database "${shared.name}"`);
+		return undefined;
+	}
+	return { url };
+}
+
+/**
+ * Run a database operation and record it in the audit log, whether it succeeds or fails.
+ * `summarize` reports the row count, whether a write was rolled back or the transaction started from the result.
+ * The context is read when the record is written, so the operation can fill in SQL it only learns while running.
+ */
+export async function audited<T>(
+	env: Env,
+	context: AuditContext,
+	operation: () => Promise<T>,
+	summarize?: (result: T) => Partial<Pick<AuditEntry, "rowCount" | "outcome" | "transactionId">>,
+): Promise<T> {
+	const startTime = Date.now();
+	let result: T;
+	try {
+		result = await operation();
+	} catch (error) {
+		await recordAuditEntry(env, {
+			...context,
+			durationMs: Date.now() - startTime,
+			outcome: "error",
+			error: error instanceof Error ? error.message : String(error),
+		});
+		throw error;
+	}
+
+	await recordAuditEntry(env, {
+		...context,
+		durationMs: Date.now() - startTime,
+		outcome: "success",
+		...summarize?.(result),
+	});
+	return result;
+}
+
+/**
+ * Write one audit record. Does nothing when audit logging is off; errors are logged, not thrown.
+ */
+export async function recordAuditEntry(env: Env, entry: AuditEntry): Promise<void> {
+	const database = getAuditDatabase(env);
+	if (!database) {
+		return;
+	}
+
+	try {
+		const params = entry.params?.length ? await maskSqlParameters(env, entry.sql, entry.params) : [];
+		const db = getDb(database.url);
+		await ensureAuditTable(db, database.url);
+		await db.unsafe(
+			`INSERT INTO ${AUDIT_LOG_TABLE}
+				(login, provider, tool, database, sql, params, tables, transaction_id, row_count, duration_ms, outcome, error)
+			VALUES ($1, $2, $3, $4, $5, $6::jsonb, $7::text[], $8, $9, $10, $11, $12)`,
+			[
+				entry.props.login,
+				entry.props.provider ?? null,
+				entry.tool,
+				entry.database,
+				entry.sql,
+				params.length ? JSON.stringify(params) : null,
+				referencedTables(entry.sql),
+				entry.transactionId ?? null,
+				entry.rowCount ?? null,
+				entry.durationMs,
+				entry.outcome,
+				entry.error ?? null,
+			],
+		);
+	} catch (error) {
+		console.error("Failed to write audit log entry:", error);
+	}
+}
+
+/**
+ * Search the audit log, newest first. Logins and tables match case-insensitively; a table
+ * matches with or without its schema (users matches public.users). The search runs in a READ ONLY
+ * transaction with the given timeouts.
+ */
+export async function searchAuditLog(
+	db: postgres.Sql,
+	databaseUrl: string,
+	filters: AuditLogFilters,
+	options: { timeouts: QueryTimeouts; signal?: AbortSignal },
+): Promise<unknown[]> {
+	await ensureAuditTable(db, databaseUrl);
+
+	const conditions: string[] = [];
+	const params: (string | number)[] = [];
+	const bind = (value: string | number) => {
+		params.push(value);
+		return `$${params.length}`;
+	};
+
+	if (filters.login) conditions.push(`lower(login) = lower(${bind(filters.login)})`);
+	if (filters.tool) conditions.push(`tool = ${bind(filters.tool)}`);
+	if (filters.outcome) conditions.push(`outcome = ${bind(filters.outcome)}`);
+	if (filters.since) conditions.push(`occurred_at >= ${bind(filters.since)}::timestamptz`);
+	if (filters.until) conditions.push(`occurred_at < ${bind(filters.until)}::timestamptz`);
+	if (filters.table) {
+		const table = bind(filters.table.toLowerCase());
+		conditions.push(`EXISTS (SELECT 1 FROM unnest(tables) AS t(name) WHERE lower(t.name) = ${table} OR lower(t.name) LIKE '%.' || ${table})`);
+	}
+
+	const limit = bind(filters.limit ?? DEFAULT_AUDIT_LOG_LIMIT);
+	const entries = await withQueryTimeouts(db, { ...options, readOnly: true }, (tx) =>
+		tx.unsafe(
+			`SELECT id::text AS id, occurred_at, login, provider, tool, database, sql, params, tables, transaction_id,
+				row_count, duration_ms, outcome, error
+			FROM ${AUDIT_LOG_TABLE}
+			${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+			ORDER BY occurred_at DESC, id DESC
+			LIMIT ${limit}`,
+			params,
+		),
+	);
+	return Array.from(entries);
+}
+
+/**
+ * Tables a statement references, as written (schema-qualified when it is), for searching the log.
+ * Best effort: names are taken from after FROM, JOIN, INTO, UPDATE, TABLE and TRUNCATE.
+ */
+export function referencedTables(sql: string): string[] {
+	let statements;
+	try {
+		statements = parseSqlStatements(sql);
+	} catch {
+		return [];
+	}
+
+	const tables = new Set<string>();
+	for (const { tokens } of statements) {
+		tokens.forEach((token, i) => {
+			if (token.type !== "word" || !TABLE_KEYWORDS.has(token.value)) return;
+			// IS DISTINCT FROM compares values; FOR UPDATE and ON CONFLICT DO UPDATE are not statements
+			if (["distinct", "for", "do"].includes(tokens[i - 1]?.value ?? "")) return;
+			const name = tableNameAt(tokens, i + 1, token.value);
+			if (name) tables.add(name);
+		});
+	}
+	return Array.from(tables);
+}
+
+// Read a possibly schema-qualified name, skipping ONLY and IF [NOT] EXISTS
+function tableNameAt(tokens: SqlToken[], start: number, keyword: string): string | undefined {
+	let i = start;
+	while (tokens[i]?.type === "word" && ["only", "if", "not", "exists"].includes(tokens[i].value)) i++;
+
+	const parts: string[] = [];
+	while (tokens[i]?.type === "word" || tokens[i]?.type === "identifier") {
+		parts.push(tokens[i].value);
+		if (tokens[i + 1]?.type !== "punctuation" || tokens[i + 1].value !== ".") break;
+		i += 2;
+	}
+	// A function call such as FROM generate_series(1, 10) is not a table (INTO users (id) is)
+	const isCall = (keyword === "from" || keyword === "join") && tokens[i + 1]?.type === "punctuation" && tokens[i + 1].value === "(";
+	if (parts.length === 0 || isCall) {
+		return undefined;
+	}
+	return parts.join(".");
+}
+
+// The role a connection URL logs in as, with its server (roles are shared by every database on a server)
+function connectionRole(url: string): string | undefined {
+	try {
+		const parsed = new URL(url);
+		return `${decodeURIComponent(parsed.username)}@${parsed.hostname.toLowerCase()}:${parsed.port || "5432"}`;
+	} catch {
+		return undefined;
+	}
+}
+
+// Create the audit table unless this isolate already did; a failure is retried on the next call
+function ensureAuditTable(db: postgres.Sql, databaseUrl: string): Promise<void> {
+	let ensured = ensuredTables.get(databaseUrl);
+	if (!ensured) {
+		ensured = (async () => {
+			for (const statement of CREATE_AUDIT_TABLE) {
+				await db.unsafe(statement);
+			}
+		})();
+		ensured.catch(() => ensuredTables.delete(databaseUrl));
+		ensuredTables.set(databaseUrl, ensured);
+	}
+	return ensured;
+}
@@ -1,14 +1,16 @@
 import postgres from "postgres";
 
-let dbInstance: postgres.Sql | null = null;
+// One pool per database URL (see src/database/databases.ts for named databases)
+const pools = new Map<string, postgres.Sql>();
 
 /**
- * Get database connection singleton
+ * Get the connection pool for a database URL, creating it on first use
  * Following the pattern from BASIC-DB-MCP.md but adapted for PostgreSQL with connection pooling
  */
 export function getDb(databaseUrl: string): postgres.Sql {
-	if (!dbInstance) {
-		dbInstance = postgres(databaseUrl, {
+	let db = pools.get(databaseUrl);
+	if (!db) {
+		db = postgres(databaseUrl, {
 			// Connection pool settings for Cloudflare Workers
 			max: 5, // Maximum 5 connections to fit within Workers' limit of 6 concurrent connections
 			idle_timeout: 20,
@@ -16,22 +18,23 @@ export function getDb(databaseUrl: string): postgres.Sql {
 			// Enable prepared statements for better performance
 			prepare: true,
 		});
+		pools.set(databaseUrl, db);
 	}
-	return dbInstance;
+	return db;
 }
 
 /**
- * Close database connection pool
+ * Close all database connection pools
  * Call this when the Durable Object is shutting down
  */
 export async function closeDb(): Promise<void> {
-	if (dbInstance) {
+	for (const [databaseUrl, db] of pools) {
 		try {
-			await dbInstance.end();
+			await db.end();
 		} catch (error) {
 			console.error('Error closing database connection:', error);
 		} finally {
-			dbInstance = null;
+			pools.delete(databaseUrl);
 		}
 	}
 }
\ No newline at end of file
@@ -0,0 +1,131 @@
+// Named database connections
+//
+// DATABASE_URL is the "default" database. More databases are configured with the DATABASES
+// variable, a JSON object mapping names to connections, e.g.
+//   {"billing-replica": {"url": "postgresql://...", "description": "Billing read replica", "readOnly": true}}
+// Each database names the roles (see src/auth/access-policy.ts) needed to read and to write it,
+// db-reader and db-writer unless configured. A "default" entry may omit `url` to change the
+// description or roles of DATABASE_URL. Read-only databases never accept writes.
+
+import { z } from "zod";
+import { hasRole } from "../auth/access-policy";
+
+export const DEFAULT_DATABASE_NAME = "default";
+export const DEFAULT_READ_ROLE = "db-reader";
+export const DEFAULT_WRITE_ROLE = "db-writer";
+
+export type DatabaseAccess = "read" | "write";
+
+export interface DatabaseConfig {
+	name: string;
+	url: string;
+	description?: string;
+	readOnly: boolean;
+	readRole: string; // Role needed to use the read tools against this database
+	writeRole: string; // Role needed for executeDatabase; also allows reading
+}
+
+const DatabaseConfigSchema = z
+	.object({
+		url: z.string().min(1).optional(),
+		description: z.string().optional(),
+		readOnly: z.boolean().optional(),
+		readRole: z.string().min(1).optional(),
+		writeRole: z.string().min(1).optional(),
+	})
+	.strict();
+
+const DatabasesSchema = z.record(
+	z.string().regex(/^[A-Za-z0-9_-]+$/, "Database names may only contain letters, digits, '_' and '-'"),
+	DatabaseConfigSchema,
+);
+
+/**
+ * Load the configured databases: DATABASE_URL as "default", followed by the DATABASES entries.
+ * An invalid DATABASES value is logged and ignored, leaving only the default database.
+ */
+export function loadDatabaseConfigs(env: Env): DatabaseConfig[] {
+	const databases = new Map<string, DatabaseConfig>();
+	const defaultUrl: string | undefined = (env as any).DATABASE_URL;
+	if (defaultUrl) {
+		databases.set(DEFAULT_DATABASE_NAME, {
+			name: DEFAULT_DATABASE_NAME,
+			url: defaultUrl,
+			readOnly: false,
+			readRole: DEFAULT_READ_ROLE,
+			writeRole: DEFAULT_WRITE_ROLE,
+		});
+	}
+
+	if ((env as any).DATABASES) {
+		try {
+			const configured = DatabasesSchema.parse(JSON.parse((env as any).DATABASES));
+			for (const [name, config] of Object.entries(configured)) {
+				const url = config.url ?? (name === DEFAULT_DATABASE_NAME ? defaultUrl : undefined);
+				if (!url) {
+					console.error(`Ignoring database "${name}" in DATABASES: no url configured`);
+					continue;
+				}
+				databases.set(name, {
+					name,
+					url,
+					description: config.description,
+					readOnly: config.readOnly ?? false,
+					readRole: config.readRole ?? DEFAULT_READ_ROLE,
+					writeRole: config.writeRole ?? DEFAULT_WRITE_ROLE,
+				});
+			}
+		} catch (error) {
+			console.error("Ignoring invalid DATABASES:", error);
+		}
+	}
+
+	return Array.from(databases.values());
+}
+
+/**
+ * Check whether the user's roles allow reading or writing a database
+ */
+export function canAccessDatabase(roles: ReadonlySet<string>, database: DatabaseConfig, access: DatabaseAccess): boolean {
+	const canWrite = !database.readOnly && hasRole(roles, database.writeRole);
+	return access === "write" ? canWrite : canWrite || hasRole(roles, database.readRole);
+}
+
+/**
+ * The configured databases the user can read or write
+ */
+export function getAccessibleDatabases(env: Env, roles: ReadonlySet<string>, access: DatabaseAccess): DatabaseConfig[] {
+	return loadDatabaseConfigs(env).filter((database) => canAccessDatabase(roles, database, access));
+}
+
+/**
+ * Pick the database a tool call targets. Without a name this is the default database if the
+ * user can access it, otherwise the first accessible one. Returns an error message when the
+ * database does not exist or the user lacks the required access.
+ */
+export function selectDatabase(
+	env: Env,
+	roles: ReadonlySet<string>,
+	name: string | undefined,
+	access: DatabaseAccess,
+): { database: DatabaseConfig } | { error: string } {
+	const databases = loadDatabaseConfigs(env);
+
+	if (name === undefined) {
+		const accessible = databases.filter((database) => canAccessDatabase(roles, database, access));
+		const database = accessible.find((d) => d.name === DEFAULT_DATABASE_NAME) ?? accessible[0];
+		return database ? { database } : { error: `No database is available for ${access} access.` };
+	}
+
+	const database = databases.find((d) => d.name === name);
+	if (!database) {
+		return { error: `Unknown database "${name}". Use the \`listDatabases\` tool to see the databases you can use.` };
+	}
+	if (access === "write" && database.readOnly) {
+		return { error: `Database "${name}" is read-only.` };
+	}
+	if (!canAccessDatabase(roles, database, access)) {
+		return { error: `You do not have ${access} access to database "${name}".` };
+	}
+	return { database };
+}
@@ -0,0 +1,107 @@
+// Output formats for database query results
+//
+// postgres.js returns int8/numeric as strings, timestamps as Date, bytea as Uint8Array
+// (Buffer) and arrays/json as JS values. Values are normalized to JSON-safe forms first so
+// every format renders them the same way and nothing throws or turns into byte arrays.
+
+export const RESULT_FORMATS = ["json", "markdown", "csv", "ndjson", "columnar"] as const;
+
+export type ResultFormat = (typeof RESULT_FORMATS)[number];
+
+export type NormalizedValue = string | number | boolean | null | NormalizedValue[] | { [key: string]: NormalizedValue };
+
+/**
+ * Convert a value returned by postgres.js into a JSON-safe value.
+ * bigint and non-finite numbers become strings, dates become ISO 8601 strings and binary data
+ * becomes Postgres hex format (\x0a1b...).
+ */
+export function normalizeValue(value: unknown): NormalizedValue {
+	if (value === null || value === undefined) return null;
+	if (typeof value === "bigint") return value.toString();
+	if (typeof value === "number") return Number.isFinite(value) ? value : String(value);
+	if (typeof value === "string" || typeof value === "boolean") return value;
+	if (value instanceof Date) return Number.isNaN(value.getTime()) ? String(value) : value.toISOString();
+	if (value instanceof Uint8Array) {
+		return `\\x${Array.from(value, (byte) => byte.toString(16).padStart(2, "0")).join("")}`;
+	}
+	if (Array.isArray(value)) return value.map(normalizeValue);
+	if (typeof value === "object") {
+		const normalized: { [key: string]: NormalizedValue } = {};
+		for (const [key, entry] of Object.entries(value)) {
+			normalized[key] = normalizeValue(entry);
+		}
+		return normalized;
+	}
+	return String(value);
+}
+
+/**
+ * Normalize every column of a result row
+ */
+export function normalizeRow(row: unknown): Record<string, NormalizedValue> {
+	const normalized = normalizeValue(row);
+	return normalized !== null && typeof normalized === "object" && !Array.isArray(normalized) ? normalized : { value: normalized };
+}
+
+/**
+ * Render result rows in the requested format as a Markdown snippet for the tool response
+ */
+export function formatResultRows(rows: unknown[], format: ResultFormat = "json"): string {
+	const normalized = rows.map(normalizeRow);
+	const columns = getColumns(normalized);
+
+	switch (format) {
+		case "markdown":
+			return toMarkdownTable(normalized, columns);
+		case "csv":
+			return codeBlock("csv", toCsv(normalized, columns));
+		case "ndjson":
+			return codeBlock("json", normalized.map((row) => JSON.stringify(row)).join("\n"));
+		case "columnar":
+			return codeBlock("json", JSON.stringify({ columns, rows: normalized.map((row) => columns.map((column) => row[column] ?? null)) }));
+		default:
+			return codeBlock("json", JSON.stringify(normalized, null, 2));
+	}
+}
+
+// Column names in first-seen order across all rows
+function getColumns(rows: Record<string, NormalizedValue>[]): string[] {
+	const columns = new Set<string>();
+	for (const row of rows) {
+		for (const column of Object.keys(row)) columns.add(column);
+	}
+	return Array.from(columns);
+}
+
+function toMarkdownTable(rows: Record<string, NormalizedValue>[], columns: string[]): string {
+	if (rows.length === 0 || columns.length === 0) {
+		return "_No rows_";
+	}
+	const cell = (value: NormalizedValue | undefined) => {
+		if (value === null || value === undefined) return "NULL";
+		const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+		return text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+	};
+	const lines = [
+		`| ${columns.map((column) => cell(column)).join(" | ")} |`,
+		`| ${columns.map(() => "---").join(" | ")} |`,
+		...rows.map((row) => `| ${columns.map((column) => cell(row[column])).join(" | ")} |`),
+	];
+	return lines.join("\n");
+}
+
+// RFC 4180 CSV; NULL is an empty field, arrays and objects are written as JSON
+function toCsv(rows: Record<string, NormalizedValue>[], columns: string[]): string {
+	const field = (value: NormalizedValue | undefined) => {
+		if (value === null || value === undefined) return "";
+		const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+		return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+	};
+	return [columns.map(field), ...rows.map((row) => columns.map((column) => field(row[column])))]
+		.map((fields) => fields.join(","))
+		.join("\n");
+}
+
+function codeBlock(language: string, content: string): string {
+	return `\`\`\`${language}\n${content}\n\`\`\``;
+}
@@ -0,0 +1,473 @@
+// Bulk row imports for importRows
+//
+// Rows arrive as CSV with a header row or as a JSON array of objects. Before anything is written,
+// every value is checked against the type of its column from introspection. Valid rows are inserted
+// with batched multi-row INSERTs in a single transaction, optionally as an upsert on a conflict key.
+// INSERT is used rather than COPY because COPY cannot upsert or report which rows failed.
+//
+// By default any invalid row aborts the import. With onError "skip", invalid rows are reported and
+// left out, and each batch runs in a savepoint: when the database rejects a batch (a constraint or
+// a value Postgres does not accept), the batch is retried row by row to find the rows that failed.
+
+import postgres from "postgres";
+import { introspectDatabase, quoteIdentifier, type ColumnInfo, type TableInfo } from "./introspection";
+
+export const IMPORT_FORMATS = ["csv", "json"] as const;
+
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+// Rows accepted by a single importRows call (IMPORT_MAX_ROWS)
+export const DEFAULT_IMPORT_ROW_LIMIT = 10_000;
+
+// Row errors listed in a report; the rest are counted
+export const MAX_REPORTED_ROW_ERRORS = 20;
+
+const MAX_BATCH_ROWS = 500;
+
+// Postgres accepts at most this many bind parameters in one statement
+const MAX_BIND_PARAMETERS = 65_535;
+
+const INTEGER_RANGES: Record<string, bigint> = {
+	smallint: 32_767n,
+	integer: 2_147_483_647n,
+	bigint: 9_223_372_036_854_775_807n,
+};
+
+const DECIMAL_TYPES = new Set(["numeric", "real", "double precision", "money"]);
+
+const BOOLEAN_VALUES: Record<string, string> = {
+	true: "true", t: "true", yes: "true", y: "true", on: "true", "1": "true",
+	false: "false", f: "false", no: "false", n: "false", off: "false", "0": "false",
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Raised when the data or the options of an import cannot be used. The message is safe to show
+ * to the user.
+ */
+export class ImportError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "ImportError";
+	}
+}
+
+export interface ImportRow {
+	row: number; // 1 is the first data row
+	values: Record<string, unknown>;
+}
+
+export interface ImportRowError {
+	row: number;
+	error: string;
+}
+
+export interface ParsedRows {
+	rows: ImportRow[];
+	errors: ImportRowError[]; // Rows that could not be read, e.g. a CSV line with too many fields
+}
+
+export interface ImportOptions {
+	conflictColumns?: string[]; // Conflict target of an upsert, the primary key by default
+	onConflict?: "update" | "ignore";
+	onError?: "abort" | "skip";
+}
+
+export interface ImportResult {
+	table: string;
+	columns: string[];
+	inserted: number;
+	updated: number;
+	unchanged: number; // Conflicting rows left as they were with onConflict "ignore"
+	errors: ImportRowError[]; // Rows left out with onError "skip"
+}
+
+interface PreparedRow {
+	row: number;
+	values: (string | null | undefined)[]; // undefined inserts the column default
+}
+
+/**
+ * Read the largest number of rows importRows accepts from the environment (IMPORT_MAX_ROWS)
+ */
+export function getImportRowLimit(env: Env): number {
+	const configured = Number.parseInt(env.IMPORT_MAX_ROWS ?? "", 10);
+	return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_IMPORT_ROW_LIMIT;
+}
+
+/**
+ * Read rows from CSV (a header row, then one record per line, RFC 4180 quoting) or JSON (an array
+ * of objects). In CSV an empty field is NULL and a quoted empty field ("") is an empty string.
+ */
+export function parseImportRows(data: string, format: ImportFormat, maxRows: number): ParsedRows {
+	const parsed = format === "csv" ? parseCsvRows(data) : parseJsonRows(data);
+	const total = parsed.rows.length + parsed.errors.length;
+	if (total === 0) {
+		throw new ImportError("There are no rows to import");
+	}
+	if (total > maxRows) {
+		throw new ImportError(`Too many rows: ${total} (max ${maxRows}). Split the data into several imports.`);
+	}
+	return parsed;
+}
+
+/**
+ * Import rows into a table in one transaction. `table` is "name" or "schema.name".
+ * `connection` must be a reserved connection outside a transaction.
+ */
+export async function importRows(connection: postgres.Sql, table: string, parsed: ParsedRows, options: ImportOptions = {}): Promise<ImportResult> {
+	const target = await findImportTable(connection, table);
+	const enums = await connection.unsafe(
+		`SELECT t.typname AS name, to_json(array_agg(e.enumlabel ORDER BY e.enumsortorder)) AS values
+		FROM pg_catalog.pg_type t JOIN pg_catalog.pg_enum e ON e.enumtypid = t.oid
+		GROUP BY t.typname`,
+	);
+	const enumValues = new Map<string, string[]>(enums.map((row) => [row.name, row.values]));
+
+	const { columns, rows, errors } = prepareRows(target, enumValues, parsed.rows);
+	errors.push(...parsed.errors);
+	errors.sort((a, b) => a.row - b.row);
+	if (errors.length > 0 && options.onError !== "skip") {
+		throw new ImportError(
+			`${errors.length} of ${parsed.rows.length + parsed.errors.length} rows are invalid, nothing was imported. Fix them, or pass onError "skip" to import the valid rows.\n${formatRowErrors(errors)}`,
+		);
+	}
+
+	const conflict = buildConflictClause(target, columns, options);
+	const insert = (batch: PreparedRow[]) => {
+		const params: string[] = [];
+		const values = batch.map(
+			(row) => `(${row.values.map((value) => (value === undefined ? "DEFAULT" : value === null ? "NULL" : `$${params.push(value)}`)).join(", ")})`,
+		);
+		const sql = `INSERT INTO ${quoteIdentifier(target.schema)}.${quoteIdentifier(target.name)} (${columns.map((column) => quoteIdentifier(column.name)).join(", ")}) VALUES ${values.join(", ")}${conflict} RETURNING (xmax = 0) AS inserted`;
+		return connection.unsafe(sql, params);
+	};
+
+	const result: ImportResult = {
+		table: `${target.schema}.${target.name}`,
+		columns: columns.map((column) => column.name),
+		inserted: 0,
+		updated: 0,
+		unchanged: 0,
+		errors,
+	};
+	const count = (batch: PreparedRow[], returned: postgres.RowList<postgres.Row[]>) => {
+		const inserted = returned.filter((row) => row.inserted).length;
+		result.inserted += inserted;
+		result.updated += returned.length - inserted;
+		result.unchanged += batch.length - returned.length;
+	};
+
+	const batchSize = Math.max(1, Math.min(MAX_BATCH_ROWS, Math.floor(MAX_BIND_PARAMETERS / Math.max(1, columns.length))));
+	await connection.unsafe("BEGIN");
+	try {
+		for (let start = 0; start < rows.length; start += batchSize) {
+			const batch = rows.slice(start, start + batchSize);
+			if (options.onError !== "skip") {
+				count(batch, await insert(batch));
+				continue;
+			}
+			try {
+				count(batch, await inSavepoint(connection, () => insert(batch)));
+			} catch (error) {
+				if (!isRowError(error)) throw error;
+				// Retry row by row to find the rows the database rejects
+				for (const row of batch) {
+					try {
+						count([row], await inSavepoint(connection, () => insert([row])));
+					} catch (rowError) {
+						if (!isRowError(rowError)) throw rowError;
+						errors.push({ row: row.row, error: describeDatabaseError(rowError) });
+					}
+				}
+			}
+		}
+	} catch (error) {
+		await connection.unsafe("ROLLBACK").catch(() => {});
+		throw error;
+	}
+	await connection.unsafe("COMMIT");
+
+	errors.sort((a, b) => a.row - b.row);
+	return result;
+}
+
+/**
+ * Render the counts and row errors of an import for a tool response
+ */
+export function formatImportReport(result: ImportResult): string {
+	const imported = result.inserted + result.updated;
+	const lines = [
+		`**Table:** ${result.table}`,
+		`**Columns:** ${result.columns.join(", ")}`,
+		`**Rows imported:** ${imported} (${result.inserted} inserted, ${result.updated} updated)`,
+	];
+	if (result.unchanged > 0) {
+		lines.push(`**Rows unchanged:** ${result.unchanged} (already present, left as they were)`);
+	}
+	if (result.errors.length > 0) {
+		lines.push(`**Rows skipped:** ${result.errors.length}`, "", formatRowErrors(result.errors));
+	}
+	return lines.join("\n");
+}
+
+function formatRowErrors(errors: ImportRowError[]): string {
+	const lines = errors.slice(0, MAX_REPORTED_ROW_ERRORS).map((error) => `- Row ${error.row}: ${error.error}`);
+	if (errors.length > MAX_REPORTED_ROW_ERRORS) {
+		lines.push(`- ...and ${errors.length - MAX_REPORTED_ROW_ERRORS} more`);
+	}
+	return lines.join("\n");
+}
+
+async function findImportTable(connection: postgres.Sql, table: string): Promise<TableInfo> {
+	const dot = table.indexOf(".");
+	const schema = dot === -1 ? undefined : table.slice(0, dot);
+	const name = dot === -1 ? table : table.slice(dot + 1);
+
+	const matches = (await introspectDatabase(connection, { schema })).tables.filter((candidate) => candidate.name === name);
+	if (matches.length === 0) {
+		throw new ImportError(`Table ${table} was not found. Use listTables to see the available tables.`);
+	}
+	if (matches.length > 1) {
+		throw new ImportError(`Table ${name} exists in several schemas (${matches.map((match) => match.schema).join(", ")}). Qualify it as schema.table.`);
+	}
+	const [target] = matches;
+	if (target.type !== "table" && target.type !== "partitioned table") {
+		throw new ImportError(`${target.schema}.${target.name} is a ${target.type}; rows can only be imported into tables`);
+	}
+	return target;
+}
+
+// Check every value against its column; the columns are those present in any row, in table order
+function prepareRows(table: TableInfo, enumValues: Map<string, string[]>, rows: ImportRow[]): { columns: ColumnInfo[]; rows: PreparedRow[]; errors: ImportRowError[] } {
+	const names = new Set(rows.flatMap((row) => Object.keys(row.values)));
+	const unknown = [...names].filter((name) => !table.columns.some((column) => column.name === name));
+	if (unknown.length > 0) {
+		throw new ImportError(`Table ${table.schema}.${table.name} has no column ${unknown.join(", ")}. Its columns are ${table.columns.map((column) => column.name).join(", ")}.`);
+	}
+	const columns = table.columns.filter((column) => names.has(column.name));
+
+	const prepared: PreparedRow[] = [];
+	const errors: ImportRowError[] = [];
+	for (const row of rows) {
+		const problems: string[] = [];
+		const values = columns.map((column) => {
+			if (!(column.name in row.values)) return undefined;
+			const converted = convertValue(row.values[column.name], column, enumValues.get(column.type));
+			if ("error" in converted) {
+				problems.push(`${column.name}: ${converted.error}`);
+				return null;
+			}
+			if (converted.value === null && !column.nullable) {
+				if (column.default !== null) return undefined;
+				problems.push(`${column.name} cannot be null; leave the column out to use its default`);
+			}
+			return converted.value;
+		});
+		if (problems.length > 0) {
+			errors.push({ row: row.row, error: problems.join("; ") });
+		} else {
+			prepared.push({ row: row.row, values });
+		}
+	}
+	return { columns, rows: prepared, errors };
+}
+
+// Values are sent as text and converted by Postgres to the column type
+function convertValue(value: unknown, column: ColumnInfo, enumValues: string[] | undefined): { value: string | null } | { error: string } {
+	if (value === null || value === undefined) return { value: null };
+	const type = column.type;
+
+	if (type.endsWith("[]")) {
+		if (Array.isArray(value)) return { value: toArrayLiteral(value) };
+		return typeof value === "string" ? { value } : { error: `expected an array, got ${JSON.stringify(value)}` };
+	}
+	if (type === "json" || type === "jsonb") {
+		if (typeof value !== "string") return { value: JSON.stringify(value) };
+		try {
+			JSON.parse(value);
+			return { value };
+		} catch {
+			return { error: `expected JSON, got ${JSON.stringify(value)}` };
+		}
+	}
+	if (typeof value === "object") {
+		return { error: `expected ${type}, got ${Array.isArray(value) ? "an array" : "an object"}` };
+	}
+
+	const text = String(value).trim();
+	const mismatch = { error: `expected ${type}, got ${JSON.stringify(value)}` };
+	if (type in INTEGER_RANGES) {
+		if (!/^[+-]?\d+$/.test(text)) return mismatch;
+		const max = INTEGER_RANGES[type];
+		const number = BigInt(text);
+		return number > max || number < -max - 1n ? { error: `${text} is out of range for ${type}` } : { value: number.toString() };
+	}
+	if (DECIMAL_TYPES.has(type)) {
+		return /^[+-]?(\d+(\.\d*)?|\.\d+)(e[+-]?\d+)?$/i.test(text) || /^[+-]?(infinity|nan)$/i.test(text) ? { value: text } : mismatch;
+	}
+	if (type === "boolean") {
+		const boolean = BOOLEAN_VALUES[text.toLowerCase()];
+		return boolean ? { value: boolean } : mismatch;
+	}
+	if (type === "uuid") {
+		return UUID_PATTERN.test(text) ? { value: text } : mismatch;
+	}
+	if (enumValues) {
+		return enumValues.includes(String(value)) ? { value: String(value) } : { error: `expected one of ${enumValues.join(", ")}, got ${JSON.stringify(value)}` };
+	}
+	// Text, dates, times and other types are checked by Postgres
+	return { value: String(value) };
+}
+
+function toArrayLiteral(values: unknown[]): string {
+	const elements = values.map((value) => {
+		if (Array.isArray(value)) return toArrayLiteral(value);
+		if (value === null || value === undefined) return "NULL";
+		const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+		return `"${text.replace(/[\\"]/g, "\\$&")}"`;
+	});
+	return `{${elements.join(",")}}`;
+}
+
+function buildConflictClause(table: TableInfo, columns: ColumnInfo[], options: ImportOptions): string {
+	const action = options.onConflict ?? (options.conflictColumns ? "update" : undefined);
+	if (!action) return "";
+
+	const target = options.conflictColumns ?? table.primaryKey ?? [];
+	const unknown = target.filter((name) => !table.columns.some((column) => column.name === name));
+	if (unknown.length > 0) {
+		throw new ImportError(`Conflict column ${unknown.join(", ")} is not a column of ${table.schema}.${table.name}`);
+	}
+	if (target.length === 0) {
+		if (action === "ignore") return " ON CONFLICT DO NOTHING";
+		throw new ImportError(`${table.schema}.${table.name} has no primary key; pass conflictColumns with a unique key to upsert on`);
+	}
+
+	const conflictTarget = ` ON CONFLICT (${target.map(quoteIdentifier).join(", ")})`;
+	const updates = columns.filter((column) => !target.includes(column.name));
+	if (action === "ignore" || updates.length === 0) {
+		return `${conflictTarget} DO NOTHING`;
+	}
+	return `${conflictTarget} DO UPDATE SET ${updates.map((column) => `${quoteIdentifier(column.name)} = EXCLUDED.${quoteIdentifier(column.name)}`).join(", ")}`;
+}
+
+async function inSavepoint<T>(connection: postgres.Sql, operation: () => Promise<T>): Promise<T> {
+	await connection.unsafe("SAVEPOINT import_rows");
+	try {
+		const result = await operation();
+		await connection.unsafe("RELEASE SAVEPOINT import_rows");
+		return result;
+	} catch (error) {
+		await connection.unsafe("ROLLBACK TO SAVEPOINT import_rows");
+		await connection.unsafe("RELEASE SAVEPOINT import_rows");
+		throw error;
+	}
+}
+
+// Errors caused by the rows themselves: cardinality (21), data exceptions (22) and constraint violations (23)
+function isRowError(error: unknown): boolean {
+	const code = (error as { code?: unknown })?.code;
+	return typeof code === "string" && /^2[123]/.test(code);
+}
+
+function describeDatabaseError(error: unknown): string {
+	const { message, detail } = error as { message?: string; detail?: string };
+	return detail ? `${message} (${detail})` : String(message);
+}
+
+function parseJsonRows(data: string): ParsedRows {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(data);
+	} catch (error) {
+		throw new ImportError(`Invalid JSON: ${(error as Error).message}`);
+	}
+	if (!Array.isArray(parsed)) {
+		throw new ImportError("JSON data must be an array of objects, one per row");
+	}
+
+	const result: ParsedRows = { rows: [], errors: [] };
+	parsed.forEach((values, index) => {
+		if (values === null || typeof values !== "object" || Array.isArray(values)) {
+			result.errors.push({ row: index + 1, error: "expected an object with a value per column" });
+		} else {
+			result.rows.push({ row: index + 1, values: values as Record<string, unknown> });
+		}
+	});
+	return result;
+}
+
+function parseCsvRows(data: string): ParsedRows {
+	const [header, ...records] = parseCsv(data);
+	if (!header) {
+		throw new ImportError("CSV data must start with a header row of column names");
+	}
+	const names = header.map((name) => (name ?? "").trim());
+	if (names.some((name) => name === "")) {
+		throw new ImportError("The CSV header has an empty column name");
+	}
+	const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+	if (duplicate) {
+		throw new ImportError(`The CSV header has the column ${duplicate} more than once`);
+	}
+
+	const result: ParsedRows = { rows: [], errors: [] };
+	records.forEach((record, index) => {
+		if (record.length !== names.length) {
+			result.errors.push({ row: index + 1, error: `expected ${names.length} fields, found ${record.length}` });
+		} else {
+			result.rows.push({ row: index + 1, values: Object.fromEntries(names.map((name, column) => [name, record[column]])) });
+		}
+	});
+	return result;
+}
+
+// Split CSV into records; blank lines are skipped
+function parseCsv(data: string): (string | null)[][] {
+	const records: (string | null)[][] = [];
+	let record: (string | null)[] = [];
+	let field = "";
+	let quoted = false; // Inside a quoted field
+	let wasQuoted = false; // The current field was quoted, so it is a string even when empty
+
+	const endField = () => {
+		record.push(wasQuoted || field !== "" ? field : null);
+		field = "";
+		wasQuoted = false;
+	};
+	const endRecord = () => {
+		endField();
+		if (record.length > 1 || record[0] !== null) records.push(record);
+		record = [];
+	};
+
+	for (let i = data.charCodeAt(0) === 0xfeff ? 1 : 0; i < data.length; i++) {
+		const char = data[i];
+		if (quoted) {
+			if (char !== '"') {
+				field += char;
+			} else if (data[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else {
+				quoted = false;
+			}
+		} else if (char === '"' && field === "" && !wasQuoted) {
+			quoted = true;
+			wasQuoted = true;
+		} else if (char === ",") {
+			endField();
+		} else if (char === "\n") {
+			endRecord();
+		} else if (char !== "\r" || data[i + 1] !== "\n") {
+			field += char;
+		}
+	}
+	if (quoted) {
+		throw new ImportError("The CSV data ends inside a quoted field");
+	}
+	endRecord();
+	return records;
+}
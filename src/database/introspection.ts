@@ -0,0 +1,317 @@
+import postgres from "postgres";
+
+// Schemas that belong to Postgres itself and are never listed
+const SYSTEM_SCHEMA_FILTER = `n.nspname NOT IN ('pg_catalog', 'information_schema') AND n.nspname NOT LIKE 'pg_toast%' AND n.nspname NOT LIKE 'pg_temp_%'`;
+
+const RELATION_KINDS: Record<string, TableInfo["type"]> = {
+	r: "table",
+	p: "partitioned table",
+	v: "view",
+	m: "materialized view",
+	f: "foreign table",
+};
+
+export interface ColumnInfo {
+	name: string;
+	type: string;
+	nullable: boolean;
+	default: string | null;
+	comment?: string;
+}
+
+export interface ForeignKeyInfo {
+	name: string;
+	columns: string[];
+	references: { schema: string; table: string; columns: string[] };
+}
+
+export interface TableInfo {
+	schema: string;
+	name: string;
+	type: "table" | "partitioned table" | "view" | "materialized view" | "foreign table";
+	comment?: string;
+	definition?: string; // SELECT statement of views and materialized views
+	estimatedRows?: number; // From planner statistics, only as fresh as the last ANALYZE
+	columns: ColumnInfo[];
+	primaryKey?: string[];
+	foreignKeys?: ForeignKeyInfo[];
+	uniqueConstraints?: { name: string; columns: string[] }[];
+	checkConstraints?: { name: string; definition: string }[];
+	indexes?: { name: string; unique: boolean; primary: boolean; definition: string }[];
+}
+
+export interface EnumInfo {
+	schema: string;
+	name: string;
+	values: string[];
+}
+
+export interface SchemaInfo {
+	tables: TableInfo[];
+	enums: EnumInfo[];
+}
+
+/**
+ * Describe the tables, views, constraints, indexes and enums in the database.
+ * All user schemas are included unless `schema` is given.
+ */
+export async function introspectDatabase(db: postgres.Sql, options: { schema?: string } = {}): Promise<SchemaInfo> {
+	const schema = options.schema ?? null;
+
+	// Columns come from the catalog, as information_schema.columns has no rows for materialized views.
+	// Only columns the user has some privilege on are listed, like information_schema does.
+	const columns = await db.unsafe(
+		`
+		SELECT
+			n.nspname AS table_schema,
+			c.relname AS table_name,
+			a.attname AS column_name,
+			CASE
+				WHEN t.typelem <> 0 AND t.typlen = -1 THEN 'ARRAY'
+				WHEN tn.nspname = 'pg_catalog' THEN format_type(a.atttypid, NULL)
+				ELSE 'USER-DEFINED'
+			END AS data_type,
+			t.typname AS udt_name,
+			CASE WHEN a.attnotnull THEN 'NO' ELSE 'YES' END AS is_nullable,
+			CASE WHEN a.attgenerated = '' THEN pg_get_expr(d.adbin, d.adrelid) END AS column_default,
+			col_description(c.oid, a.attnum) AS comment
+		FROM pg_catalog.pg_attribute a
+		JOIN pg_catalog.pg_class c ON c.oid = a.attrelid
+		JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+		JOIN pg_catalog.pg_type t ON t.oid = a.atttypid
+		JOIN pg_catalog.pg_namespace tn ON tn.oid = t.typnamespace
+		LEFT JOIN pg_catalog.pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+		WHERE c.relkind IN ('r', 'p', 'v', 'm', 'f')
+			AND a.attnum > 0
+			AND NOT a.attisdropped
+			AND has_column_privilege(c.oid, a.attnum, 'SELECT, INSERT, UPDATE, REFERENCES')
+			AND ${SYSTEM_SCHEMA_FILTER}
+			AND ($1::text IS NULL OR n.nspname = $1)
+		ORDER BY n.nspname, c.relname, a.attnum
+		`,
+		[schema],
+	);
+
+	const relations = await db.unsafe(
+		`
+		SELECT
+			n.nspname AS schema,
+			c.relname AS name,
+			c.relkind AS kind,
+			c.reltuples::bigint AS estimated_rows,
+			obj_description(c.oid, 'pg_class') AS comment,
+			CASE WHEN c.relkind IN ('v', 'm') THEN pg_get_viewdef(c.oid) END AS definition
+		FROM pg_catalog.pg_class c
+		JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+		WHERE c.relkind IN ('r', 'p', 'v', 'm', 'f')
+			AND ${SYSTEM_SCHEMA_FILTER}
+			AND ($1::text IS NULL OR n.nspname = $1)
+		`,
+		[schema],
+	);
+
+	const constraints = await db.unsafe(
+		`
+		SELECT
+			n.nspname AS schema,
+			c.relname AS table_name,
+			con.conname AS name,
+			con.contype AS type,
+			pg_get_constraintdef(con.oid) AS definition,
+			to_json(ARRAY(
+				SELECT a.attname FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+				JOIN pg_catalog.pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+				ORDER BY k.ord
+			)) AS columns,
+			fn.nspname AS ref_schema,
+			fc.relname AS ref_table,
+			to_json(ARRAY(
+				SELECT a.attname FROM unnest(con.confkey) WITH ORDINALITY AS k(attnum, ord)
+				JOIN pg_catalog.pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+				ORDER BY k.ord
+			)) AS ref_columns
+		FROM pg_catalog.pg_constraint con
+		JOIN pg_catalog.pg_class c ON c.oid = con.conrelid
+		JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+		LEFT JOIN pg_catalog.pg_class fc ON fc.oid = con.confrelid
+		LEFT JOIN pg_catalog.pg_namespace fn ON fn.oid = fc.relnamespace
+		WHERE con.contype IN ('p', 'f', 'u', 'c')
+			AND ${SYSTEM_SCHEMA_FILTER}
+			AND ($1::text IS NULL OR n.nspname = $1)
+		ORDER BY n.nspname, c.relname, con.conname
+		`,
+		[schema],
+	);
+
+	const indexes = await db.unsafe(
+		`
+		SELECT
+			n.nspname AS schema,
+			c.relname AS table_name,
+			i.relname AS name,
+			ix.indisunique AS is_unique,
+			ix.indisprimary AS is_primary,
+			pg_get_indexdef(ix.indexrelid) AS definition
+		FROM pg_catalog.pg_index ix
+		JOIN pg_catalog.pg_class i ON i.oid = ix.indexrelid
+		JOIN pg_catalog.pg_class c ON c.oid = ix.indrelid
+		JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+		WHERE ${SYSTEM_SCHEMA_FILTER}
+			AND ($1::text IS NULL OR n.nspname = $1)
+		ORDER BY n.nspname, c.relname, i.relname
+		`,
+		[schema],
+	);
+
+	const enums = await db.unsafe(
+		`
+		SELECT
+			n.nspname AS schema,
+			t.typname AS name,
+			to_json(array_agg(e.enumlabel ORDER BY e.enumsortorder)) AS values
+		FROM pg_catalog.pg_type t
+		JOIN pg_catalog.pg_enum e ON e.enumtypid = t.oid
+		JOIN pg_catalog.pg_namespace n ON n.oid = t.typnamespace
+		WHERE ${SYSTEM_SCHEMA_FILTER}
+			AND ($1::text IS NULL OR n.nspname = $1)
+		GROUP BY n.nspname, t.typname
+		ORDER BY n.nspname, t.typname
+		`,
+		[schema],
+	);
+
+	// Group columns by table
+	const tableMap = new Map<string, TableInfo>();
+	const getTable = (schemaName: string, tableName: string) => tableMap.get(`${schemaName}.${tableName}`);
+
+	for (const col of columns) {
+		const key = `${col.table_schema}.${col.table_name}`;
+		if (!tableMap.has(key)) {
+			tableMap.set(key, { schema: col.table_schema, name: col.table_name, type: "table", columns: [] });
+		}
+		tableMap.get(key)!.columns.push({
+			name: col.column_name,
+			type: describeColumnType(col.data_type, col.udt_name),
+			nullable: col.is_nullable === "YES",
+			default: col.column_default,
+			...(col.comment ? { comment: col.comment } : {}),
+		});
+	}
+
+	for (const relation of relations) {
+		const table = getTable(relation.schema, relation.name);
+		if (!table) continue;
+		table.type = RELATION_KINDS[relation.kind] ?? table.type;
+		if (relation.comment) table.comment = relation.comment;
+		if (relation.definition) table.definition = relation.definition.trim();
+		// reltuples is -1 (or 0 on older versions) until the table has been analyzed
+		const estimatedRows = Number(relation.estimated_rows);
+		if (["r", "p", "m"].includes(relation.kind) && estimatedRows >= 0) table.estimatedRows = estimatedRows;
+	}
+
+	for (const constraint of constraints) {
+		const table = getTable(constraint.schema, constraint.table_name);
+		if (!table) continue;
+		switch (constraint.type) {
+			case "p":
+				table.primaryKey = constraint.columns;
+				break;
+			case "f":
+				(table.foreignKeys ??= []).push({
+					name: constraint.name,
+					columns: constraint.columns,
+					references: { schema: constraint.ref_schema, table: constraint.ref_table, columns: constraint.ref_columns },
+				});
+				break;
+			case "u":
+				(table.uniqueConstraints ??= []).push({ name: constraint.name, columns: constraint.columns });
+				break;
+			case "c":
+				(table.checkConstraints ??= []).push({ name: constraint.name, definition: constraint.definition });
+				break;
+		}
+	}
+
+	for (const index of indexes) {
+		const table = getTable(index.schema, index.table_name);
+		if (!table) continue;
+		(table.indexes ??= []).push({ name: index.name, unique: index.is_unique, primary: index.is_primary, definition: index.definition });
+	}
+
+	return {
+		tables: Array.from(tableMap.values()),
+		enums: enums.map((e) => ({ schema: e.schema, name: e.name, values: e.values })),
+	};
+}
+
+/**
+ * Render approximate DDL for a table or view from its introspected structure
+ */
+export function renderTableDdl(table: TableInfo): string {
+	const name = `${quoteIdentifier(table.schema)}.${quoteIdentifier(table.name)}`;
+	const statements: string[] = [];
+
+	if (table.definition !== undefined) {
+		const kind = table.type === "materialized view" ? "MATERIALIZED VIEW" : "VIEW";
+		statements.push(`CREATE ${kind} ${name} AS\n${table.definition.replace(/;$/, "")};`);
+	} else {
+		const lines = table.columns.map((column) => {
+			let line = `  ${quoteIdentifier(column.name)} ${column.type}`;
+			if (!column.nullable) line += " NOT NULL";
+			if (column.default !== null) line += ` DEFAULT ${column.default}`;
+			return line;
+		});
+		if (table.primaryKey) {
+			lines.push(`  PRIMARY KEY (${table.primaryKey.map(quoteIdentifier).join(", ")})`);
+		}
+		for (const unique of table.uniqueConstraints ?? []) {
+			lines.push(`  CONSTRAINT ${quoteIdentifier(unique.name)} UNIQUE (${unique.columns.map(quoteIdentifier).join(", ")})`);
+		}
+		for (const fk of table.foreignKeys ?? []) {
+			const target = `${quoteIdentifier(fk.references.schema)}.${quoteIdentifier(fk.references.table)}`;
+			lines.push(
+				`  CONSTRAINT ${quoteIdentifier(fk.name)} FOREIGN KEY (${fk.columns.map(quoteIdentifier).join(", ")}) REFERENCES ${target} (${fk.references.columns.map(quoteIdentifier).join(", ")})`,
+			);
+		}
+		for (const check of table.checkConstraints ?? []) {
+			lines.push(`  CONSTRAINT ${quoteIdentifier(check.name)} ${check.definition}`);
+		}
+		statements.push(`CREATE TABLE ${name} (\n${lines.join(",\n")}\n);`);
+	}
+
+	// Indexes backing primary key and unique constraints are already covered above
+	const constraintNames = new Set((table.uniqueConstraints ?? []).map((unique) => unique.name));
+	for (const index of table.indexes ?? []) {
+		if (index.primary || constraintNames.has(index.name)) continue;
+		statements.push(`${index.definition};`);
+	}
+
+	if (table.comment) {
+		statements.push(`COMMENT ON ${table.type === "table" || table.type === "partitioned table" ? "TABLE" : table.type.toUpperCase()} ${name} IS ${quoteLiteral(table.comment)};`);
+	}
+	for (const column of table.columns) {
+		if (column.comment) {
+			statements.push(`COMMENT ON COLUMN ${name}.${quoteIdentifier(column.name)} IS ${quoteLiteral(column.comment)};`);
+		}
+	}
+
+	return statements.join("\n\n");
+}
+
+/**
+ * Quote a Postgres identifier, e.g. for table names taken from a resource URI
+ */
+export function quoteIdentifier(name: string): string {
+	return `"${name.replace(/"/g, '""')}"`;
+}
+
+function quoteLiteral(value: string): string {
+	return `'${value.replace(/'/g, "''")}'`;
+}
+
+// Enums and arrays are reported as USER-DEFINED / ARRAY, like information_schema does; use the underlying type name
+function describeColumnType(dataType: string, udtName?: string): string {
+	if (dataType === "USER-DEFINED" && udtName) return udtName;
+	if (dataType === "ARRAY" && udtName) return `${udtName.replace(/^_/, "")}[]`;
+	return dataType;
+}
@@ -0,0 +1,414 @@
+// Masking of sensitive columns in query results
+//
+// The masking policy lists rules that match result columns by name (e.g. `*email*`, `ssn`),
+// optionally limited to a table (`users` or `public.users`), and say how to mask them:
+// - redact: replace the value with [REDACTED]
+// - hash: replace the value with a keyed hash, so equal values can still be compared and grouped
+// - partial: keep a little of the value, e.g. j***@example.com or ****1234
+// Rules match the column as named in the result and the table column it comes from, so an alias
+// does not hide a masked column. Values computed from a column (upper(email)) are not traced.
+// The policy is read from the `masking-policy` key in OAUTH_KV, then the MASKING_POLICY variable,
+// then DEFAULT_MASKING_POLICY. Users with one of the policy's exemptRoles see unmasked values.
+// Query parameters stored in the audit log are masked by the column they are compared with or
+// inserted into, for every user.
+
+import postgres from "postgres";
+import { z } from "zod";
+import { hasRole } from "../auth/access-policy";
+import { normalizeValue } from "./formatters";
+import { parseSqlStatements, type SqlToken } from "./sql-parser";
+import { withQueryTimeouts, type QueryTimeouts } from "./timeouts";
+import type { WriteResult } from "./write-confirmation";
+
+export const MASKING_POLICY_KV_KEY = "masking-policy";
+
+export const MASK_ACTIONS = ["redact", "hash", "partial"] as const;
+
+export type MaskAction = (typeof MASK_ACTIONS)[number];
+
+export interface MaskingRule {
+	column: string; // Column name or pattern with * wildcards, case-insensitive
+	table?: string; // Table name or schema.table pattern; without it the rule applies to every table
+	action: MaskAction;
+}
+
+export interface MaskingPolicy {
+	rules: MaskingRule[];
+	exemptRoles?: string[];
+}
+
+/**
+ * Used when no policy is configured: credentials and secrets are redacted for everyone
+ */
+export const DEFAULT_MASKING_POLICY: MaskingPolicy = {
+	rules: [
+		{ column: "*password*", action: "redact" },
+		{ column: "*secret*", action: "redact" },
+		{ column: "*api_key*", action: "redact" },
+		{ column: "*access_token*", action: "redact" },
+		{ column: "*refresh_token*", action: "redact" },
+		{ column: "ssn", action: "redact" },
+	],
+};
+
+const REDACTED = "[REDACTED]";
+
+// Hex characters of the HMAC kept in hashed values
+const HASH_LENGTH = 16;
+
+const MaskingPolicySchema = z
+	.object({
+		rules: z.array(
+			z
+				.object({
+					column: z.string().min(1),
+					table: z.string().min(1).optional(),
+					action: z.enum(MASK_ACTIONS),
+				})
+				.strict(),
+		),
+		exemptRoles: z.array(z.string()).optional(),
+	})
+	.strict();
+
+// Where a result column comes from, when Postgres reports it
+interface ColumnSource {
+	schema: string;
+	table: string;
+	column: string;
+}
+
+// Row of the pg_attribute lookup in findColumnSources
+interface ColumnSourceRow extends ColumnSource {
+	table_oid: number;
+	number: number;
+}
+
+/**
+ * The masking rules that apply to a user, with the key used by the hash action
+ */
+export interface ResultMasking {
+	rules: MaskingRule[];
+	hashKey?: string;
+}
+
+/**
+ * Parse and validate a JSON masking policy. Throws if it is malformed.
+ */
+export function parseMaskingPolicy(json: string): MaskingPolicy {
+	return MaskingPolicySchema.parse(JSON.parse(json));
+}
+
+/**
+ * Load the masking policy from KV or the environment. An invalid policy is logged and the
+ * default policy is used instead, so a typo never exposes the columns it was meant to mask
+ * beyond what the default already hides.
+ */
+export async function loadMaskingPolicy(env: Env): Promise<MaskingPolicy> {
+	try {
+		const stored = await (env as any).OAUTH_KV?.get(MASKING_POLICY_KV_KEY);
+		if (stored) return parseMaskingPolicy(stored);
+	} catch (error) {
+		console.error(`Ignoring invalid masking policy in KV (${MASKING_POLICY_KV_KEY}):`, error);
+	}
+
+	try {
+		if ((env as any).MASKING_POLICY) return parseMaskingPolicy((env as any).MASKING_POLICY);
+	} catch (error) {
+		console.error("Ignoring invalid MASKING_POLICY:", error);
+	}
+
+	return DEFAULT_MASKING_POLICY;
+}
+
+/**
+ * Load the masking rules for a user. Returns null when the user is exempt or nothing is masked.
+ * Hashes are keyed with MASKING_HASH_KEY, or COOKIE_ENCRYPTION_KEY when it is not set.
+ */
+export async function loadResultMasking(env: Env, roles: ReadonlySet<string>): Promise<ResultMasking | null> {
+	const policy = await loadMaskingPolicy(env);
+	if (policy.rules.length === 0 || policy.exemptRoles?.some((role) => hasRole(roles, role))) {
+		return null;
+	}
+	return { rules: policy.rules, hashKey: getHashKey(env) };
+}
+
+/**
+ * Mask the parameters of a query before they are stored. A parameter is masked when the SQL
+ * compares it with a column the policy masks (`email = $1`, `ssn IN ($1, $2)`), assigns it to
+ * one or inserts it into one; rules are matched by column name alone. Exempt roles do not apply.
+ * When the SQL cannot be parsed every parameter is redacted.
+ */
+export async function maskSqlParameters(env: Env, sql: string, params: unknown[]): Promise<unknown[]> {
+	const policy = await loadMaskingPolicy(env);
+	if (policy.rules.length === 0 || params.length === 0) {
+		return params;
+	}
+
+	let columns: Map<number, string>;
+	try {
+		columns = findParameterColumns(sql);
+	} catch {
+		return params.map(() => REDACTED);
+	}
+
+	const hashKey = getHashKey(env);
+	const key = hashKey ? await importHashKey(hashKey) : undefined;
+	return Promise.all(
+		params.map(async (value, index) => {
+			const column = columns.get(index + 1);
+			const rule = column !== undefined ? policy.rules.find((rule) => ruleMatches(rule, column, undefined)) : undefined;
+			return rule ? maskValue(value, rule.action, key) : value;
+		}),
+	);
+}
+
+// Read timeouts and abort signal for looking up the tables result columns come from
+export interface MaskingQueryOptions {
+	timeouts: QueryTimeouts;
+	signal?: AbortSignal;
+}
+
+/**
+ * Mask the values of result rows. `columns` is the column metadata of the postgres.js result;
+ * without it columns are matched by name only and table-specific rules apply to every table.
+ * The lookup of the columns' tables runs in a READ ONLY transaction with the given timeouts.
+ */
+export async function maskResultRows(
+	db: postgres.Sql,
+	masking: ResultMasking | null,
+	rows: unknown[],
+	columns: readonly postgres.Column<string>[] | undefined,
+	options: MaskingQueryOptions,
+): Promise<unknown[]> {
+	if (!masking || rows.length === 0) {
+		return rows;
+	}
+
+	const sources = columns ? await findColumnSources(db, columns, options) : new Map<string, ColumnSource>();
+	const actions = new Map<string, MaskAction>();
+	for (const name of new Set(rows.flatMap((row) => Object.keys(row as object)))) {
+		// postgres.js keeps one value per name, so any column with this name being masked masks the value
+		const candidates = columns?.filter((column) => column.name === name) ?? [];
+		const columnSources = candidates.length > 0 ? candidates.map((column) => sources.get(sourceKey(column))) : [undefined];
+		const rule = masking.rules.find((rule) => columnSources.some((source) => ruleMatches(rule, name, source)));
+		if (rule) actions.set(name, rule.action);
+	}
+	if (actions.size === 0) {
+		return rows;
+	}
+
+	const key = masking.hashKey ? await importHashKey(masking.hashKey) : undefined;
+	return Promise.all(
+		rows.map(async (row) => {
+			const masked: Record<string, unknown> = { ...(row as Record<string, unknown>) };
+			for (const [name, action] of actions) {
+				masked[name] = await maskValue(masked[name], action, key);
+			}
+			return masked;
+		}),
+	);
+}
+
+/**
+ * Mask the rows and the before/after samples of an executeDatabase result
+ */
+export async function maskWriteResult(
+	db: postgres.Sql,
+	masking: ResultMasking | null,
+	result: WriteResult,
+	options: MaskingQueryOptions,
+): Promise<WriteResult> {
+	if (!masking) {
+		return result;
+	}
+	return {
+		...result,
+		rows: await maskResultRows(db, masking, result.rows, result.columns, options),
+		before: result.before && (await maskResultRows(db, masking, result.before, undefined, options)),
+		after: result.after && (await maskResultRows(db, masking, result.after, undefined, options)),
+	};
+}
+
+/**
+ * Mask a single value. null stays null; hash falls back to redact when no key is configured.
+ */
+export async function maskValue(value: unknown, action: MaskAction, key?: CryptoKey): Promise<unknown> {
+	if (value === null || value === undefined) {
+		return null;
+	}
+	const normalized = normalizeValue(value);
+	const text = typeof normalized === "string" ? normalized : JSON.stringify(normalized);
+
+	if (action === "hash" && key) {
+		const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(text));
+		const hex = Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, "0")).join("");
+		return `hash:${hex.slice(0, HASH_LENGTH)}`;
+	}
+	if (action === "partial" && typeof normalized !== "object") {
+		return maskPartially(text);
+	}
+	return REDACTED;
+}
+
+// Keep the first character and domain of an email address, or the last 4 characters of longer values
+function maskPartially(text: string): string {
+	const at = text.lastIndexOf("@");
+	if (at > 0) {
+		return `${text[0]}***${text.slice(at)}`;
+	}
+	return text.length >= 8 ? `****${text.slice(-4)}` : "*".repeat(text.length);
+}
+
+function getHashKey(env: Env): string | undefined {
+	return (env as any).MASKING_HASH_KEY ?? (env as any).COOKIE_ENCRYPTION_KEY;
+}
+
+// Map parameter numbers to the column they are compared with, assigned to or inserted into
+function findParameterColumns(sql: string): Map<number, string> {
+	const columns = new Map<number, string>();
+	for (const { tokens } of parseSqlStatements(sql)) {
+		for (const [number, column] of findInsertedColumns(tokens)) {
+			columns.set(number, column);
+		}
+		tokens.forEach((token, index) => {
+			if (token.type !== "parameter") return;
+			const column = columnBefore(tokens, index) ?? columnAfter(tokens, index);
+			if (column !== undefined && !columns.has(parameterNumber(token))) {
+				columns.set(parameterNumber(token), column);
+			}
+		});
+	}
+	return columns;
+}
+
+// `column = $1`, `column LIKE $1`, `column IN ($1, $2)`, `column = ANY($1)`
+function columnBefore(tokens: SqlToken[], index: number): string | undefined {
+	let i = index - 1;
+	while (i >= 0 && (tokens[i].type === "parameter" || [",", "("].includes(tokens[i].value) || ["any", "all", "some"].includes(tokens[i].value))) {
+		i--;
+	}
+	const comparison = tokens[i];
+	if (!comparison || !(isComparison(comparison) || (comparison.type === "word" && comparison.value === "in"))) {
+		return undefined;
+	}
+	i -= tokens[i - 1]?.value === "not" ? 2 : 1;
+	return isColumnName(tokens[i]) ? tokens[i].value : undefined;
+}
+
+// `$1 = column`, `$1 = table.column`
+function columnAfter(tokens: SqlToken[], index: number): string | undefined {
+	if (!tokens[index + 1] || tokens[index + 1].type !== "operator" || !isComparison(tokens[index + 1])) {
+		return undefined;
+	}
+	let i = index + 2;
+	while (tokens[i + 1]?.value === "." && isColumnName(tokens[i + 2])) {
+		i += 2;
+	}
+	return isColumnName(tokens[i]) ? tokens[i].value : undefined;
+}
+
+// `INSERT INTO table (a, b) VALUES ($1, $2), ($3, $4)`
+function findInsertedColumns(tokens: SqlToken[]): Map<number, string> {
+	const columns = new Map<number, string>();
+	const into = tokens.findIndex((token, index) => token.value === "into" && tokens[index - 1]?.value === "insert");
+	const listStart = tokens.findIndex((token, index) => index > into && token.value === "(");
+	if (into < 0 || listStart < 0 || tokens[listStart - 1].value === "values") {
+		return columns;
+	}
+
+	const names: string[] = [];
+	let i = listStart + 1;
+	for (; i < tokens.length && tokens[i].value !== ")"; i++) {
+		if (isColumnName(tokens[i])) names.push(tokens[i].value);
+	}
+	if (tokens[i + 1]?.value !== "values") {
+		return columns;
+	}
+
+	let depth = 0;
+	let position = 0;
+	for (i += 2; i < tokens.length; i++) {
+		const token = tokens[i];
+		if (token.value === "(") {
+			depth++;
+			if (depth === 1) position = 0;
+		} else if (token.value === ")") {
+			depth--;
+		} else if (depth === 1 && token.value === ",") {
+			position++;
+		} else if (depth === 0 && token.type === "word") {
+			break; // ON CONFLICT, RETURNING
+		} else if (depth === 1 && token.type === "parameter" && names[position] !== undefined) {
+			columns.set(parameterNumber(token), names[position]);
+		}
+	}
+	return columns;
+}
+
+function isComparison(token: SqlToken): boolean {
+	return (token.type === "operator" && token.value !== "::") || (token.type === "word" && ["like", "ilike"].includes(token.value));
+}
+
+function isColumnName(token: SqlToken | undefined): token is SqlToken {
+	return token !== undefined && (token.type === "word" || token.type === "identifier");
+}
+
+function parameterNumber(token: SqlToken): number {
+	return Number(token.value.slice(1));
+}
+
+function ruleMatches(rule: MaskingRule, name: string, source: ColumnSource | undefined): boolean {
+	if (!matchesPattern(rule.column, name) && !(source && matchesPattern(rule.column, source.column))) {
+		return false;
+	}
+	// A column whose table is unknown (an expression, or no metadata) is masked by name alone
+	if (!rule.table || !source) {
+		return true;
+	}
+	return matchesPattern(rule.table, `${source.schema}.${source.table}`) || matchesPattern(rule.table, source.table);
+}
+
+function matchesPattern(pattern: string, value: string): boolean {
+	const regex = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+	return new RegExp(`^${regex}$`, "i").test(value);
+}
+
+// Look up the table columns that result columns come from (Postgres reports their table OID and attribute number)
+async function findColumnSources(
+	db: postgres.Sql,
+	columns: readonly postgres.Column<string>[],
+	options: MaskingQueryOptions,
+): Promise<Map<string, ColumnSource>> {
+	const traced = columns.filter((column) => column.table > 0 && column.number > 0);
+	if (traced.length === 0) {
+		return new Map();
+	}
+
+	const sources = await withQueryTimeouts(db, { ...options, readOnly: true }, (tx) =>
+		tx.unsafe<ColumnSourceRow[]>(
+			`
+			SELECT a.attrelid::int AS table_oid, a.attnum::int AS number, n.nspname AS schema, c.relname AS table, a.attname AS column
+			FROM pg_catalog.pg_attribute a
+			JOIN pg_catalog.pg_class c ON c.oid = a.attrelid
+			JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+			WHERE (a.attrelid, a.attnum) IN (SELECT * FROM unnest($1::oid[], $2::int2[]))
+			`,
+			[traced.map((column) => column.table), traced.map((column) => column.number)],
+		),
+	);
+	return new Map(
+		sources.map((source) => [
+			`${source.table_oid}:${source.number}`,
+			{ schema: source.schema, table: source.table, column: source.column },
+		]),
+	);
+}
+
+function sourceKey(column: postgres.Column<string>): string {
+	return `${column.table}:${column.number}`;
+}
+
+function importHashKey(secret: string): Promise<CryptoKey> {
+	return crypto.subtle.importKey("raw", new TextEncoder().encode(secret), { hash: "SHA-256", name: "HMAC" }, false, ["sign"]);
+}
@@ -0,0 +1,266 @@
+// Versioned, reversible schema migrations
+//
+// A migration has a version, a name, and up and down SQL. planMigration runs up and then down in a
+// transaction that is always rolled back, and reports the schema changes up makes and whether down
+// undoes them. applyMigration runs up in a transaction and records the migration in the
+// schema_migrations table with its checksum, who applied it and when; rollbackMigration runs the
+// recorded down SQL of the latest migration and removes its record. Versions are applied in order:
+// a new migration must sort after the latest applied one, compared with numbers in order (2 < 10).
+
+import postgres from "postgres";
+import { introspectDatabase, type SchemaInfo } from "./introspection";
+import { compareSchemas, describeSchemaDifference } from "./schema-diff";
+import { parseSqlStatements, SqlParseError } from "./sql-parser";
+import type { SqlValidationResult } from "../types";
+
+export const MIGRATIONS_TABLE = "schema_migrations";
+
+// Transaction control would end the transaction each migration runs in
+const TRANSACTION_CONTROL = new Set(["begin", "start", "commit", "end", "rollback", "abort", "savepoint", "release", "prepare"]);
+
+const CREATE_MIGRATIONS_TABLE = `CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+	version text PRIMARY KEY,
+	name text NOT NULL,
+	checksum text NOT NULL,
+	up_sql text NOT NULL,
+	down_sql text NOT NULL,
+	applied_by text NOT NULL,
+	applied_at timestamptz NOT NULL DEFAULT now()
+)`;
+
+/**
+ * Raised when a migration cannot be planned, applied or rolled back in the current state of the
+ * schema_migrations table. The message is safe to show to the user.
+ */
+export class MigrationError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "MigrationError";
+	}
+}
+
+export interface Migration {
+	version: string;
+	name: string;
+	up: string;
+	down: string;
+}
+
+export interface AppliedMigration {
+	version: string;
+	name: string;
+	checksum: string;
+	appliedBy: string;
+	appliedAt: Date;
+}
+
+export interface MigrationPlan {
+	checksum: string;
+	changes: string[]; // Schema changes made by the up SQL, see diffSchemas
+	residue: string[]; // Differences left after running up and then down; empty when down undoes up
+	latest?: AppliedMigration;
+}
+
+/**
+ * Check migration SQL: it must parse and must not contain statements that cannot run in the
+ * transaction a migration runs in (transaction control, VACUUM, CONCURRENTLY, databases)
+ */
+export function validateMigrationSql(sql: string): SqlValidationResult {
+	let statements;
+	try {
+		statements = parseSqlStatements(sql);
+	} catch (error) {
+		if (error instanceof SqlParseError) {
+			return { isValid: false, error: `Invalid SQL: ${error.message}` };
+		}
+		throw error;
+	}
+	if (statements.length === 0) {
+		return { isValid: false, error: "Migration SQL cannot be empty" };
+	}
+
+	for (const { tokens } of statements) {
+		const words = tokens.filter((token) => token.type === "word").map((token) => token.value);
+		if (TRANSACTION_CONTROL.has(words[0])) {
+			return { isValid: false, error: `${words[0].toUpperCase()} is not allowed: each migration already runs in a transaction` };
+		}
+		const statement = words.slice(0, 2).join(" ");
+		if (words[0] === "vacuum" || words.includes("concurrently") || ["create database", "drop database", "alter system"].includes(statement)) {
+			return { isValid: false, error: "Statements that cannot run inside a transaction (VACUUM, CONCURRENTLY, CREATE/DROP DATABASE, ALTER SYSTEM) are not allowed in migrations" };
+		}
+	}
+	return { isValid: true };
+}
+
+/**
+ * Check the up and down SQL of a migration with validateMigrationSql
+ */
+export function validateMigration(migration: Pick<Migration, "up" | "down">): SqlValidationResult {
+	for (const [part, sql] of [["up", migration.up], ["down", migration.down]]) {
+		const validation = validateMigrationSql(sql);
+		if (!validation.isValid) {
+			return { isValid: false, error: `${part} SQL: ${validation.error}` };
+		}
+	}
+	return { isValid: true };
+}
+
+/**
+ * Checksum of a migration's SQL, a hex SHA-256. applyMigration requires the checksum shown by
+ * planMigration, so only SQL that was previewed is applied.
+ */
+export async function migrationChecksum(migration: Migration): Promise<string> {
+	const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify([migration.up, migration.down])));
+	return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Preview a migration: run up, then down, and roll everything back.
+ * `connection` must be a reserved connection outside a transaction.
+ */
+export async function planMigration(connection: postgres.Sql, migration: Migration): Promise<MigrationPlan> {
+	const checksum = await migrationChecksum(migration);
+	return inTransaction(
+		connection,
+		async () => {
+			await connection.unsafe(CREATE_MIGRATIONS_TABLE);
+			const applied = await listAppliedMigrations(connection);
+			checkNewMigration(applied, migration);
+
+			const before = await introspectDatabase(connection);
+			await connection.unsafe(migration.up);
+			const afterUp = await introspectDatabase(connection);
+			await connection.unsafe(migration.down);
+			const afterDown = await introspectDatabase(connection);
+			return { checksum, changes: diffSchemas(before, afterUp), residue: diffSchemas(before, afterDown), latest: applied[0] };
+		},
+		false,
+	);
+}
+
+/**
+ * Apply a migration in a transaction and record it. Refuses a checksum other than the migration's
+ * own, which means the SQL changed since it was planned. Returns the schema changes.
+ */
+export async function applyMigration(
+	connection: postgres.Sql,
+	migration: Migration,
+	checksum: string,
+	login: string,
+): Promise<string[]> {
+	if (checksum !== (await migrationChecksum(migration))) {
+		throw new MigrationError("The checksum does not match this migration: its SQL changed since it was planned. Run `planMigration` again.");
+	}
+
+	return inTransaction(
+		connection,
+		async () => {
+			await lockMigrations(connection);
+			checkNewMigration(await listAppliedMigrations(connection), migration);
+
+			const before = await introspectDatabase(connection);
+			await connection.unsafe(migration.up);
+			const after = await introspectDatabase(connection);
+			await connection.unsafe(
+				`INSERT INTO ${MIGRATIONS_TABLE} (version, name, checksum, up_sql, down_sql, applied_by) VALUES ($1, $2, $3, $4, $5, $6)`,
+				[migration.version, migration.name, checksum, migration.up, migration.down, login],
+			);
+			return diffSchemas(before, after);
+		},
+		true,
+	);
+}
+
+/**
+ * Roll back the latest applied migration with its recorded down SQL and remove its record.
+ * With `dryRun` the changes are reported and rolled back. `onDownSql` gets the down SQL before
+ * it runs.
+ */
+export async function rollbackMigration(
+	connection: postgres.Sql,
+	version: string,
+	dryRun = false,
+	onDownSql?: (down: string) => void,
+): Promise<{ migration: AppliedMigration; changes: string[] }> {
+	return inTransaction(
+		connection,
+		async () => {
+			await lockMigrations(connection);
+			const [latest] = await listAppliedMigrations(connection);
+			if (!latest) {
+				throw new MigrationError("No migrations have been applied");
+			}
+			if (latest.version !== version) {
+				throw new MigrationError(
+					`Only the latest migration can be rolled back: ${latest.version} (${latest.name}), applied ${latest.appliedAt.toISOString()} by ${latest.appliedBy}`,
+				);
+			}
+
+			const [{ down_sql: down }] = await connection.unsafe(`SELECT down_sql FROM ${MIGRATIONS_TABLE} WHERE version = $1`, [version]);
+			onDownSql?.(down);
+			const before = await introspectDatabase(connection);
+			await connection.unsafe(down);
+			const after = await introspectDatabase(connection);
+			await connection.unsafe(`DELETE FROM ${MIGRATIONS_TABLE} WHERE version = $1`, [version]);
+			return { migration: latest, changes: diffSchemas(before, after) };
+		},
+		!dryRun,
+	);
+}
+
+/**
+ * List the schema changes between two introspections, one per line:
+ * `+` added, `-` removed, `~` changed. The migrations table itself is left out.
+ */
+export function diffSchemas(before: SchemaInfo, after: SchemaInfo): string[] {
+	const withoutMigrations = (schema: SchemaInfo) => ({ ...schema, tables: schema.tables.filter((table) => table.name !== MIGRATIONS_TABLE) });
+	return compareSchemas(withoutMigrations(before), withoutMigrations(after)).map(describeSchemaDifference);
+}
+
+async function listAppliedMigrations(connection: postgres.Sql): Promise<AppliedMigration[]> {
+	const rows = await connection.unsafe(
+		`SELECT version, name, checksum, applied_by, applied_at FROM ${MIGRATIONS_TABLE} ORDER BY applied_at DESC, version DESC`,
+	);
+	return rows.map((row) => ({
+		version: row.version,
+		name: row.name,
+		checksum: row.checksum,
+		appliedBy: row.applied_by,
+		appliedAt: new Date(row.applied_at),
+	}));
+}
+
+// Concurrent applies and rollbacks wait for each other instead of both reading the same latest version
+async function lockMigrations(connection: postgres.Sql): Promise<void> {
+	await connection.unsafe(CREATE_MIGRATIONS_TABLE);
+	await connection.unsafe(`LOCK TABLE ${MIGRATIONS_TABLE} IN SHARE ROW EXCLUSIVE MODE`);
+}
+
+function checkNewMigration(applied: AppliedMigration[], migration: Migration): void {
+	const existing = applied.find((entry) => entry.version === migration.version);
+	if (existing) {
+		throw new MigrationError(`Migration ${existing.version} (${existing.name}) was already applied ${existing.appliedAt.toISOString()} by ${existing.appliedBy}`);
+	}
+	const latest = applied[0];
+	if (latest && compareVersions(migration.version, latest.version) <= 0) {
+		throw new MigrationError(`Migration ${migration.version} must sort after the latest applied migration, ${latest.version} (${latest.name})`);
+	}
+}
+
+function compareVersions(a: string, b: string): number {
+	return a.localeCompare(b, "en", { numeric: true });
+}
+
+// Run the operation in a transaction that is committed, or rolled back when it fails or `commit` is false
+async function inTransaction<T>(connection: postgres.Sql, operation: () => Promise<T>, commit: boolean): Promise<T> {
+	await connection.unsafe("BEGIN");
+	let result: T;
+	try {
+		result = await operation();
+	} catch (error) {
+		await connection.unsafe("ROLLBACK").catch(() => {});
+		throw error;
+	}
+	await connection.unsafe(commit ? "COMMIT" : "ROLLBACK");
+	return result;
+}
@@ -0,0 +1,189 @@
+import postgres from "postgres";
+import { parseSqlStatements } from "./sql-parser";
+import { normalizeRow } from "./formatters";
+
+export const DEFAULT_MAX_ROWS = 100;
+export const DEFAULT_MAX_RESPONSE_BYTES = 50_000;
+// Rows counted after a page at most; larger results are reported as "over N more rows"
+export const MAX_COUNTED_ROWS = 10_000;
+
+// Statements that can be wrapped in a subquery and paged with LIMIT/OFFSET in the database
+const PAGEABLE_STATEMENTS = new Set(["select", "with", "values", "table"]);
+
+export interface QueryLimits {
+	maxRows: number;
+	maxResponseBytes: number;
+}
+
+export interface QueryPage {
+	rows: unknown[];
+	columns?: readonly postgres.Column<string>[]; // Metadata of the result columns, see src/database/masking.ts
+	offset: number;
+	hasMore: boolean;
+	remainingRows?: number; // Rows after this page, when known
+	remainingRowsCapped?: boolean; // Counting stopped at MAX_COUNTED_ROWS, remainingRows is a lower bound
+	nextCursor?: string;
+}
+
+/**
+ * Read the result limits from the environment (QUERY_MAX_ROWS, QUERY_MAX_RESPONSE_BYTES)
+ */
+export function getQueryLimits(env: Env): QueryLimits {
+	return {
+		maxRows: parsePositiveInt((env as any).QUERY_MAX_ROWS) ?? DEFAULT_MAX_ROWS,
+		maxResponseBytes: parsePositiveInt((env as any).QUERY_MAX_RESPONSE_BYTES) ?? DEFAULT_MAX_RESPONSE_BYTES,
+	};
+}
+
+/**
+ * Encode a continuation token for the page starting at `offset`.
+ * The token is tied to the query and parameters, so it cannot be replayed against another query.
+ */
+export function encodeCursor(offset: number, sql: string, params: unknown[] = []): string {
+	return btoa(JSON.stringify({ o: offset, q: fingerprint(sql, params) }))
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+}
+
+/**
+ * Decode a continuation token. Returns the offset, or null if the token is malformed or
+ * was issued for a different query.
+ */
+export function decodeCursor(cursor: string, sql: string, params: unknown[] = []): number | null {
+	try {
+		const { o, q } = JSON.parse(atob(cursor.replace(/-/g, "+").replace(/_/g, "/")));
+		if (!Number.isInteger(o) || o < 0 || q !== fingerprint(sql, params)) {
+			return null;
+		}
+		return o;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Fetch one page of a read query. SELECT-like queries are wrapped in a subquery so only the
+ * page is transferred; SHOW and EXPLAIN results are paged in memory.
+ * Rows beyond the response byte budget are left for the next page.
+ * Must run inside a transaction: the rows after the page are counted in a savepoint.
+ */
+export async function fetchQueryPage(
+	db: postgres.Sql,
+	sql: string,
+	params: (string | number | boolean | null)[],
+	options: { offset: number; limit: number; maxResponseBytes: number },
+): Promise<QueryPage> {
+	const { offset, limit, maxResponseBytes } = options;
+	const [statement] = parseSqlStatements(sql);
+	const keyword = statement?.tokens.find((token) => token.type === "word")?.value;
+
+	let rows: unknown[];
+	let columns: readonly postgres.Column<string>[] | undefined;
+	let hasMore: boolean;
+	let remainingRows: number | undefined;
+	let remainingRowsCapped = false;
+
+	if (statement && keyword && PAGEABLE_STATEMENTS.has(keyword)) {
+		// Newlines keep a trailing line comment from swallowing the closing parenthesis
+		const fetched = await db.unsafe(
+			`SELECT * FROM (\n${statement.text}\n) AS paged_query LIMIT ${limit + 1} OFFSET ${offset}`,
+			params,
+		);
+		rows = Array.from(fetched).slice(0, limit);
+		columns = fetched.columns;
+		hasMore = fetched.length > limit;
+		if (hasMore) {
+			const counted = await countRemainingRows(db, statement.text, params, offset + rows.length);
+			if (counted !== undefined) {
+				remainingRowsCapped = counted > MAX_COUNTED_ROWS;
+				remainingRows = Math.min(counted, MAX_COUNTED_ROWS);
+			}
+		}
+	} else {
+		const result = await db.unsafe(sql, params);
+		const all = Array.from(result);
+		rows = all.slice(offset, offset + limit);
+		columns = result.columns;
+		remainingRows = Math.max(all.length - offset - rows.length, 0);
+		hasMore = remainingRows > 0;
+	}
+
+	// Drop rows that do not fit the byte budget; they are returned on the next page
+	const kept = fitToByteBudget(rows, maxResponseBytes);
+	if (kept < rows.length) {
+		if (remainingRows !== undefined) remainingRows += rows.length - kept;
+		rows = rows.slice(0, kept);
+		hasMore = true;
+	}
+
+	return {
+		rows,
+		columns,
+		offset,
+		hasMore,
+		remainingRows,
+		remainingRowsCapped: remainingRowsCapped || undefined,
+		nextCursor: hasMore ? encodeCursor(offset + rows.length, sql, params) : undefined,
+	};
+}
+
+/**
+ * Summary lines shown under a page of results. `continueWith` names the tool that fetches the
+ * next page with the SQL shown, when it is not the tool that returned this page.
+ */
+export function formatPageSummary(page: QueryPage, continueWith?: string): string {
+	const range = page.rows.length > 0 ? ` (rows ${page.offset + 1}-${page.offset + page.rows.length})` : "";
+	let summary = `**Rows returned:** ${page.rows.length}${range}`;
+	if (page.hasMore) {
+		const more =
+			page.remainingRows !== undefined ? `${page.remainingRowsCapped ? "over " : ""}${page.remainingRows} more rows` : "more rows available";
+		const call = continueWith ? `Call \`${continueWith}\` with the SQL above and` : "Call this tool again with";
+		summary += `\n\n**⚠️ Results truncated, ${more}.** ${call} \`cursor: "${page.nextCursor}"\` to fetch the next page.`;
+	}
+	return summary;
+}
+
+// Count the rows after `skip`, up to one past MAX_COUNTED_ROWS. The count is best-effort: it runs in
+// a savepoint, so a failure or timeout leaves the page and the transaction intact.
+async function countRemainingRows(db: postgres.Sql, statement: string, params: (string | number | boolean | null)[], skip: number): Promise<number | undefined> {
+	await db.unsafe("SAVEPOINT count_rows");
+	try {
+		const [{ total }] = await db.unsafe(
+			`SELECT count(*)::int AS total FROM (SELECT 1 FROM (\n${statement}\n) AS counted_query OFFSET ${skip} LIMIT ${MAX_COUNTED_ROWS + 1}) AS capped`,
+			params,
+		);
+		await db.unsafe("RELEASE SAVEPOINT count_rows");
+		return total;
+	} catch (error) {
+		console.warn("Could not count the remaining rows:", error);
+		await db.unsafe("ROLLBACK TO SAVEPOINT count_rows");
+		return undefined;
+	}
+}
+
+// Number of leading rows whose pretty-printed JSON fits in the budget (always at least one)
+function fitToByteBudget(rows: unknown[], maxBytes: number): number {
+	const encoder = new TextEncoder();
+	let bytes = 2; // Surrounding brackets
+	for (let i = 0; i < rows.length; i++) {
+		bytes += encoder.encode(JSON.stringify(normalizeRow(rows[i]), null, 2)).length + 4; // Separator and indentation
+		if (bytes > maxBytes && i > 0) return i;
+	}
+	return rows.length;
+}
+
+// FNV-1a hash of the query and parameters, used to bind cursors to a query
+function fingerprint(sql: string, params: unknown[]): string {
+	let hash = 0x811c9dc5;
+	for (const char of JSON.stringify([sql.trim(), params])) {
+		hash ^= char.charCodeAt(0);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(36);
+}
+
+function parsePositiveInt(value: unknown): number | undefined {
+	const parsed = Number.parseInt(String(value ?? ""), 10);
+	return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
@@ -0,0 +1,237 @@
+import postgres from "postgres";
+import { parseSqlStatements } from "./sql-parser";
+import { withQueryTimeouts, type QueryTimeouts } from "./timeouts";
+
+// Tables with more rows than this are flagged when scanned sequentially
+export const LARGE_TABLE_ROWS = 100_000;
+
+export const DEFAULT_MAX_QUERY_COST = 1_000_000;
+
+// Statements EXPLAIN accepts that can be estimated before they run
+const EXPLAINABLE_STATEMENTS = new Set(["select", "with", "values", "table", "insert", "update", "delete", "merge"]);
+
+export interface QueryCostGuard {
+	maxCost: number; // 0 disables the guard
+	action: "reject" | "warn";
+}
+
+export interface QueryCostCheck {
+	estimatedCost?: number;
+	rejected: boolean;
+	message?: string;
+}
+
+export interface PlanNode {
+	"Node Type": string;
+	"Relation Name"?: string;
+	Schema?: string;
+	Alias?: string;
+	"Index Name"?: string;
+	"Startup Cost": number;
+	"Total Cost": number;
+	"Plan Rows": number;
+	"Actual Rows"?: number;
+	"Actual Loops"?: number;
+	Filter?: string;
+	Plans?: PlanNode[];
+	[key: string]: unknown;
+}
+
+export interface QueryPlan {
+	Plan: PlanNode;
+	"Planning Time"?: number;
+	"Execution Time"?: number;
+}
+
+export interface PlanSummary {
+	totalCost: number;
+	estimatedRows: number;
+	actualRows?: number;
+	planningTime?: number;
+	executionTime?: number;
+	sequentialScans: { relation: string; tableRows?: number; filter?: string }[];
+	hints: string[];
+}
+
+/**
+ * Read the cost guard from the environment (QUERY_MAX_COST, QUERY_COST_ACTION)
+ */
+export function getQueryCostGuard(env: Env): QueryCostGuard {
+	const configured = Number((env as any).QUERY_MAX_COST);
+	return {
+		maxCost: (env as any).QUERY_MAX_COST !== undefined && Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_MAX_QUERY_COST,
+		action: (env as any).QUERY_COST_ACTION === "warn" ? "warn" : "reject",
+	};
+}
+
+/**
+ * Check that SQL is a single statement EXPLAIN can plan
+ */
+export function isExplainableStatement(sql: string): boolean {
+	const statements = parseSqlStatements(sql);
+	const keyword = statements[0]?.tokens.find((token) => token.type === "word")?.value;
+	return statements.length === 1 && keyword !== undefined && EXPLAINABLE_STATEMENTS.has(keyword);
+}
+
+/**
+ * Run EXPLAIN (FORMAT JSON) for a single statement and return its plan.
+ * With `analyze` the statement is executed, so callers must only allow it for reads.
+ */
+export async function explainStatement(
+	db: postgres.Sql,
+	sql: string,
+	params: (string | number | boolean | null)[],
+	options: { analyze?: boolean } = {},
+): Promise<QueryPlan> {
+	const [statement] = parseSqlStatements(sql);
+	const explainOptions = options.analyze ? "FORMAT JSON, VERBOSE, ANALYZE, BUFFERS" : "FORMAT JSON, VERBOSE";
+	const [row] = await db.unsafe(`EXPLAIN (${explainOptions}) ${statement?.text ?? sql}`, params);
+	const plan = row?.["QUERY PLAN"];
+	const parsed = typeof plan === "string" ? JSON.parse(plan) : plan;
+	if (!Array.isArray(parsed) || !parsed[0]?.Plan) {
+		throw new Error("EXPLAIN did not return a JSON plan");
+	}
+	return parsed[0];
+}
+
+/**
+ * Estimate a query's cost with EXPLAIN and compare it with the guard.
+ * Statements that cannot be explained (SHOW, EXPLAIN) are not checked. The EXPLAIN runs in a READ ONLY
+ * transaction with the given timeouts; `audit` wraps it, so callers can record it in the audit log.
+ */
+export async function checkQueryCost(
+	db: postgres.Sql,
+	sql: string,
+	params: (string | number | boolean | null)[],
+	guard: QueryCostGuard,
+	options: { timeouts: QueryTimeouts; signal?: AbortSignal; audit?: (explain: () => Promise<QueryPlan>) => Promise<QueryPlan> },
+): Promise<QueryCostCheck> {
+	if (guard.maxCost <= 0 || !isExplainableStatement(sql)) {
+		return { rejected: false };
+	}
+
+	const { timeouts, signal, audit } = options;
+	const explain = () => withQueryTimeouts(db, { timeouts, signal, readOnly: true }, (tx) => explainStatement(tx, sql, params));
+	const plan = await (audit ? audit(explain) : explain());
+	const estimatedCost = plan.Plan["Total Cost"];
+	if (estimatedCost <= guard.maxCost) {
+		return { estimatedCost, rejected: false };
+	}
+
+	const message = `The planner estimates this query at cost ${Math.round(estimatedCost)}, above the limit of ${guard.maxCost}. Use \`explainQuery\` to see why, and add filters on indexed columns or a LIMIT.`;
+	return { estimatedCost, rejected: guard.action === "reject", message };
+}
+
+/**
+ * Summarize a plan: totals, sequential scans on large tables and tuning hints.
+ * `tableRows` maps "schema.table" to the table's estimated row count.
+ */
+export function summarizePlan(plan: QueryPlan, tableRows: Map<string, number> = new Map()): PlanSummary {
+	const summary: PlanSummary = {
+		totalCost: plan.Plan["Total Cost"],
+		estimatedRows: plan.Plan["Plan Rows"],
+		actualRows: plan.Plan["Actual Rows"],
+		planningTime: plan["Planning Time"],
+		executionTime: plan["Execution Time"],
+		sequentialScans: [],
+		hints: [],
+	};
+
+	for (const node of walkPlan(plan.Plan)) {
+		if (node["Node Type"] === "Seq Scan" && node["Relation Name"]) {
+			const relation = relationName(node);
+			const rows = tableRows.get(relation);
+			summary.sequentialScans.push({ relation, tableRows: rows, filter: node.Filter });
+			if (rows !== undefined && rows >= LARGE_TABLE_ROWS) {
+				summary.hints.push(
+					node.Filter
+						? `Sequential scan on ${relation} (~${rows} rows) filtered by \`${node.Filter}\`: an index on the filtered column(s) would avoid reading the whole table.`
+						: `Sequential scan reads all ~${rows} rows of ${relation}; add a WHERE clause on an indexed column or a LIMIT.`
+				);
+			}
+		}
+
+		// Large gaps between estimated and actual rows usually mean stale statistics
+		const actual = node["Actual Rows"];
+		if (actual !== undefined) {
+			const estimated = Math.max(node["Plan Rows"], 1);
+			const ratio = Math.max(actual, 1) / estimated;
+			if ((ratio >= 10 || ratio <= 0.1) && Math.max(actual, estimated) >= 1000) {
+				const target = node["Relation Name"] ? ` on ${relationName(node)}` : "";
+				summary.hints.push(
+					`${node["Node Type"]}${target} estimated ${node["Plan Rows"]} rows but returned ${actual}; running ANALYZE may improve the plan.`
+				);
+			}
+		}
+	}
+
+	return summary;
+}
+
+/**
+ * Look up the estimated row counts of the tables scanned sequentially in a plan
+ */
+export async function getScannedTableRows(db: postgres.Sql, plan: QueryPlan): Promise<Map<string, number>> {
+	const scans = walkPlan(plan.Plan).filter((node) => node["Node Type"] === "Seq Scan" && node["Relation Name"]);
+	const rows = new Map<string, number>();
+	if (scans.length === 0) return rows;
+
+	const result = await db.unsafe(
+		`
+		SELECT n.nspname AS schema, c.relname AS name, c.reltuples::bigint AS rows
+		FROM pg_catalog.pg_class c
+		JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+		WHERE (n.nspname, c.relname) IN (SELECT * FROM unnest($1::text[], $2::text[]))
+		`,
+		[scans.map((node) => node.Schema ?? "public"), scans.map((node) => node["Relation Name"]!)],
+	);
+	for (const row of result) {
+		rows.set(`${row.schema}.${row.name}`, Math.max(Number(row.rows), 0));
+	}
+	return rows;
+}
+
+/**
+ * Markdown rendering of a plan summary followed by the plan tree
+ */
+export function formatPlanSummary(plan: QueryPlan, summary: PlanSummary): string {
+	const lines = [
+		`**Estimated cost:** ${summary.totalCost}`,
+		`**Estimated rows:** ${summary.estimatedRows}`,
+	];
+	if (summary.actualRows !== undefined) lines.push(`**Actual rows:** ${summary.actualRows}`);
+	if (summary.planningTime !== undefined) lines.push(`**Planning time:** ${summary.planningTime} ms`);
+	if (summary.executionTime !== undefined) lines.push(`**Execution time:** ${summary.executionTime} ms`);
+
+	if (summary.sequentialScans.length > 0) {
+		lines.push("", "**Sequential scans:**");
+		for (const scan of summary.sequentialScans) {
+			const size = scan.tableRows !== undefined ? ` (~${scan.tableRows} rows in table)` : "";
+			lines.push(`- ${scan.relation}${size}${scan.filter ? `, filter \`${scan.filter}\`` : ""}`);
+		}
+	}
+
+	if (summary.hints.length > 0) {
+		lines.push("", "**Hints:**", ...summary.hints.map((hint) => `- ${hint}`));
+	}
+
+	lines.push("", "**Plan:**", "```", ...renderPlanTree(plan.Plan), "```");
+	return lines.join("\n");
+}
+
+function renderPlanTree(node: PlanNode, depth = 0): string[] {
+	const target = node["Relation Name"] ? ` on ${relationName(node)}` : "";
+	const index = node["Index Name"] ? ` using ${node["Index Name"]}` : "";
+	const actual = node["Actual Rows"] !== undefined ? ` (actual rows=${node["Actual Rows"]} loops=${node["Actual Loops"] ?? 1})` : "";
+	const line = `${"  ".repeat(depth)}${depth > 0 ? "-> " : ""}${node["Node Type"]}${index}${target} (cost=${node["Startup Cost"]}..${node["Total Cost"]} rows=${node["Plan Rows"]})${actual}`;
+	const filter = node.Filter ? [`${"  ".repeat(depth + 2)}Filter: ${node.Filter}`] : [];
+	return [line, ...filter, ...(node.Plans ?? []).flatMap((child) => renderPlanTree(child, depth + 1))];
+}
+
+function walkPlan(node: PlanNode): PlanNode[] {
+	return [node, ...(node.Plans ?? []).flatMap(walkPlan)];
+}
+
+function relationName(node: PlanNode): string {
+	return `${node.Schema ?? "public"}.${node["Relation Name"]}`;
+}
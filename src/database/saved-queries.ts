@@ -0,0 +1,155 @@
+// Saved queries: a library of named, parameterized read-only queries shared through OAUTH_KV
+//
+// A saved query has SQL with $1..$n placeholders and a named parameter for each placeholder, so it
+// can be run by name with named values and offered as an MCP prompt. Everyone who can read the
+// database of a saved query can find and run it; only its owner can replace it. Listing reads the
+// KV metadata of each key, which holds a summary of the query, instead of fetching every query.
+
+import { validateReadOnlyQuery, validateSqlParameters, validateSqlQuery } from "./security";
+import type { SqlParam, SqlValidationResult } from "../types";
+
+const SAVED_QUERY_KV_PREFIX = "saved-query:";
+
+// Descriptions are shortened in the KV metadata, which is limited to 1024 bytes
+const SUMMARY_DESCRIPTION_CHARS = 120;
+
+/**
+ * Raised when a saved query cannot be stored or run. The message is safe to show to the user.
+ */
+export class SavedQueryError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "SavedQueryError";
+	}
+}
+
+export interface SavedQueryParameter {
+	name: string; // Value for the placeholder $n of the n-th parameter
+	description?: string;
+}
+
+export interface SavedQuery {
+	name: string;
+	description: string;
+	sql: string;
+	parameters: SavedQueryParameter[];
+	database: string;
+	owner: string;
+	createdAt: string;
+	updatedAt: string;
+}
+
+export interface SavedQuerySummary {
+	name: string;
+	description: string;
+	parameters: string[];
+	database: string;
+	owner: string;
+	updatedAt: string;
+}
+
+/**
+ * Check the SQL of a query to save: a single read-only statement with one named parameter per
+ * $1..$n placeholder
+ */
+export function validateSavedQuery(sql: string, parameters: SavedQueryParameter[]): SqlValidationResult {
+	const validation = validateSqlQuery(sql);
+	if (!validation.isValid) {
+		return validation;
+	}
+	const readOnly = validateReadOnlyQuery(sql);
+	if (!readOnly.isValid) {
+		return { isValid: false, error: `Only read-only queries can be saved: ${readOnly.error}` };
+	}
+	const duplicate = parameters.find((parameter, index) => parameters.findIndex((other) => other.name === parameter.name) !== index);
+	if (duplicate) {
+		return { isValid: false, error: `Parameter ${duplicate.name} is listed more than once` };
+	}
+	// Name a parameter for each placeholder: $1 is the first parameter, $2 the second, ...
+	return validateSqlParameters(sql, parameters.map((parameter) => parameter.name));
+}
+
+/**
+ * Fetch a saved query by name, or null if there is none
+ */
+export async function getSavedQuery(kv: KVNamespace, name: string): Promise<SavedQuery | null> {
+	return kv.get<SavedQuery>(`${SAVED_QUERY_KV_PREFIX}${name}`, "json");
+}
+
+/**
+ * Save a query owned by `login`, replacing the user's own query of the same name
+ */
+export async function saveQuery(
+	kv: KVNamespace,
+	query: Pick<SavedQuery, "name" | "description" | "sql" | "parameters" | "database">,
+	login: string,
+): Promise<SavedQuery> {
+	const existing = await getSavedQuery(kv, query.name);
+	if (existing && existing.owner !== login) {
+		throw new SavedQueryError(`A saved query named ${query.name} already exists and belongs to ${existing.owner}. Choose another name.`);
+	}
+
+	const now = new Date().toISOString();
+	const saved: SavedQuery = { ...query, owner: login, createdAt: existing?.createdAt ?? now, updatedAt: now };
+	const summary: Omit<SavedQuerySummary, "name"> = {
+		description: saved.description.length > SUMMARY_DESCRIPTION_CHARS ? `${saved.description.slice(0, SUMMARY_DESCRIPTION_CHARS - 1)}…` : saved.description,
+		parameters: saved.parameters.map((parameter) => parameter.name),
+		database: saved.database,
+		owner: saved.owner,
+		updatedAt: saved.updatedAt,
+	};
+	await kv.put(`${SAVED_QUERY_KV_PREFIX}${saved.name}`, JSON.stringify(saved), { metadata: summary });
+	return saved;
+}
+
+/**
+ * List saved queries by name. `search` keeps queries whose name, description or owner contain
+ * every word of it; `owner` keeps one user's queries.
+ */
+export async function listSavedQueries(kv: KVNamespace, filters: { search?: string; owner?: string } = {}): Promise<SavedQuerySummary[]> {
+	const summaries: SavedQuerySummary[] = [];
+	let cursor: string | undefined;
+	do {
+		const page = await kv.list<Omit<SavedQuerySummary, "name">>({ prefix: SAVED_QUERY_KV_PREFIX, cursor });
+		for (const key of page.keys) {
+			if (key.metadata) {
+				summaries.push({ name: key.name.slice(SAVED_QUERY_KV_PREFIX.length), ...key.metadata });
+			}
+		}
+		cursor = page.list_complete ? undefined : page.cursor;
+	} while (cursor);
+
+	const words = (filters.search ?? "").toLowerCase().split(/\s+/).filter(Boolean);
+	return summaries.filter((summary) => {
+		if (filters.owner && summary.owner.toLowerCase() !== filters.owner.toLowerCase()) {
+			return false;
+		}
+		const text = `${summary.name} ${summary.description} ${summary.owner}`.toLowerCase();
+		return words.every((word) => text.includes(word));
+	});
+}
+
+/**
+ * Order named parameter values for the query's $1..$n placeholders
+ */
+export function bindSavedQueryParameters(query: SavedQuery, values: Record<string, SqlParam> = {}): SqlParam[] {
+	const unknown = Object.keys(values).filter((name) => !query.parameters.some((parameter) => parameter.name === name));
+	if (unknown.length > 0) {
+		throw new SavedQueryError(`Saved query ${query.name} has no parameter ${unknown.join(", ")}. ${describeParameters(query)}`);
+	}
+	const missing = query.parameters.filter((parameter) => !(parameter.name in values));
+	if (missing.length > 0) {
+		throw new SavedQueryError(`Missing value for parameter ${missing.map((parameter) => parameter.name).join(", ")} of saved query ${query.name}. ${describeParameters(query)}`);
+	}
+	return query.parameters.map((parameter) => values[parameter.name]);
+}
+
+/**
+ * Describe a saved query's parameters, e.g. for an error or a listing
+ */
+export function describeParameters(query: Pick<SavedQuery, "parameters">): string {
+	if (query.parameters.length === 0) {
+		return "It takes no parameters.";
+	}
+	return `Parameters: ${query.parameters.map((parameter) => (parameter.description ? `${parameter.name} (${parameter.description})` : parameter.name)).join(", ")}.`;
+}
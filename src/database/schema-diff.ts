@@ -0,0 +1,188 @@
+// Schema comparison
+//
+// Compares two introspections (see introspection.ts) table by table: tables and views, columns,
+// primary keys, constraints, indexes and enum types. Migrations use it to show what a migration
+// changes; compareSchemas also finds drift between two databases, e.g. staging and production, or
+// between two schemas of one database, where objects are matched by name without their schema.
+
+import type { ColumnInfo, SchemaInfo, TableInfo } from "./introspection";
+
+export type SchemaObjectKind = TableInfo["type"] | "column" | "primary key" | "constraint" | "index" | "enum";
+
+/**
+ * One difference between a source and a target schema: `added` objects only exist in the target,
+ * `removed` objects only in the source
+ */
+export interface SchemaDifference {
+	change: "added" | "removed" | "changed";
+	kind: SchemaObjectKind;
+	name: string; // schema.table, schema.table.column or schema.enum; constraints and indexes by their own name
+	table?: string; // Table of a constraint or index
+	property?: "type" | "definition"; // What changed about a table or view
+	source?: string; // Definition in the source: column type, column list, enum values, ...
+	target?: string; // Definition in the target
+}
+
+export interface CompareSchemasOptions {
+	// Match objects by name alone and leave schema names out of definitions, to compare two schemas
+	unqualified?: boolean;
+}
+
+// Definitions shown in parentheses: column lists and enum values
+const LIST_KINDS = new Set<SchemaObjectKind>(["table", "partitioned table", "view", "materialized view", "foreign table", "primary key", "enum"]);
+
+/**
+ * List the differences that turn the source schema into the target, tables first, in the
+ * target's order, then enums
+ */
+export function compareSchemas(source: SchemaInfo, target: SchemaInfo, options: CompareSchemasOptions = {}): SchemaDifference[] {
+	const qualify = (item: { schema: string; name: string }) => (options.unqualified ? item.name : `${item.schema}.${item.name}`);
+	const differences: SchemaDifference[] = [];
+
+	const sourceTables = byName(source.tables, qualify);
+	const targetTables = byName(target.tables, qualify);
+	for (const [name, table] of targetTables) {
+		const previous = sourceTables.get(name);
+		if (!previous) {
+			differences.push({ change: "added", kind: table.type, name, target: table.columns.map((column) => column.name).join(", ") });
+		} else {
+			differences.push(...compareTables(name, normalizeTable(previous, options), normalizeTable(table, options)));
+		}
+	}
+	for (const [name, table] of sourceTables) {
+		if (!targetTables.has(name)) {
+			differences.push({ change: "removed", kind: table.type, name, source: table.columns.map((column) => column.name).join(", ") });
+		}
+	}
+
+	const sourceEnums = byName(source.enums, qualify);
+	for (const [name, enumType] of byName(target.enums, qualify)) {
+		const previous = sourceEnums.get(name);
+		if (!previous) {
+			differences.push({ change: "added", kind: "enum", name, target: enumType.values.join(", ") });
+		} else if (previous.values.join("\u0000") !== enumType.values.join("\u0000")) {
+			differences.push({ change: "changed", kind: "enum", name, source: previous.values.join(", "), target: enumType.values.join(", ") });
+		}
+		sourceEnums.delete(name);
+	}
+	for (const [name, enumType] of sourceEnums) {
+		differences.push({ change: "removed", kind: "enum", name, source: enumType.values.join(", ") });
+	}
+	return differences;
+}
+
+/**
+ * Describe a difference on one line: `+` added, `-` removed, `~` changed
+ */
+export function describeSchemaDifference(difference: SchemaDifference): string {
+	const name = difference.table ? `${difference.name} on ${difference.table}` : difference.name;
+	const value = (definition = "") => (LIST_KINDS.has(difference.kind) ? `(${definition})` : definition);
+	switch (difference.change) {
+		case "added":
+			return `+ ${difference.kind} ${name}${difference.table ? ":" : ""} ${value(difference.target)}`;
+		case "removed":
+			return `- ${difference.kind} ${name}`;
+		case "changed":
+			if (difference.property === "definition") {
+				return `~ ${difference.kind} ${name}: definition changed`;
+			}
+			return difference.property === "type"
+				? `~ ${difference.kind} ${name}: ${difference.source} → ${difference.target}`
+				: `~ ${difference.kind} ${name}: ${value(difference.source)} → ${value(difference.target)}`;
+	}
+}
+
+/**
+ * Render schema differences, described one per line, for a tool response
+ */
+export function formatSchemaDiff(changes: string[]): string {
+	return changes.length > 0 ? `\`\`\`diff\n${changes.join("\n")}\n\`\`\`` : "No schema changes.";
+}
+
+function compareTables(name: string, source: TableInfo, target: TableInfo): SchemaDifference[] {
+	const differences: SchemaDifference[] = [];
+	if (source.type !== target.type) {
+		differences.push({ change: "changed", kind: target.type, name, property: "type", source: source.type, target: target.type });
+	}
+	if ((source.definition ?? "") !== (target.definition ?? "")) {
+		differences.push({ change: "changed", kind: target.type, name, property: "definition", source: source.definition, target: target.definition });
+	}
+
+	const sourceColumns = byName(source.columns, (column) => column.name);
+	for (const column of target.columns) {
+		const previous = sourceColumns.get(column.name);
+		if (!previous) {
+			differences.push({ change: "added", kind: "column", name: `${name}.${column.name}`, target: describeColumn(column) });
+			continue;
+		}
+		if (describeColumn(previous) !== describeColumn(column)) {
+			differences.push({ change: "changed", kind: "column", name: `${name}.${column.name}`, source: describeColumn(previous), target: describeColumn(column) });
+		}
+		sourceColumns.delete(column.name);
+	}
+	for (const column of sourceColumns.values()) {
+		differences.push({ change: "removed", kind: "column", name: `${name}.${column.name}`, source: describeColumn(column) });
+	}
+
+	const sourceKey = source.primaryKey?.join(", ") ?? "";
+	const targetKey = target.primaryKey?.join(", ") ?? "";
+	if (sourceKey !== targetKey) {
+		differences.push({ change: "changed", kind: "primary key", name, source: sourceKey, target: targetKey });
+	}
+
+	const constraints = (table: TableInfo) =>
+		new Map([
+			...(table.foreignKeys ?? []).map((fk) => [fk.name, `foreign key (${fk.columns.join(", ")}) → ${fk.references.schema ? `${fk.references.schema}.` : ""}${fk.references.table} (${fk.references.columns.join(", ")})`] as const),
+			...(table.uniqueConstraints ?? []).map((unique) => [unique.name, `unique (${unique.columns.join(", ")})`] as const),
+			...(table.checkConstraints ?? []).map((check) => [check.name, check.definition] as const),
+		]);
+	const indexes = (table: TableInfo) => new Map((table.indexes ?? []).filter((index) => !index.primary).map((index) => [index.name, index.definition] as const));
+	differences.push(...compareNamed("constraint", name, constraints(source), constraints(target)));
+	differences.push(...compareNamed("index", name, indexes(source), indexes(target)));
+	return differences;
+}
+
+function compareNamed(kind: "constraint" | "index", table: string, source: Map<string, string>, target: Map<string, string>): SchemaDifference[] {
+	const differences: SchemaDifference[] = [];
+	for (const [name, definition] of target) {
+		const previous = source.get(name);
+		if (previous === undefined) differences.push({ change: "added", kind, name, table, target: definition });
+		else if (previous !== definition) differences.push({ change: "changed", kind, name, table, source: previous, target: definition });
+	}
+	for (const [name, definition] of source) {
+		if (!target.has(name)) differences.push({ change: "removed", kind, name, table, source: definition });
+	}
+	return differences;
+}
+
+// Leave the table's own schema out of its definitions, so that e.g. an index ON staging.users
+// matches the same index ON public.users
+function normalizeTable(table: TableInfo, options: CompareSchemasOptions): TableInfo {
+	if (!options.unqualified) {
+		return table;
+	}
+	const unqualify = (text: string) => text.replace(new RegExp(`(?<![\\w$".])("${table.schema}"|${escapeRegExp(table.schema)})\\.`, "g"), "");
+	return {
+		...table,
+		definition: table.definition !== undefined ? unqualify(table.definition) : undefined,
+		columns: table.columns.map((column) => ({ ...column, default: column.default !== null ? unqualify(column.default) : null })),
+		foreignKeys: table.foreignKeys?.map((fk) => ({
+			...fk,
+			references: { ...fk.references, schema: fk.references.schema === table.schema ? "" : fk.references.schema },
+		})),
+		checkConstraints: table.checkConstraints?.map((check) => ({ ...check, definition: unqualify(check.definition) })),
+		indexes: table.indexes?.map((index) => ({ ...index, definition: unqualify(index.definition) })),
+	};
+}
+
+function describeColumn(column: ColumnInfo): string {
+	return `${column.type}${column.nullable ? "" : " NOT NULL"}${column.default !== null ? ` DEFAULT ${column.default}` : ""}`;
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function byName<T>(items: T[], name: (item: T) => string): Map<string, T> {
+	return new Map(items.map((item) => [name(item), item]));
+}
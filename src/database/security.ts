@@ -1,8 +1,10 @@
-import type { SqlValidationResult } from "../types";
+import type { SqlParam, SqlValidationResult } from "../types";
+import { parseSqlStatements, SqlParseError, type SqlToken } from "./sql-parser";
+import { QueryAbortedError } from "./timeouts";
 
 /**
  * SQL injection protection: Basic SQL keyword validation
- * This is a simple check - in production you should use parameterized queries
+ * This is a simple check - pass user-provided values as parameters (see validateSqlParameters)
  */
 export function validateSqlQuery(sql: string): SqlValidationResult {
 	const trimmedSql = sql.trim().toLowerCase();
@@ -35,26 +37,200 @@ export function validateSqlQuery(sql: string): SqlValidationResult {
 		}
 	}
 	
+	// Reject SQL that cannot be tokenized (unterminated strings or comments)
+	try {
+		parseSqlStatements(sql);
+	} catch (error) {
+		if (error instanceof SqlParseError) {
+			return { isValid: false, error: `Invalid SQL: ${error.message}` };
+		}
+		throw error;
+	}
+	
+	return { isValid: true };
+}
+
+// Statements that only read data
+const READ_STATEMENTS = new Set(["select", "with", "values", "table", "show"]);
+
+// Keywords that modify data wherever they appear (e.g. data-modifying CTEs)
+const WRITE_KEYWORDS = new Set(["insert", "update", "delete", "merge"]);
+
+// Built-in functions that change state, take locks, touch the server filesystem or run SQL the parser cannot see
+const SIDE_EFFECT_FUNCTIONS = new Set([
+	"nextval", "setval", "set_config", "pg_notify",
+	"pg_sleep", "pg_sleep_for", "pg_sleep_until",
+	"pg_cancel_backend", "pg_terminate_backend", "pg_reload_conf", "pg_rotate_logfile",
+	"pg_promote", "pg_switch_wal", "pg_logical_emit_message", "pg_drop_replication_slot",
+	"pg_backup_start", "pg_backup_stop", "pg_start_backup", "pg_stop_backup",
+	"pg_read_file", "pg_read_binary_file", "pg_ls_dir", "pg_stat_file",
+	"query_to_xml", "query_to_xml_and_xmlschema", "cursor_to_xml",
+	"table_to_xml", "table_to_xml_and_xmlschema", "schema_to_xml", "schema_to_xml_and_xmlschema",
+	"database_to_xml", "database_to_xml_and_xmlschema", "dblink", "dblink_exec",
+]);
+const SIDE_EFFECT_FUNCTION_PREFIXES = ["pg_advisory_", "pg_try_advisory_", "pg_create_", "lo_", "dblink_"];
+
+/**
+ * Check that a SQL query is a single statement that only reads data.
+ * The query is tokenized so comments, string literals and quoted identifiers cannot hide
+ * writes; data-modifying CTEs, SELECT INTO, row locks and side-effecting functions are
+ * rejected along with any statement that is not a SELECT, WITH, VALUES, TABLE, SHOW or EXPLAIN.
+ */
+export function validateReadOnlyQuery(sql: string): SqlValidationResult {
+	let statements;
+	try {
+		statements = parseSqlStatements(sql);
+	} catch (error) {
+		if (error instanceof SqlParseError) {
+			return { isValid: false, error: `Invalid SQL: ${error.message}` };
+		}
+		throw error;
+	}
+
+	if (statements.length === 0) {
+		return { isValid: false, error: "SQL query cannot be empty" };
+	}
+	if (statements.length > 1) {
+		return { isValid: false, error: "Only a single statement is allowed" };
+	}
+
+	const error = findWriteInStatement(statements[0].tokens);
+	return error ? { isValid: false, error } : { isValid: true };
+}
+
+/**
+ * Check that the parameters match the $1..$n placeholders used in the query
+ */
+export function validateSqlParameters(sql: string, params: SqlParam[] = []): SqlValidationResult {
+	let highest = 0;
+	try {
+		for (const statement of parseSqlStatements(sql)) {
+			for (const token of statement.tokens) {
+				if (token.type === "parameter") {
+					highest = Math.max(highest, Number(token.value.slice(1)));
+				}
+			}
+		}
+	} catch (error) {
+		if (error instanceof SqlParseError) {
+			return { isValid: false, error: `Invalid SQL: ${error.message}` };
+		}
+		throw error;
+	}
+
+	if (highest > params.length) {
+		return { isValid: false, error: `Query uses $${highest} but only ${params.length} parameter(s) were provided` };
+	}
+	if (params.length > highest) {
+		return { isValid: false, error: `${params.length} parameter(s) were provided but the query only uses ${highest} placeholder(s)` };
+	}
 	return { isValid: true };
 }
 
 /**
- * Check if a SQL query is a write operation
+ * Check if a SQL query is a write operation, i.e. any of its statements does more than read
  */
 export function isWriteOperation(sql: string): boolean {
-	const trimmedSql = sql.trim().toLowerCase();
-	const writeKeywords = [
-		'insert', 'update', 'delete', 'create', 'drop', 'alter', 
-		'truncate', 'grant', 'revoke', 'commit', 'rollback'
-	];
-	
-	return writeKeywords.some(keyword => trimmedSql.startsWith(keyword));
+	try {
+		return parseSqlStatements(sql).some((statement) => findWriteInStatement(statement.tokens) !== null);
+	} catch {
+		// Unparseable SQL is treated as a write so it never passes as a read
+		return true;
+	}
+}
+
+// Return the reason a statement is not a pure read, or null if it is
+function findWriteInStatement(tokens: SqlToken[]): string | null {
+	let start = 0;
+	// Skip parentheses around the statement, e.g. (SELECT ...) UNION (SELECT ...)
+	while (isPunctuation(tokens[start], "(")) start++;
+
+	const first = tokens[start];
+	if (first?.type === "word" && first.value === "explain") {
+		start = skipExplainOptions(tokens, start + 1);
+		// EXPLAIN ANALYZE executes the statement, so the inner statement must be a read as well
+		while (isPunctuation(tokens[start], "(")) start++;
+	}
+
+	const keyword = tokens[start];
+	if (!keyword || keyword.type !== "word" || !READ_STATEMENTS.has(keyword.value)) {
+		const name = keyword?.type === "word" ? keyword.value.toUpperCase() : "This";
+		return `${name} statements are not read-only`;
+	}
+
+	for (let i = start; i < tokens.length; i++) {
+		const token = tokens[i];
+		// A quoted function name, e.g. "pg_terminate_backend"(1), calls the function of exactly that name
+		if (token.type === "identifier" && isPunctuation(tokens[i + 1], "(") && isSideEffectFunction(token.value)) {
+			return `Function ${token.value}() has side effects and is not allowed`;
+		}
+		if (token.type !== "word") continue;
+
+		// Column references like t.update or "x".delete are not keywords
+		if (isPunctuation(tokens[i - 1], ".")) {
+			if (isPunctuation(tokens[i + 1], "(") && isSideEffectFunction(token.value)) {
+				return `Function ${token.value}() has side effects and is not allowed`;
+			}
+			continue;
+		}
+
+		if (WRITE_KEYWORDS.has(token.value)) {
+			return `${token.value.toUpperCase()} is not allowed in a read-only query`;
+		}
+		if (token.value === "into") {
+			return "SELECT INTO creates a table and is not allowed in a read-only query";
+		}
+		if (token.value === "for" && isRowLockClause(tokens, i + 1)) {
+			return "Row locking clauses (FOR UPDATE / FOR SHARE) are not allowed in a read-only query";
+		}
+		if (isPunctuation(tokens[i + 1], "(") && isSideEffectFunction(token.value)) {
+			return `Function ${token.value}() has side effects and is not allowed`;
+		}
+	}
+
+	return null;
+}
+
+// Skip EXPLAIN's options: EXPLAIN (ANALYZE, FORMAT JSON) or EXPLAIN ANALYZE VERBOSE
+function skipExplainOptions(tokens: SqlToken[], start: number): number {
+	let i = start;
+	if (isPunctuation(tokens[i], "(") && tokens[i + 1]?.type === "word" && !READ_STATEMENTS.has(tokens[i + 1].value)) {
+		let depth = 0;
+		for (; i < tokens.length; i++) {
+			if (isPunctuation(tokens[i], "(")) depth++;
+			if (isPunctuation(tokens[i], ")") && --depth === 0) return i + 1;
+		}
+		return i;
+	}
+	while (tokens[i]?.type === "word" && ["analyze", "analyse", "verbose"].includes(tokens[i].value)) i++;
+	return i;
+}
+
+function isRowLockClause(tokens: SqlToken[], start: number): boolean {
+	const words = tokens.slice(start, start + 3).map((token) => (token.type === "word" ? token.value : ""));
+	return (
+		words[0] === "update" ||
+		words[0] === "share" ||
+		(words[0] === "no" && words[1] === "key" && words[2] === "update") ||
+		(words[0] === "key" && words[1] === "share")
+	);
+}
+
+function isSideEffectFunction(name: string): boolean {
+	return SIDE_EFFECT_FUNCTIONS.has(name) || SIDE_EFFECT_FUNCTION_PREFIXES.some((prefix) => name.startsWith(prefix));
+}
+
+function isPunctuation(token: SqlToken | undefined, value: string): boolean {
+	return token?.type === "punctuation" && token.value === value;
 }
 
 /**
  * Format database error for user-friendly display
  */
 export function formatDatabaseError(error: unknown): string {
+	if (error instanceof QueryAbortedError) {
+		return error.message;
+	}
 	if (error instanceof Error) {
 		// Hide sensitive connection details
 		if (error.message.includes('password')) {
@@ -0,0 +1,197 @@
+/**
+ * Minimal PostgreSQL lexer used for query validation.
+ * Splits SQL into statements and tokens while skipping comments and quoted text, so
+ * keywords inside strings, quoted identifiers or comments are never mistaken for SQL.
+ */
+
+export type SqlTokenType = "word" | "identifier" | "string" | "number" | "parameter" | "punctuation" | "operator";
+
+export interface SqlToken {
+	type: SqlTokenType;
+	value: string; // Words are lower-cased; quoted identifiers and strings keep their content
+}
+
+export interface SqlStatement {
+	text: string;
+	tokens: SqlToken[];
+}
+
+export class SqlParseError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "SqlParseError";
+	}
+}
+
+const WORD_START = /[A-Za-z_\u0080-\uffff]/;
+const WORD_PART = /[A-Za-z0-9_$\u0080-\uffff]/;
+const DIGIT = /[0-9]/;
+const PUNCTUATION = new Set(["(", ")", ",", ";", "[", "]", "."]);
+const OPERATOR_CHARS = /[+\-*/<>=~!@#%^&|`?:]/;
+
+/**
+ * Split SQL into statements on top-level semicolons. Empty statements are dropped.
+ * Throws SqlParseError for unterminated strings, quoted identifiers or comments.
+ */
+export function parseSqlStatements(sql: string): SqlStatement[] {
+	const statements: SqlStatement[] = [];
+	let tokens: SqlToken[] = [];
+	let statementStart = 0;
+
+	const endStatement = (end: number) => {
+		if (tokens.length > 0) {
+			statements.push({ text: sql.slice(statementStart, end).trim(), tokens });
+		}
+		tokens = [];
+		statementStart = end + 1;
+	};
+
+	let i = 0;
+	while (i < sql.length) {
+		const char = sql[i];
+		const next = sql[i + 1];
+
+		// Whitespace
+		if (/\s/.test(char)) {
+			i++;
+			continue;
+		}
+
+		// Line comment
+		if (char === "-" && next === "-") {
+			const end = sql.indexOf("\n", i);
+			i = end === -1 ? sql.length : end + 1;
+			continue;
+		}
+
+		// Block comment (Postgres allows nesting)
+		if (char === "/" && next === "*") {
+			i = skipBlockComment(sql, i);
+			continue;
+		}
+
+		if (char === ";") {
+			endStatement(i);
+			i++;
+			continue;
+		}
+
+		// String constants, including E'', B'', X'', N'' and U&'' prefixes
+		const prefix = sql.slice(i, i + 3).toLowerCase();
+		if (char === "'" || (/[ebxn]/i.test(char) && next === "'") || (prefix.startsWith("u&") && prefix[2] === "'")) {
+			const quoteStart = char === "'" ? i : prefix.startsWith("u&") ? i + 2 : i + 1;
+			const backslashEscapes = char.toLowerCase() === "e" && next === "'";
+			const [value, end] = readQuoted(sql, quoteStart, "'", backslashEscapes);
+			tokens.push({ type: "string", value });
+			i = end;
+			continue;
+		}
+
+		// Quoted identifier, optionally U&""
+		if (char === '"' || (prefix.startsWith("u&") && prefix[2] === '"')) {
+			const [value, end] = readQuoted(sql, char === '"' ? i : i + 2, '"', false);
+			tokens.push({ type: "identifier", value });
+			i = end;
+			continue;
+		}
+
+		// Dollar-quoted string ($$...$$ or $tag$...$tag$) or positional parameter ($1)
+		if (char === "$") {
+			const parameter = /^\$(\d+)/.exec(sql.slice(i));
+			if (parameter) {
+				tokens.push({ type: "parameter", value: parameter[0] });
+				i += parameter[0].length;
+				continue;
+			}
+			const tag = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i));
+			if (tag) {
+				const end = sql.indexOf(tag[0], i + tag[0].length);
+				if (end === -1) {
+					throw new SqlParseError("Unterminated dollar-quoted string");
+				}
+				tokens.push({ type: "string", value: sql.slice(i + tag[0].length, end) });
+				i = end + tag[0].length;
+				continue;
+			}
+		}
+
+		if (WORD_START.test(char)) {
+			let end = i + 1;
+			while (end < sql.length && WORD_PART.test(sql[end])) end++;
+			tokens.push({ type: "word", value: sql.slice(i, end).toLowerCase() });
+			i = end;
+			continue;
+		}
+
+		if (DIGIT.test(char) || (char === "." && next !== undefined && DIGIT.test(next))) {
+			const number = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(sql.slice(i))!;
+			tokens.push({ type: "number", value: number[0] });
+			i += number[0].length;
+			continue;
+		}
+
+		if (PUNCTUATION.has(char)) {
+			tokens.push({ type: "punctuation", value: char });
+			i++;
+			continue;
+		}
+
+		if (OPERATOR_CHARS.test(char)) {
+			let end = i + 1;
+			while (end < sql.length && OPERATOR_CHARS.test(sql[end]) && !sql.startsWith("--", end) && !sql.startsWith("/*", end)) {
+				end++;
+			}
+			tokens.push({ type: "operator", value: sql.slice(i, end) });
+			i = end;
+			continue;
+		}
+
+		throw new SqlParseError(`Unexpected character "${char}" at position ${i}`);
+	}
+
+	endStatement(sql.length);
+	return statements;
+}
+
+function skipBlockComment(sql: string, start: number): number {
+	let depth = 0;
+	let i = start;
+	while (i < sql.length) {
+		if (sql.startsWith("/*", i)) {
+			depth++;
+			i += 2;
+		} else if (sql.startsWith("*/", i)) {
+			depth--;
+			i += 2;
+			if (depth === 0) return i;
+		} else {
+			i++;
+		}
+	}
+	throw new SqlParseError("Unterminated block comment");
+}
+
+function readQuoted(sql: string, start: number, quote: string, backslashEscapes: boolean): [string, number] {
+	let value = "";
+	let i = start + 1;
+	while (i < sql.length) {
+		const char = sql[i];
+		if (backslashEscapes && char === "\\") {
+			value += sql.slice(i, i + 2);
+			i += 2;
+			continue;
+		}
+		if (char === quote) {
+			// A doubled quote is an escaped quote
+			if (sql[i + 1] === quote) {
+				value += quote;
+				i += 2;
+				continue;
+			}
+			return [value, i + 1];
+		}
+		value += char;
+		i++;
+	}
+	throw new SqlParseError(quote === "'" ? "Unterminated string literal" : "Unterminated quoted identifier");
+}
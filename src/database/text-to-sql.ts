@@ -0,0 +1,106 @@
+// Natural-language questions to SQL with the Workers AI binding
+//
+// askDatabase describes the database to the model with the structure listTables gathers, rendered
+// as DDL, and asks for a single read-only query answering the question. The model only sees the
+// schema, never data. Its SQL goes through the same read-only checks as queryDatabase before it runs.
+
+import { quoteIdentifier, renderTableDdl, type SchemaInfo } from "./introspection";
+
+export const DEFAULT_TEXT_TO_SQL_MODEL = "@cf/meta/llama-3.3-70b-instruct-fp8-fast";
+
+// Keeps the prompt within the model's context window; tables past it are listed by name only
+const MAX_SCHEMA_PROMPT_CHARS = 24_000;
+
+// Enough for a long query, short enough to cut off a model that starts explaining
+const MAX_SQL_TOKENS = 1024;
+
+// The model replies with this prefix when the schema cannot answer the question
+const CANNOT_ANSWER = "CANNOT_ANSWER:";
+
+export interface TextToSqlMessage {
+	role: "system" | "user";
+	content: string;
+}
+
+/**
+ * Read the model used by askDatabase from the environment (AI_SQL_MODEL)
+ */
+export function getTextToSqlModel(env: Env): string {
+	return env.AI_SQL_MODEL || DEFAULT_TEXT_TO_SQL_MODEL;
+}
+
+/**
+ * Build the chat messages asking for SQL that answers a question about the given schema
+ */
+export function buildSqlPrompt(schema: SchemaInfo, question: string, maxRows: number): TextToSqlMessage[] {
+	const sections: string[] = [];
+	const omitted: string[] = [];
+	let length = 0;
+
+	for (const enumType of schema.enums) {
+		const values = enumType.values.map((value) => `'${value.replace(/'/g, "''")}'`).join(", ");
+		const ddl = `CREATE TYPE ${quoteIdentifier(enumType.schema)}.${quoteIdentifier(enumType.name)} AS ENUM (${values});`;
+		sections.push(ddl);
+		length += ddl.length;
+	}
+	for (const table of schema.tables) {
+		const ddl = renderTableDdl(table);
+		if (length + ddl.length > MAX_SCHEMA_PROMPT_CHARS) {
+			omitted.push(`${table.schema}.${table.name}`);
+			continue;
+		}
+		sections.push(ddl);
+		length += ddl.length;
+	}
+	if (omitted.length > 0) {
+		sections.push(`-- More tables, columns not shown: ${omitted.join(", ")}`);
+	}
+
+	const system = [
+		"You write PostgreSQL queries that answer questions about the database described below.",
+		"Reply with a single read-only SQL query (SELECT or WITH) and nothing else: no explanation, no comments and no markdown.",
+		"Only use tables and columns from the schema, qualified with their schema name. Quote identifiers that need quoting.",
+		`Unless the question asks for an aggregate, add LIMIT ${maxRows} or less.`,
+		`If the schema cannot answer the question, reply with ${CANNOT_ANSWER} followed by the reason.`,
+		"",
+		"Schema:",
+		sections.length > 0 ? sections.join("\n\n") : "-- The database has no tables.",
+	].join("\n");
+
+	return [
+		{ role: "system", content: system },
+		{ role: "user", content: question },
+	];
+}
+
+/**
+ * Ask the model for SQL. Returns the SQL, or an error when the model gives no query.
+ */
+export async function generateSql(ai: Ai, model: string, messages: TextToSqlMessage[]): Promise<{ sql: string } | { error: string }> {
+	// Any text generation model can be configured, including ones missing from the generated AiModels list
+	const textGeneration = ai as unknown as Ai<Record<string, BaseAiTextGeneration>>;
+	const output: AiTextGenerationOutput = await textGeneration.run(model, { messages, max_tokens: MAX_SQL_TOKENS, temperature: 0 });
+	const response = output?.response;
+	if (typeof response !== "string") {
+		return { error: "The model returned no response" };
+	}
+	return extractSql(response);
+}
+
+/**
+ * Take the SQL out of a model response, which may wrap it in a markdown code block
+ */
+export function extractSql(response: string): { sql: string } | { error: string } {
+	let text = response.trim();
+	const fenced = /```(?:sql)?\s*([\s\S]*?)```/i.exec(text);
+	if (fenced) {
+		text = fenced[1].trim();
+	}
+
+	if (text.startsWith(CANNOT_ANSWER)) {
+		return { error: `The question cannot be answered from the database schema: ${text.slice(CANNOT_ANSWER.length).trim()}` };
+	}
+
+	const sql = text.replace(/;\s*$/, "").trim();
+	return sql ? { sql } : { error: "The model did not return a SQL query" };
+}
@@ -0,0 +1,158 @@
+import postgres from "postgres";
+
+export type QueryTimeoutProfile = "query" | "execute";
+
+export interface QueryTimeouts {
+	statementTimeoutMs: number; // 0 disables the timeout
+	lockTimeoutMs: number; // 0 disables the timeout
+}
+
+// Reads should be quick; writes and DDL get longer, and wait longer for locks
+export const DEFAULT_QUERY_TIMEOUTS: Record<QueryTimeoutProfile, QueryTimeouts> = {
+	query: { statementTimeoutMs: 30_000, lockTimeoutMs: 5_000 },
+	execute: { statementTimeoutMs: 120_000, lockTimeoutMs: 10_000 },
+};
+
+const ENV_PREFIXES: Record<QueryTimeoutProfile, string> = {
+	query: "QUERY",
+	execute: "EXECUTE",
+};
+
+/**
+ * Raised when Postgres stops a statement because of a timeout or because the
+ * MCP client cancelled the request. The message is safe to show to the user.
+ */
+export class QueryAbortedError extends Error {
+	constructor(
+		readonly reason: "statement_timeout" | "lock_timeout" | "cancelled",
+		message: string,
+	) {
+		super(message);
+		this.name = "QueryAbortedError";
+	}
+}
+
+/**
+ * Read the timeouts for a tool from the environment: QUERY_STATEMENT_TIMEOUT_MS and
+ * QUERY_LOCK_TIMEOUT_MS for read tools, EXECUTE_STATEMENT_TIMEOUT_MS and EXECUTE_LOCK_TIMEOUT_MS
+ * for executeDatabase.
+ */
+export function getQueryTimeouts(env: Env, profile: QueryTimeoutProfile): QueryTimeouts {
+	const prefix = ENV_PREFIXES[profile];
+	const defaults = DEFAULT_QUERY_TIMEOUTS[profile];
+	return {
+		statementTimeoutMs: parseTimeout((env as any)[`${prefix}_STATEMENT_TIMEOUT_MS`]) ?? defaults.statementTimeoutMs,
+		lockTimeoutMs: parseTimeout((env as any)[`${prefix}_LOCK_TIMEOUT_MS`]) ?? defaults.lockTimeoutMs,
+	};
+}
+
+/**
+ * Run an operation with statement_timeout and lock_timeout applied, cancelling the running
+ * statement when `signal` aborts (the MCP client cancelled the request).
+ *
+ * With `readOnly` the operation runs in a READ ONLY transaction and the timeouts are set with
+ * SET LOCAL. Otherwise a pooled connection is reserved and the timeouts are set for the session
+ * and reset afterwards, so statements that cannot run in a transaction block (VACUUM,
+ * CREATE INDEX CONCURRENTLY) keep working.
+ *
+ * With `connection` the operation runs on that connection, which is already inside an open
+ * transaction (see src/database/transactions.ts), and the timeouts are set with SET LOCAL.
+ */
+export async function withQueryTimeouts<T>(
+	db: postgres.Sql,
+	options: { timeouts: QueryTimeouts; signal?: AbortSignal; readOnly?: boolean; connection?: postgres.Sql },
+	operation: (sql: postgres.Sql) => Promise<T>,
+): Promise<T> {
+	const { timeouts, signal, readOnly, connection: transaction } = options;
+	if (signal?.aborted) {
+		throw cancelledError();
+	}
+
+	try {
+		if (transaction) {
+			return await runGuarded(db, transaction, timeouts, true, signal, operation);
+		}
+		if (readOnly) {
+			// begin() types its result as UnwrapPromiseArray<T>, which is T for the values returned here
+			return (await db.begin("read only", (tx) => runGuarded(db, tx, timeouts, true, signal, operation))) as T;
+		}
+
+		const connection = await db.reserve();
+		try {
+			return await runGuarded(db, connection, timeouts, false, signal, operation);
+		} finally {
+			try {
+				await connection.unsafe("RESET statement_timeout");
+				await connection.unsafe("RESET lock_timeout");
+			} catch (error) {
+				console.error("Failed to reset query timeouts:", error);
+			}
+			connection.release();
+		}
+	} catch (error) {
+		throw toQueryAbortedError(error, timeouts, signal) ?? error;
+	}
+}
+
+/**
+ * Map Postgres cancellation errors (SQLSTATE 57014 query_canceled, 55P03 lock_not_available)
+ * to a QueryAbortedError that explains which limit was hit
+ */
+export function toQueryAbortedError(error: unknown, timeouts: QueryTimeouts, signal?: AbortSignal): QueryAbortedError | undefined {
+	if (error instanceof QueryAbortedError) return error;
+	const code = (error as { code?: unknown } | null)?.code;
+	const message = error instanceof Error ? error.message : "";
+
+	if (code === "57014" && message.includes("statement timeout")) {
+		return new QueryAbortedError(
+			"statement_timeout",
+			`Query aborted due to timeout: it ran longer than the statement timeout of ${timeouts.statementTimeoutMs} ms. Add filters on indexed columns or a LIMIT, or use \`explainQuery\` to see why it is slow.`,
+		);
+	}
+	if (code === "55P03" && message.includes("lock timeout")) {
+		return new QueryAbortedError(
+			"lock_timeout",
+			`Query aborted due to timeout: it waited longer than the lock timeout of ${timeouts.lockTimeoutMs} ms for a lock held by another transaction. Try again later.`,
+		);
+	}
+	if (code === "57014" && signal?.aborted) {
+		return cancelledError();
+	}
+	return undefined;
+}
+
+async function runGuarded<T>(
+	db: postgres.Sql,
+	connection: postgres.Sql,
+	timeouts: QueryTimeouts,
+	local: boolean,
+	signal: AbortSignal | undefined,
+	operation: (sql: postgres.Sql) => Promise<T>,
+): Promise<T> {
+	const [{ pid }] = await connection.unsafe(
+		`SELECT pg_backend_pid() AS pid, set_config('statement_timeout', $1, $3), set_config('lock_timeout', $2, $3)`,
+		[String(timeouts.statementTimeoutMs), String(timeouts.lockTimeoutMs), local],
+	);
+
+	// The connection is busy running the statement, so the cancel request goes through another pooled connection
+	const cancel = () => {
+		db.unsafe("SELECT pg_cancel_backend($1)", [pid]).catch((error) => {
+			console.error("Failed to cancel query:", error);
+		});
+	};
+	signal?.addEventListener("abort", cancel, { once: true });
+	try {
+		return await operation(connection);
+	} finally {
+		signal?.removeEventListener("abort", cancel);
+	}
+}
+
+function cancelledError(): QueryAbortedError {
+	return new QueryAbortedError("cancelled", "Query cancelled: the request was cancelled by the client.");
+}
+
+function parseTimeout(value: unknown): number | undefined {
+	const parsed = Number.parseInt(String(value ?? ""), 10);
+	return Number.isInteger(parsed) && parsed >= 0 ? parsed : undefined;
+}
@@ -0,0 +1,172 @@
+// Multi-statement transactions across tool calls
+//
+// beginTransaction reserves a pooled connection and opens a transaction on it. The connection stays
+// pinned to the MCP session (the MyMCP Durable Object owns the manager) until commitTransaction or
+// rollbackTransaction, and executeDatabase runs statements on it when given the transaction ID.
+// Abandoned transactions are rolled back after TRANSACTION_IDLE_TIMEOUT_MS without a statement, so
+// they cannot hold locks or a pool connection indefinitely.
+
+import postgres from "postgres";
+import { getDb } from "./connection";
+import type { DatabaseConfig } from "./databases";
+
+export const DEFAULT_TRANSACTION_IDLE_TIMEOUT_MS = 120_000;
+
+// Postgres ends the session itself this long after our idle timeout, in case the Worker goes away first
+const SERVER_IDLE_TIMEOUT_GRACE_MS = 30_000;
+
+// One open transaction per session keeps the other pooled connections free for the remaining tools
+const MAX_OPEN_TRANSACTIONS = 1;
+
+// Remember why recently closed transactions ended, to explain later calls that still use their ID
+const MAX_CLOSED_TRANSACTIONS = 20;
+
+export type IsolationLevel = "read committed" | "repeatable read" | "serializable";
+
+export interface OpenTransaction {
+	id: string;
+	database: DatabaseConfig;
+	isolationLevel: IsolationLevel;
+	connection: postgres.ReservedSql;
+	startedAt: number;
+}
+
+export interface TransactionManager {
+	active(): OpenTransaction | undefined;
+	begin(database: DatabaseConfig, isolationLevel?: IsolationLevel): Promise<OpenTransaction>;
+	get(id: string): { transaction: OpenTransaction } | { error: string };
+	run<T>(transaction: OpenTransaction, operation: (connection: postgres.Sql) => Promise<T>): Promise<T>;
+	commit(transaction: OpenTransaction): Promise<void>;
+	rollback(transaction: OpenTransaction): Promise<void>;
+	close(): Promise<void>;
+}
+
+/**
+ * Read the idle timeout for open transactions from the environment (TRANSACTION_IDLE_TIMEOUT_MS)
+ */
+export function getTransactionIdleTimeout(env: Env): number {
+	const configured = Number.parseInt(String((env as any).TRANSACTION_IDLE_TIMEOUT_MS ?? ""), 10);
+	return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_TRANSACTION_IDLE_TIMEOUT_MS;
+}
+
+/**
+ * Create the transaction manager for one MCP session.
+ * Call close() when the session ends to roll back whatever is still open.
+ */
+export function createTransactionManager(env: Env): TransactionManager {
+	const idleTimeoutMs = getTransactionIdleTimeout(env);
+	const open = new Map<string, { transaction: OpenTransaction; timer?: ReturnType<typeof setTimeout>; busy: number }>();
+	const closed = new Map<string, string>();
+
+	const remember = (id: string, reason: string) => {
+		closed.set(id, reason);
+		if (closed.size > MAX_CLOSED_TRANSACTIONS) {
+			closed.delete(closed.keys().next().value!);
+		}
+	};
+
+	const armIdleTimer = (id: string) => {
+		const entry = open.get(id);
+		if (!entry || entry.busy > 0) return;
+		clearTimeout(entry.timer);
+		entry.timer = setTimeout(() => {
+			finish(entry.transaction, "ROLLBACK", `was rolled back after ${Math.round(idleTimeoutMs / 1000)} seconds without a statement`).catch(
+				(error) => console.error(`Failed to roll back idle transaction ${id}:`, error),
+			);
+		}, idleTimeoutMs);
+	};
+
+	// End the transaction and return its connection to the pool, even when COMMIT or ROLLBACK fails
+	const finish = async (transaction: OpenTransaction, statement: "COMMIT" | "ROLLBACK", reason: string) => {
+		const entry = open.get(transaction.id);
+		if (!entry) return;
+		clearTimeout(entry.timer);
+		open.delete(transaction.id);
+		remember(transaction.id, reason);
+		try {
+			await transaction.connection.unsafe(statement);
+		} finally {
+			transaction.connection.release();
+		}
+	};
+
+	return {
+		active() {
+			const [entry] = open.values();
+			return entry?.transaction;
+		},
+
+		// Callers check active() first to report an open transaction to the user
+		async begin(database, isolationLevel = "read committed") {
+			if (open.size >= MAX_OPEN_TRANSACTIONS) {
+				throw new Error("Another transaction is still open");
+			}
+
+			const connection = await getDb(database.url).reserve();
+			try {
+				await connection.unsafe(`BEGIN ISOLATION LEVEL ${isolationLevel.toUpperCase()}`);
+				await connection.unsafe("SELECT set_config('idle_in_transaction_session_timeout', $1, true)", [
+					String(idleTimeoutMs + SERVER_IDLE_TIMEOUT_GRACE_MS),
+				]);
+			} catch (error) {
+				await connection.unsafe("ROLLBACK").catch(() => {});
+				connection.release();
+				throw error;
+			}
+
+			const transaction: OpenTransaction = { id: createTransactionId(), database, isolationLevel, connection, startedAt: Date.now() };
+			open.set(transaction.id, { transaction, busy: 0 });
+			armIdleTimer(transaction.id);
+			return transaction;
+		},
+
+		get(id) {
+			const entry = open.get(id);
+			if (entry) return { transaction: entry.transaction };
+			const reason = closed.get(id);
+			return {
+				error: reason
+					? `Transaction ${id} is no longer open: it ${reason}. Start a new one with \`beginTransaction\`.`
+					: `Unknown transaction ${id}. Start one with \`beginTransaction\`.`,
+			};
+		},
+
+		// The idle timer is paused while a statement runs, so a long statement is never rolled back underneath
+		async run(transaction, operation) {
+			const entry = open.get(transaction.id);
+			if (!entry) throw new Error(`Transaction ${transaction.id} is no longer open`);
+			clearTimeout(entry.timer);
+			entry.busy++;
+			try {
+				return await operation(transaction.connection);
+			} finally {
+				entry.busy--;
+				armIdleTimer(transaction.id);
+			}
+		},
+
+		commit(transaction) {
+			return finish(transaction, "COMMIT", "was committed");
+		},
+
+		rollback(transaction) {
+			return finish(transaction, "ROLLBACK", "was rolled back");
+		},
+
+		async close() {
+			for (const { transaction } of Array.from(open.values())) {
+				try {
+					await finish(transaction, "ROLLBACK", "was rolled back when the session ended");
+				} catch (error) {
+					console.error(`Failed to roll back transaction ${transaction.id}:`, error);
+				}
+			}
+		},
+	};
+}
+
+function createTransactionId(): string {
+	const bytes = new Uint8Array(8);
+	crypto.getRandomValues(bytes);
+	return `tx_${Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")}`;
+}
@@ -1,5 +1,6 @@
 import postgres from "postgres";
 import { getDb } from "./connection";
+import type { SqlParam } from "../types";
 
 /**
  * Execute a database operation with proper connection management
@@ -24,4 +25,12 @@ export async function withDatabase<T>(
 	}
 	// Note: With PostgreSQL connection pooling, we don't close individual connections
 	// They're returned to the pool automatically. The pool is closed when the Durable Object shuts down.
-}
\ No newline at end of file
+}
+
+/**
+ * Convert tool parameters for binding to $1..$n placeholders.
+ * Objects and arrays are serialized as JSON so they can be used with json/jsonb columns.
+ */
+export function toSqlParameters(params: SqlParam[] = []): (string | number | boolean | null)[] {
+	return params.map((param) => (param !== null && typeof param === "object" ? JSON.stringify(param) : param));
+}
@@ -0,0 +1,341 @@
+import postgres from "postgres";
+import { parseSqlStatements, type SqlToken } from "./sql-parser";
+import { formatResultRows, normalizeValue, type ResultFormat } from "./formatters";
+import { quoteIdentifier } from "./introspection";
+
+// Writes affecting more rows than this are rolled back until confirmed (EXECUTE_CONFIRM_ROWS)
+export const DEFAULT_CONFIRM_ROW_LIMIT = 1000;
+
+export const CONFIRMATION_TTL_SECONDS = 300;
+
+// Rows shown before and after the change in a dry run
+export const DRY_RUN_SAMPLE_ROWS = 5;
+
+const CONFIRMATION_KV_PREFIX = "write-confirmation:";
+
+// Single statements whose changed rows can be sampled with RETURNING
+const DML_STATEMENTS = new Set(["insert", "update", "delete"]);
+
+// Statements that change rows, also inside a WITH query or after EXPLAIN ANALYZE
+const ROW_CHANGING_STATEMENTS = new Set([...DML_STATEMENTS, "merge"]);
+
+// Tokens a row-changing statement can follow, unlike e.g. FOR UPDATE, ON DELETE or DO UPDATE
+const ROW_CHANGE_PREFIXES = new Set(["(", ")", "analyze", "verbose"]);
+
+const AFFECTED_ROWS_COLUMN = "__dry_run_affected_rows";
+
+// Statements around a guarded write; inside an open transaction a savepoint takes the place of the transaction
+const WRITE_BOUNDARIES = {
+	transaction: { begin: "BEGIN", commit: ["COMMIT"], rollback: ["ROLLBACK"] },
+	savepoint: {
+		begin: "SAVEPOINT write_guard",
+		commit: ["RELEASE SAVEPOINT write_guard"],
+		rollback: ["ROLLBACK TO SAVEPOINT write_guard", "RELEASE SAVEPOINT write_guard"],
+	},
+};
+
+type WriteBoundaries = (typeof WRITE_BOUNDARIES)[keyof typeof WRITE_BOUNDARIES];
+
+/**
+ * How executeDatabase runs a statement:
+ * - execute: as submitted, outside a transaction (confirmed writes, DDL and maintenance)
+ * - guarded: single INSERT/UPDATE/DELETE/MERGE, possibly after WITH queries, in a transaction that is rolled back if too many rows change
+ * - dry-run: in a transaction that is always rolled back, with before/after samples
+ */
+export type WriteMode = "execute" | "guarded" | "dry-run";
+
+export interface WriteResult {
+	rows: unknown[];
+	columns?: readonly postgres.Column<string>[]; // Metadata of the columns of `rows`, see src/database/masking.ts
+	affectedRows: number;
+	committed: boolean;
+	before?: unknown[]; // Sample of the rows as they were (UPDATE, DELETE)
+	after?: unknown[]; // Sample of the rows as they would be (INSERT, UPDATE)
+}
+
+// An INSERT, UPDATE, DELETE or MERGE found in a statement
+interface RowChange {
+	keyword: string;
+	tokens: SqlToken[]; // From the keyword to the end of the enclosing parentheses
+	counted: boolean; // Whether it is the statement itself, so the statement's row count is its changed rows
+}
+
+// A dry-run statement waiting for confirmation; the token only confirms this exact write
+export interface PendingWrite {
+	sql: string;
+	params: (string | number | boolean | null)[];
+	database: string;
+	login: string;
+}
+
+/**
+ * Read the confirmation row limit from the environment (EXECUTE_CONFIRM_ROWS, 0 disables)
+ */
+export function getConfirmRowLimit(env: Env): number {
+	const configured = Number.parseInt(String((env as any).EXECUTE_CONFIRM_ROWS ?? ""), 10);
+	return Number.isInteger(configured) && configured >= 0 ? configured : DEFAULT_CONFIRM_ROW_LIMIT;
+}
+
+/**
+ * Return why a statement always needs a dry run and confirmation, or null.
+ * UPDATE and DELETE without WHERE (also inside a WITH query), TRUNCATE, DROP and ALTER are treated
+ * as high impact, and so are writes the row limit cannot count: data-modifying WITH queries,
+ * EXPLAIN ANALYZE of a write and several statements of which one changes rows.
+ */
+export function getHighImpactReason(sql: string): string | null {
+	const statements = parseSqlStatements(sql).map(({ tokens }) => ({ tokens, changes: findRowChanges(tokens) }));
+	for (const { tokens, changes } of statements) {
+		for (const { keyword, tokens: changeTokens } of changes) {
+			if ((keyword === "update" || keyword === "delete") && !hasTopLevelWord(changeTokens, "where")) {
+				return `${keyword.toUpperCase()} without a WHERE clause changes every row of the table`;
+			}
+		}
+		const keyword = firstWord(tokens);
+		if (keyword === "truncate" || keyword === "drop") {
+			return `${keyword.toUpperCase()} permanently removes data`;
+		}
+		if (keyword === "alter") {
+			return "ALTER changes the structure of the database and can remove data";
+		}
+	}
+
+	const uncounted = statements.flatMap(({ changes }) => changes).find((change) => !change.counted);
+	if (uncounted) {
+		return `${uncounted.keyword.toUpperCase()} inside another statement changes rows the row limit cannot count`;
+	}
+	if (statements.length > 1 && statements.some(({ changes }) => changes.length > 0)) {
+		return "Several statements change rows together, so the row limit cannot be checked for each of them";
+	}
+	return null;
+}
+
+/**
+ * Choose how to run a statement. Confirmed writes run as submitted; dry runs and high-impact
+ * statements are rolled back; other single INSERT/UPDATE/DELETE/MERGE statements are guarded by the row limit.
+ */
+export function planWrite(sql: string, options: { dryRun?: boolean; confirmed?: boolean }): { mode: WriteMode; reason?: string } {
+	if (options.confirmed) return { mode: "execute" };
+
+	const reason = getHighImpactReason(sql);
+	if (options.dryRun || reason) return { mode: "dry-run", reason: reason ?? undefined };
+
+	const statements = parseSqlStatements(sql);
+	const changes = statements.length === 1 ? findRowChanges(statements[0].tokens) : [];
+	return { mode: changes.some((change) => change.counted) ? "guarded" : "execute" };
+}
+
+/**
+ * Run a statement on a reserved connection in the given mode.
+ * With `inOpenTransaction` the connection is inside a transaction from beginTransaction: the statement
+ * runs in a savepoint, so a failed or rolled-back statement leaves the rest of the transaction intact,
+ * and `committed` means the changes were kept in that transaction.
+ */
+export async function runWrite(
+	connection: postgres.Sql,
+	sql: string,
+	params: (string | number | boolean | null)[],
+	mode: WriteMode,
+	rowLimit: number,
+	inOpenTransaction = false,
+): Promise<WriteResult> {
+	const boundaries = inOpenTransaction ? WRITE_BOUNDARIES.savepoint : WRITE_BOUNDARIES.transaction;
+	if (mode === "dry-run") {
+		return inTransaction(connection, boundaries, () => dryRunStatement(connection, sql, params), () => false);
+	}
+
+	const run = async (): Promise<WriteResult> => {
+		const result = await connection.unsafe(sql, params);
+		return { rows: Array.from(result), columns: result.columns, affectedRows: result.count ?? result.length, committed: true };
+	};
+	if (mode === "execute") {
+		return inOpenTransaction ? inTransaction(connection, boundaries, run, () => true) : run();
+	}
+	return inTransaction(connection, boundaries, run, (result) => rowLimit <= 0 || result.affectedRows <= rowLimit);
+}
+
+/**
+ * Store a pending write in KV and return the single-use token that confirms it
+ */
+export async function createConfirmationToken(kv: KVNamespace, write: PendingWrite): Promise<string> {
+	const bytes = new Uint8Array(24);
+	crypto.getRandomValues(bytes);
+	const token = btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+	await kv.put(`${CONFIRMATION_KV_PREFIX}${token}`, JSON.stringify(write), { expirationTtl: CONFIRMATION_TTL_SECONDS });
+	return token;
+}
+
+/**
+ * Check a confirmation token against the write being confirmed and delete it (single use).
+ * Returns false if the token is unknown, expired or was issued for a different write.
+ */
+export async function consumeConfirmationToken(kv: KVNamespace, token: string, write: PendingWrite): Promise<boolean> {
+	const key = `${CONFIRMATION_KV_PREFIX}${token}`;
+	const stored = await kv.get<PendingWrite>(key, "json");
+	if (
+		!stored ||
+		stored.sql !== write.sql ||
+		JSON.stringify(stored.params) !== JSON.stringify(write.params) ||
+		stored.database !== write.database ||
+		stored.login !== write.login
+	) {
+		return false;
+	}
+	await kv.delete(key);
+	return true;
+}
+
+/**
+ * Markdown report of a rolled-back write: affected rows and the before/after samples
+ */
+export function formatWriteReport(result: WriteResult, format: ResultFormat = "json"): string {
+	const lines = [`**Affected rows:** ${result.affectedRows}`];
+	if (result.before) lines.push("", `**Before (first ${DRY_RUN_SAMPLE_ROWS} rows):**`, formatResultRows(result.before, format));
+	if (result.after) lines.push("", `**After (first ${DRY_RUN_SAMPLE_ROWS} rows):**`, formatResultRows(result.after, format));
+	if (!result.before && !result.after && result.rows.length > 0) lines.push("", "**Results:**", formatResultRows(result.rows, format));
+	return lines.join("\n");
+}
+
+// Run the statement and collect samples; the caller rolls the transaction back
+async function dryRunStatement(
+	connection: postgres.Sql,
+	sql: string,
+	params: (string | number | boolean | null)[],
+): Promise<WriteResult> {
+	const statements = parseSqlStatements(sql);
+	const keyword = statements.length === 1 ? firstWord(statements[0].tokens) : undefined;
+	if (!keyword || !DML_STATEMENTS.has(keyword)) {
+		const result = await connection.unsafe(sql, params);
+		return { rows: Array.from(result), columns: result.columns, affectedRows: result.count ?? result.length, committed: false };
+	}
+
+	// Count the changed rows and keep a few of them, without transferring every row
+	const { text, tokens } = statements[0];
+	const returning = hasTopLevelWord(tokens, "returning") ? "" : "\nRETURNING *";
+	await connection.unsafe("SAVEPOINT dry_run");
+	const sampled = await connection.unsafe(
+		`WITH affected AS (\n${text}${returning}\n) SELECT (SELECT count(*) FROM affected)::int AS ${AFFECTED_ROWS_COLUMN}, affected.* FROM affected LIMIT ${DRY_RUN_SAMPLE_ROWS}`,
+		params,
+	);
+	const affectedRows = Number(sampled[0]?.[AFFECTED_ROWS_COLUMN] ?? 0);
+	const sample = sampled.map(({ [AFFECTED_ROWS_COLUMN]: _count, ...row }) => row);
+
+	if (keyword === "insert") return { rows: [], affectedRows, committed: false, after: sample };
+	if (keyword === "delete") return { rows: [], affectedRows, committed: false, before: sample };
+
+	// Undo the UPDATE and read the same rows again by primary key to show them unchanged
+	await connection.unsafe("ROLLBACK TO SAVEPOINT dry_run");
+	const table = updateTarget(tokens);
+	const before = table ? await readRowsByPrimaryKey(connection, table, sample) : undefined;
+	return { rows: [], affectedRows, committed: false, before, after: sample };
+}
+
+async function readRowsByPrimaryKey(connection: postgres.Sql, table: string, rows: Record<string, unknown>[]): Promise<unknown[] | undefined> {
+	const keys = await connection.unsafe(
+		`
+		SELECT a.attname AS name
+		FROM pg_catalog.pg_index i
+		JOIN pg_catalog.pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
+		WHERE i.indrelid = $1::regclass AND i.indisprimary
+		`,
+		[table],
+	);
+	const columns: string[] = keys.map((key) => key.name);
+	if (columns.length === 0 || rows.length === 0 || !columns.every((column) => column in rows[0])) {
+		return undefined;
+	}
+
+	const values = rows.flatMap((row) => columns.map((column) => normalizeValue(row[column]))) as (string | number | boolean | null)[];
+	const tuples = rows.map((_, r) => `(${columns.map((_, c) => `$${r * columns.length + c + 1}`).join(", ")})`);
+	const quoted = columns.map(quoteIdentifier).join(", ");
+	return Array.from(await connection.unsafe(`SELECT * FROM ${table} WHERE (${quoted}) IN (${tuples.join(", ")})`, values));
+}
+
+// Table name of an UPDATE statement as written, e.g. public.users or "My Table"
+function updateTarget(tokens: SqlToken[]): string | undefined {
+	let i = tokens.findIndex((token) => token.type === "word") + 1;
+	if (tokens[i]?.type === "word" && tokens[i].value === "only") i++;
+
+	const parts: string[] = [];
+	while (tokens[i]?.type === "word" || tokens[i]?.type === "identifier") {
+		const token = tokens[i];
+		parts.push(token.type === "identifier" ? quoteIdentifier(token.value) : token.value);
+		if (tokens[i + 1]?.type !== "punctuation" || tokens[i + 1].value !== ".") break;
+		i += 2;
+	}
+	return parts.length > 0 ? parts.join(".") : undefined;
+}
+
+async function inTransaction(
+	connection: postgres.Sql,
+	boundaries: WriteBoundaries,
+	operation: () => Promise<WriteResult>,
+	shouldCommit: (result: WriteResult) => boolean,
+): Promise<WriteResult> {
+	await connection.unsafe(boundaries.begin);
+	let result: WriteResult;
+	try {
+		result = await operation();
+	} catch (error) {
+		await runAll(connection, boundaries.rollback).catch(() => {});
+		throw error;
+	}
+	const commit = shouldCommit(result);
+	await runAll(connection, commit ? boundaries.commit : boundaries.rollback);
+	return { ...result, committed: commit };
+}
+
+async function runAll(connection: postgres.Sql, statements: string[]): Promise<void> {
+	for (const statement of statements) {
+		await connection.unsafe(statement);
+	}
+}
+
+// Find the INSERT, UPDATE, DELETE and MERGE statements in a statement's tokens, wherever they appear
+function findRowChanges(tokens: SqlToken[]): RowChange[] {
+	const changes: RowChange[] = [];
+	const statementKeyword = firstWord(tokens);
+	let depth = 0;
+	tokens.forEach((token, index) => {
+		if (token.type === "punctuation" && token.value === "(") depth++;
+		else if (token.type === "punctuation" && token.value === ")") depth--;
+		if (token.type !== "word" || !ROW_CHANGING_STATEMENTS.has(token.value)) return;
+
+		const previous = tokens[index - 1];
+		if (previous && !((previous.type === "punctuation" || previous.type === "word") && ROW_CHANGE_PREFIXES.has(previous.value))) return;
+		const changeTokens = enclosedTokens(tokens, index);
+		const isStatement =
+			token.value === "update" ? hasTopLevelWord(changeTokens, "set") : changeTokens[1]?.value === (token.value === "delete" ? "from" : "into");
+		if (!isStatement) return;
+
+		// The statement itself, or the main statement after its WITH queries
+		const counted = !previous || (statementKeyword === "with" && depth === 0 && previous.value === ")");
+		changes.push({ keyword: token.value, tokens: changeTokens, counted });
+	});
+	return changes;
+}
+
+// Tokens from `start` up to the parenthesis that closes the group it is in
+function enclosedTokens(tokens: SqlToken[], start: number): SqlToken[] {
+	let depth = 0;
+	let end = start;
+	for (; end < tokens.length; end++) {
+		if (tokens[end].type === "punctuation" && tokens[end].value === "(") depth++;
+		else if (tokens[end].type === "punctuation" && tokens[end].value === ")" && depth-- === 0) break;
+	}
+	return tokens.slice(start, end);
+}
+
+function firstWord(tokens: SqlToken[]): string | undefined {
+	return tokens.find((token) => token.type === "word")?.value;
+}
+
+// Whether a keyword appears outside parentheses, e.g. the statement's own WHERE and not a subquery's
+function hasTopLevelWord(tokens: SqlToken[], word: string): boolean {
+	let depth = 0;
+	for (const token of tokens) {
+		if (token.type === "punctuation" && token.value === "(") depth++;
+		else if (token.type === "punctuation" && token.value === ")") depth--;
+		else if (depth === 0 && token.type === "word" && token.value === word) return true;
+	}
+	return false;
+}
@@ -1,16 +1,18 @@
 import { Octokit } from "octokit";
+import type { UpstreamTokenSource } from "../types";
+import { withUpstreamToken } from "../auth/upstream-tokens";
 
 /**
- * Execute a GitHub API operation with proper error handling and authentication
+ * Execute a GitHub API operation with proper error handling and authentication.
+ * With a token source, an expiring or rejected (401) access token is refreshed and the operation retried once.
  */
 export async function withGitHub<T>(
-	accessToken: string,
+	accessToken: string | UpstreamTokenSource,
 	operation: (octokit: Octokit) => Promise<T>
 ): Promise<T> {
-	const octokit = new Octokit({ auth: accessToken });
 	const startTime = Date.now();
 	try {
-		const result = await operation(octokit);
+		const result = await withUpstreamToken(accessToken, (token) => operation(new Octokit({ auth: token })));
 		const duration = Date.now() - startTime;
 		console.log(`GitHub API operation completed successfully in ${duration}ms`);
 		return result;
@@ -3,6 +3,9 @@
  * Uses Google APIs client library for Gmail operations
  */
 
+import type { UpstreamTokenSource } from "../types";
+import { withUpstreamToken } from "../auth/upstream-tokens";
+
 /**
  * Gmail API client interface
  */
@@ -21,20 +24,21 @@ export interface GmailMessage {
 }
 
 /**
- * Execute a Gmail API operation with proper error handling and authentication
+ * Execute a Gmail API operation with proper error handling and authentication.
+ * With a token source, an expiring or rejected (401) access token is refreshed and the operation retried once.
  */
 export async function withGmail<T>(
-	accessToken: string,
+	accessToken: string | UpstreamTokenSource,
 	operation: (headers: Record<string, string>) => Promise<T>
 ): Promise<T> {
-	const headers = {
-		'Authorization': `Bearer ${accessToken}`,
-		'Content-Type': 'application/json',
-	};
-	
 	const startTime = Date.now();
 	try {
-		const result = await operation(headers);
+		const result = await withUpstreamToken(accessToken, (token) =>
+			operation({
+				'Authorization': `Bearer ${token}`,
+				'Content-Type': 'application/json',
+			})
+		);
 		const duration = Date.now() - startTime;
 		console.log(`Gmail API operation completed successfully in ${duration}ms`);
 		return result;
@@ -168,7 +172,7 @@ export function createGmailMessage(message: GmailMessage): string {
 /**
  * Send email using Gmail API
  */
-export async function sendGmailMessage(accessToken: string, message: GmailMessage): Promise<any> {
+export async function sendGmailMessage(accessToken: string | UpstreamTokenSource, message: GmailMessage): Promise<any> {
 	return await withGmail(accessToken, async (headers) => {
 		const encodedMessage = createGmailMessage(message);
 		
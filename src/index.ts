@@ -1,92 +1,20 @@
 import OAuthProvider from "@cloudflare/workers-oauth-provider";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { McpAgent } from "agents/mcp";
+import { env } from "cloudflare:workers";
 import { Props } from "./types";
 
 import { closeDb } from "./database/connection";
+import { createTransactionManager, type TransactionManager } from "./database/transactions";
 import { registerAllTools } from "./tools/register-tools";
-import { GitHubHandler } from "./auth/github-handler";
-import { GoogleHandler } from "./auth/google-handler";
-import { Auth0Handler } from "./auth/auth0-handler";
-import { KeycloakHandler } from "./auth/keycloak-handler";
-import { CustomOAuthHandler } from "./auth/custom-oauth-handler";
-import { Hono } from "hono";
+import { registerDatabasePrompts } from "./tools/database-prompts";
+import { createAuthRouter } from "./auth/auth-router";
+import { createTokenExchangeCallback } from "./auth/upstream-tokens";
+import { loadAccessPolicy, resolveRoles } from "./auth/access-policy";
+import { TOOL_SCOPES } from "./auth/scopes";
 
-// Create a routing handler that supports multiple providers
-const authRouter = new Hono();
-
-// Route to GitHub handler
-authRouter.route("/github", GitHubHandler);
-
-// Route to Google handler  
-authRouter.route("/google", GoogleHandler);
-
-// Route to Auth0 handler
-authRouter.route("/auth0", Auth0Handler);
-
-// Route to Keycloak handler
-authRouter.route("/keycloak", KeycloakHandler);
-
-// Route to Custom OAuth handler
-authRouter.route("/custom", CustomOAuthHandler);
-
-// Root authorize handler - detects available providers and redirects or shows selection
-authRouter.get("/authorize", async (c) => {
-  const env = c.env as any;
-  
-  // Detect which providers are configured
-  const providers = [];
-  if (env.GITHUB_CLIENT_ID) providers.push({ name: 'GitHub', path: '/github' });
-  if (env.GOOGLE_CLIENT_ID) providers.push({ name: 'Google', path: '/google' });
-  if (env.AUTH0_DOMAIN && env.AUTH0_CLIENT_ID) providers.push({ name: 'Auth0', path: '/auth0' });
-  if (env.KEYCLOAK_DOMAIN && env.KEYCLOAK_CLIENT_ID) providers.push({ name: 'Keycloak', path: '/keycloak' });
-  if (env.CUSTOM_OAUTH_URL) providers.push({ name: 'Custom OAuth', path: '/custom' });
-  
-  // If only one provider is configured, redirect directly to it
-  if (providers.length === 1) {
-    const queryString = c.req.url.includes('?') ? c.req.url.split('?')[1] : '';
-    const redirectUrl = `${providers[0].path}/authorize${queryString ? '?' + queryString : ''}`;
-    return c.redirect(redirectUrl);
-  }
-  
-  // If multiple providers, show selection page
-  if (providers.length > 1) {
-    const queryString = c.req.url.includes('?') ? c.req.url.split('?')[1] : '';
-    const html = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <title>Choose OAuth Provider</title>
-        <style>
-          body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; margin: 0; padding: 40px; background: #f5f5f5; }
-          .container { max-width: 400px; margin: 0 auto; background: white; padding: 32px; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.1); }
-          h1 { text-align: center; color: #333; margin-bottom: 24px; }
-          .provider { display: block; width: 100%; padding: 12px 16px; margin: 8px 0; border-radius: 6px; border: 1px solid #ddd; background: white; text-decoration: none; color: #333; transition: all 0.2s; }
-          .provider:hover { background: #f8f9fa; border-color: #007cba; transform: translateY(-1px); }
-          .provider-name { font-weight: 500; font-size: 16px; }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <h1>Choose Authentication Provider</h1>
-          ${providers.map(provider => 
-            `<a href="${provider.path}/authorize?${queryString}" class="provider">
-              <div class="provider-name">${provider.name}</div>
-            </a>`
-          ).join('')}
-        </div>
-      </body>
-      </html>
-    `;
-    return c.html(html);
-  }
-  
-  // No providers configured
-  return c.text("No OAuth providers configured. Please check your environment variables.", 500);
-});
-
-// Note: Generic callback handler removed - each provider now handles its own callbacks directly
-// This eliminates complex routing logic and prevents callback routing errors
+// Routing handler generated from the upstream provider registry (see src/auth/providers.ts)
+const authRouter = createAuthRouter();
 
 export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 	server = new McpServer({
@@ -94,11 +22,15 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 		version: "1.0.0",
 	});
 
+	// Transactions opened with beginTransaction, pinned to this session until committed or rolled back
+	private transactions?: TransactionManager;
+
 	/**
 	 * Cleanup database connections when Durable Object is shutting down
 	 */
 	async cleanup(): Promise<void> {
 		try {
+			await this.transactions?.close();
 			await closeDb();
 			console.log('Database connections closed successfully');
 		} catch (error) {
@@ -114,8 +46,15 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 	}
 
 	async init() {
+		// Resolve the user's roles from the current access policy
+		const roles = resolveRoles(await loadAccessPolicy(this.env), this.props);
+		this.transactions = createTransactionManager(this.env);
+
 		// Register all tools based on user permissions
-		registerAllTools(this.server, this.env, this.props);
+		registerAllTools(this.server, this.env, this.props, roles, this.transactions);
+
+		// Offer the saved queries library as prompts
+		await registerDatabasePrompts(this.server, this.env, this.props, roles);
 	}
 }
 
@@ -127,5 +66,8 @@ export default new OAuthProvider({
 	authorizeEndpoint: "/authorize",
 	clientRegistrationEndpoint: "/register",
 	defaultHandler: authRouter as any, // Use routing handler for multiple providers
+	scopesSupported: Object.keys(TOOL_SCOPES),
 	tokenEndpoint: "/token",
+	// Renew the upstream token alongside the MCP client's token refresh
+	tokenExchangeCallback: createTokenExchangeCallback(env),
 });
\ No newline at end of file
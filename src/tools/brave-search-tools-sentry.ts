@@ -21,12 +21,14 @@ import {
 	validateSearchParams,
 	type BraveSearchParams
 } from "../brave-search/utils";
+import { DEFAULT_ACCESS_POLICY, hasRole, resolveRoles } from "../auth/access-policy";
+import { hasScope } from "../auth/scopes";
 
-const ALLOWED_USERNAMES = new Set<string>([
-	// Add GitHub usernames of users who should have access to Brave Search operations
-	// For example: 'yourusername', 'coworkerusername'
-	'coleam00'
-]);
+// Role required by these tools, granted by the access policy (see src/auth/access-policy.ts)
+const REQUIRED_ROLE = "web-search";
+
+// Scope the client's grant must include (see src/auth/scopes.ts)
+const REQUIRED_SCOPE = "search:web";
 
 // Error handling helper for MCP tools with Sentry
 function handleError(error: unknown): { content: Array<{ type: "text"; text: string; isError?: boolean }> } {
@@ -90,8 +92,11 @@ function getBraveSearchApiKey(env: Env, requestHeaders?: Record<string, string>)
 export function registerBraveSearchToolsWithSentry(
 	server: McpServer, 
 	env: Env, 
-	props: Props
+	props: Props,
+	roles: ReadonlySet<string> = resolveRoles(DEFAULT_ACCESS_POLICY, props)
 ) {
+	if (!hasRole(roles, REQUIRED_ROLE) || !hasScope(props, REQUIRED_SCOPE)) return;
+
 	// Helper function to extract headers from MCP call context
 	// 
 	// MULTI-USER API KEY IMPLEMENTATION:
@@ -130,7 +135,7 @@ export function registerBraveSearchToolsWithSentry(
 		
 		return {};
 	}
-	// Tool 1: Web Search - Available to all authenticated users
+	// Tool 1: Web Search - Available to users with the web-search role
 	server.tool(
 		"webSearch",
 		"Perform web search using Brave Search API with comprehensive content filtering and security validation. Returns web results with titles, URLs, and descriptions. API Key: Provide your Brave Search API key via header 'X-Brave-Search-API-Key' or use server default.",
@@ -268,7 +273,7 @@ export function registerBraveSearchToolsWithSentry(
 		}
 	);
 
-	// Tool 2: News Search - Available to all authenticated users
+	// Tool 2: News Search - Available to users with the web-search role
 	server.tool(
 		"newsSearch",
 		"Search for news articles using Brave Search API with content filtering and recency options. Returns news results with titles, URLs, descriptions, and publication dates. API Key: Provide your Brave Search API key via header 'X-Brave-Search-API-Key' or use server default.",
@@ -0,0 +1,118 @@
+import { McpServer, type RegisteredPrompt } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { Props } from "../types";
+import { getAccessibleDatabases, selectDatabase } from "../database/databases";
+import { describeParameters, getSavedQuery, listSavedQueries, type SavedQuery, type SavedQuerySummary } from "../database/saved-queries";
+import { DEFAULT_ACCESS_POLICY, resolveRoles } from "../auth/access-policy";
+import { hasScope } from "../auth/scopes";
+
+// Same scope as the database read tools (see database-tools.ts)
+const READ_SCOPE = "db:read";
+
+// Saved query prompts of each server, so a query saved again updates its prompt
+const savedQueryPrompts = new WeakMap<McpServer, Map<string, RegisteredPrompt>>();
+
+/**
+ * Offer the saved queries library (see src/database/saved-queries.ts) as MCP prompts:
+ * - run-saved-query - run any saved query by name
+ * - one prompt per saved query the user can run, named after the query, with its parameters as arguments
+ * Queries saved later in the session are added by registerSavedQueryPrompt.
+ */
+export async function registerDatabasePrompts(
+	server: McpServer,
+	env: Env,
+	props: Props,
+	roles: ReadonlySet<string> = resolveRoles(DEFAULT_ACCESS_POLICY, props)
+): Promise<void> {
+	const kv: KVNamespace | undefined = (env as any).OAUTH_KV;
+	if (!kv || getAccessibleDatabases(env, roles, "read").length === 0 || !hasScope(props, READ_SCOPE)) {
+		return;
+	}
+
+	// The prompts capability can only be declared before the client connects, and registering a
+	// prompt declares it; this prompt is always there, so queries saved later can still be added
+	server.prompt(
+		"run-saved-query",
+		"Run a query from the saved queries library by name",
+		{
+			name: z.string().describe("Name of the saved query, from listSavedQueries"),
+			params: z.string().optional().describe("Values for the query's parameters, as a JSON object"),
+		},
+		async ({ name, params }) => {
+			const query = await loadSavedQuery(env, roles, name);
+			let values: Record<string, unknown> | undefined;
+			try {
+				values = params ? JSON.parse(params) : undefined;
+			} catch {
+				throw new Error("params must be a JSON object of parameter values");
+			}
+			return renderPrompt(query, values);
+		}
+	);
+
+	try {
+		for (const query of await listSavedQueries(kv)) {
+			if (!("error" in selectDatabase(env, roles, query.database, "read"))) {
+				registerSavedQueryPrompt(server, env, roles, query);
+			}
+		}
+	} catch (error) {
+		// The tools still work without the prompts
+		console.error("Failed to load saved query prompts:", error);
+	}
+}
+
+/**
+ * Offer a saved query as a prompt named after it, or update the prompt when the query was saved again
+ */
+export function registerSavedQueryPrompt(
+	server: McpServer,
+	env: Env,
+	roles: ReadonlySet<string>,
+	query: Pick<SavedQuerySummary, "name" | "description" | "parameters">
+) {
+	const argsSchema = Object.fromEntries(query.parameters.map((name) => [name, z.string().describe(`Value for the ${name} parameter`)]));
+
+	let prompts = savedQueryPrompts.get(server);
+	if (!prompts) {
+		prompts = new Map();
+		savedQueryPrompts.set(server, prompts);
+	}
+	const existing = prompts.get(query.name);
+	if (existing) {
+		existing.update({ description: query.description, argsSchema });
+		return;
+	}
+	prompts.set(
+		query.name,
+		server.prompt(query.name, query.description, argsSchema, async (values) => renderPrompt(await loadSavedQuery(env, roles, query.name), values))
+	);
+}
+
+// Saved queries of databases the user cannot read are treated as missing
+async function loadSavedQuery(env: Env, roles: ReadonlySet<string>, name: string): Promise<SavedQuery> {
+	const query = await getSavedQuery((env as any).OAUTH_KV, name);
+	if (!query || "error" in selectDatabase(env, roles, query.database, "read")) {
+		throw new Error(`There is no saved query named ${name}`);
+	}
+	return query;
+}
+
+// Ask the model to run the query with runSavedQuery, which checks access and parameters
+function renderPrompt(query: SavedQuery, values?: Record<string, unknown>) {
+	const lines = [
+		`Run the saved query \`${query.name}\` with the \`runSavedQuery\` tool and summarize the results.`,
+		"",
+		`**Description:** ${query.description}`,
+		`**Database:** ${query.database}`,
+		query.parameters.length > 0 && values ? `**Parameter values:** \`${JSON.stringify(values)}\`` : describeParameters(query),
+		"",
+		"```sql",
+		query.sql,
+		"```",
+	];
+	return {
+		description: query.description,
+		messages: [{ role: "user" as const, content: { type: "text" as const, text: lines.join("\n") } }],
+	};
+}
@@ -0,0 +1,168 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Props } from "../types";
+import { withDatabase } from "../database/utils";
+import { formatDatabaseError } from "../database/security";
+import { formatResultRows } from "../database/formatters";
+import { getQueryTimeouts, withQueryTimeouts } from "../database/timeouts";
+import { introspectDatabase, quoteIdentifier, renderTableDdl, type TableInfo } from "../database/introspection";
+import { selectDatabase } from "../database/databases";
+import { loadResultMasking, maskResultRows } from "../database/masking";
+import { audited } from "../database/audit";
+import { DEFAULT_ACCESS_POLICY, resolveRoles } from "../auth/access-policy";
+import { hasScope } from "../auth/scopes";
+
+// Same scope as the database read tools (see database-tools.ts)
+const READ_SCOPE = "db:read";
+
+const SAMPLE_ROW_COUNT = 10;
+
+/**
+ * Expose each table and view as MCP resources so clients can attach schema context:
+ * - postgres://<schema>/<table>/schema - DDL and column documentation
+ * - postgres://<schema>/<table>/sample - the first rows of the table
+ * Resources describe the database the tools use by default (see src/database/databases.ts).
+ * Sample reads are recorded in the audit log like queryDatabase.
+ */
+export function registerDatabaseResources(
+	server: McpServer,
+	env: Env,
+	props: Props,
+	roles: ReadonlySet<string> = resolveRoles(DEFAULT_ACCESS_POLICY, props)
+) {
+	const selected = selectDatabase(env, roles, undefined, "read");
+	if ("error" in selected || !hasScope(props, READ_SCOPE)) {
+		return;
+	}
+	const { database } = selected;
+	const databaseUrl = database.url;
+
+	server.resource(
+		"table-schema",
+		new ResourceTemplate("postgres://{schema}/{table}/schema", {
+			list: async (extra) => {
+				const { tables } = await withDatabase(databaseUrl, (db) =>
+					withQueryTimeouts(db, { timeouts: getQueryTimeouts(env, "query"), signal: extra.signal, readOnly: true }, (tx) => introspectDatabase(tx))
+				);
+				return {
+					resources: tables.map((table) => ({
+						uri: tableUri(table, "schema"),
+						name: `${table.schema}.${table.name}`,
+						description: table.comment ?? `Schema of the ${table.type} ${table.schema}.${table.name}`,
+						mimeType: "text/markdown",
+					})),
+				};
+			},
+		}),
+		{
+			description: "DDL and column documentation for a table or view",
+			mimeType: "text/markdown",
+		},
+		async (uri, variables, extra) => {
+			const table = await findTable(env, databaseUrl, variables, extra.signal);
+			return {
+				contents: [{ uri: uri.href, mimeType: "text/markdown", text: renderTableDocs(table) }],
+			};
+		}
+	);
+
+	server.resource(
+		"table-sample",
+		new ResourceTemplate("postgres://{schema}/{table}/sample", { list: undefined }),
+		{
+			description: `The first ${SAMPLE_ROW_COUNT} rows of a table or view`,
+			mimeType: "text/markdown",
+		},
+		async (uri, variables, extra) => {
+			const table = await findTable(env, databaseUrl, variables, extra.signal);
+			const sql = `SELECT * FROM ${quoteIdentifier(table.schema)}.${quoteIdentifier(table.name)} LIMIT ${SAMPLE_ROW_COUNT}`;
+			try {
+				const masking = await loadResultMasking(env, roles);
+				const rows = await withDatabase(databaseUrl, async (db) => {
+					const sample = await audited(
+						env,
+						{ props, tool: "table-sample", database: database.name, sql },
+						() => withQueryTimeouts(db, { timeouts: getQueryTimeouts(env, "query"), signal: extra.signal, readOnly: true }, (tx) => tx.unsafe(sql)),
+						(sample) => ({ rowCount: sample.length })
+					);
+					// Sample rows are masked like query results
+					return maskResultRows(db, masking, Array.from(sample), sample.columns, { timeouts: getQueryTimeouts(env, "query"), signal: extra.signal });
+				});
+				return {
+					contents: [
+						{
+							uri: uri.href,
+							mimeType: "text/markdown",
+							text: `# Sample rows from ${table.schema}.${table.name}\n\n${formatResultRows(rows, "markdown")}`,
+						},
+					],
+				};
+			} catch (error) {
+				console.error("table-sample resource error:", error);
+				throw new Error(formatDatabaseError(error));
+			}
+		}
+	);
+}
+
+/**
+ * Markdown description of a table: comment, columns, relationships and DDL
+ */
+export function renderTableDocs(table: TableInfo): string {
+	const foreignKeys = new Map<string, string>();
+	for (const fk of table.foreignKeys ?? []) {
+		fk.columns.forEach((column, i) => {
+			foreignKeys.set(column, `${fk.references.schema}.${fk.references.table}.${fk.references.columns[i]}`);
+		});
+	}
+	const cell = (value: string) => value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+
+	const lines = [`# ${table.schema}.${table.name} (${table.type})`, ""];
+	if (table.comment) lines.push(table.comment, "");
+	if (table.estimatedRows !== undefined) lines.push(`Approximately ${table.estimatedRows} rows.`, "");
+
+	lines.push("## Columns", "", "| Column | Type | Nullable | Default | Description |", "| --- | --- | --- | --- | --- |");
+	for (const column of table.columns) {
+		const notes = [
+			table.primaryKey?.includes(column.name) ? "Primary key" : undefined,
+			foreignKeys.has(column.name) ? `References ${foreignKeys.get(column.name)}` : undefined,
+			column.comment,
+		].filter((note): note is string => Boolean(note));
+		lines.push(
+			`| ${cell(column.name)} | ${cell(column.type)} | ${column.nullable ? "yes" : "no"} | ${cell(column.default ?? "")} | ${cell(notes.join(". "))} |`
+		);
+	}
+
+	lines.push("", "## DDL", "", "```sql", renderTableDdl(table), "```");
+	return lines.join("\n");
+}
+
+function tableUri(table: TableInfo, resource: "schema" | "sample"): string {
+	return `postgres://${encodeURIComponent(table.schema)}/${encodeURIComponent(table.name)}/${resource}`;
+}
+
+// Look up the table named in a resource URI; only tables the user can see are found
+async function findTable(
+	env: Env,
+	databaseUrl: string,
+	variables: Record<string, string | string[]>,
+	signal?: AbortSignal
+): Promise<TableInfo> {
+	const schema = decodeURIComponent(String(variables.schema));
+	const name = decodeURIComponent(String(variables.table));
+
+	let tables: TableInfo[];
+	try {
+		({ tables } = await withDatabase(databaseUrl, (db) =>
+			withQueryTimeouts(db, { timeouts: getQueryTimeouts(env, "query"), signal, readOnly: true }, (tx) => introspectDatabase(tx, { schema }))
+		));
+	} catch (error) {
+		console.error("database resource error:", error);
+		throw new Error(formatDatabaseError(error));
+	}
+
+	const table = tables.find((t) => t.name === name);
+	if (!table) {
+		throw new Error(`Table ${schema}.${name} not found`);
+	}
+	return table;
+}
@@ -2,23 +2,92 @@ import * as Sentry from "@sentry/cloudflare";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { 
 	Props, 
+	ListDatabasesSchema,
 	ListTablesSchema, 
+	CompareSchemasSchema,
 	QueryDatabaseSchema, 
+	AskDatabaseSchema,
+	SaveQuerySchema,
+	ListSavedQueriesSchema,
+	RunSavedQuerySchema,
+	ExplainQuerySchema,
 	ExecuteDatabaseSchema,
+	BeginTransactionSchema,
+	CommitTransactionSchema,
+	RollbackTransactionSchema,
+	PlanMigrationSchema,
+	ApplyMigrationSchema,
+	RollbackMigrationSchema,
+	ImportRowsSchema,
+	GetAuditLogSchema,
 	createErrorResponse,
 	createSuccessResponse
 } from "../types";
-import { validateSqlQuery, isWriteOperation, formatDatabaseError } from "../database/security";
-import { withDatabase } from "../database/utils";
+import { validateSqlQuery, validateReadOnlyQuery, validateSqlParameters, isWriteOperation, formatDatabaseError } from "../database/security";
+import { withDatabase, toSqlParameters } from "../database/utils";
+import { decodeCursor, fetchQueryPage, formatPageSummary, getQueryLimits } from "../database/pagination";
+import { formatResultRows } from "../database/formatters";
+import { introspectDatabase } from "../database/introspection";
+import { canAccessDatabase, getAccessibleDatabases, selectDatabase } from "../database/databases";
+import {
+	consumeConfirmationToken,
+	createConfirmationToken,
+	CONFIRMATION_TTL_SECONDS,
+	formatWriteReport,
+	getConfirmRowLimit,
+	planWrite,
+	runWrite,
+} from "../database/write-confirmation";
+import { getQueryTimeouts, QueryAbortedError, withQueryTimeouts } from "../database/timeouts";
+import { createTransactionManager, getTransactionIdleTimeout, type TransactionManager } from "../database/transactions";
+import { loadResultMasking, maskResultRows, maskWriteResult } from "../database/masking";
+import { buildSqlPrompt, generateSql, getTextToSqlModel } from "../database/text-to-sql";
+import { audited, DEFAULT_AUDIT_LOG_LIMIT, getAuditDatabase, searchAuditLog } from "../database/audit";
+import { applyMigration, MigrationError, planMigration, rollbackMigration, validateMigration } from "../database/migrations";
+import { compareSchemas, describeSchemaDifference, formatSchemaDiff } from "../database/schema-diff";
+import { formatImportReport, getImportRowLimit, ImportError, importRows, parseImportRows } from "../database/import";
+import {
+	bindSavedQueryParameters,
+	describeParameters,
+	getSavedQuery,
+	listSavedQueries,
+	saveQuery,
+	SavedQueryError,
+	validateSavedQuery,
+} from "../database/saved-queries";
+import {
+	checkQueryCost,
+	explainStatement,
+	formatPlanSummary,
+	getQueryCostGuard,
+	getScannedTableRows,
+	isExplainableStatement,
+	summarizePlan,
+} from "../database/query-plan";
+import { DEFAULT_ACCESS_POLICY, hasRole, resolveRoles } from "../auth/access-policy";
+import { hasScope } from "../auth/scopes";
+import { registerSavedQueryPrompt } from "./database-prompts";
 
-const ALLOWED_USERNAMES = new Set<string>([
-	// Add GitHub usernames of users who should have access to database write operations
-	// For example: 'yourusername', 'coworkerusername'
-	'coleam00'
-]);
+// Scopes the client's grant must include (see src/auth/scopes.ts)
+const READ_SCOPE = "db:read";
+const WRITE_SCOPE = "db:write";
+const AUDIT_SCOPE = "db:audit";
+
+// Role needed to read the audit log (see src/database/audit.ts)
+const AUDIT_ROLE = "db-auditor";
+
+// What the audit log records for a schema introspection
+function introspectionAuditSql(schema?: string): string {
+	return `-- schema introspection${schema ? ` of schema ${schema}` : ""}`;
+}
 
 // Error handling helper for MCP tools with Sentry
 function handleError(error: unknown): { content: Array<{ type: "text"; text: string; isError?: boolean }> } {
+	// Timeouts, cancellations and refused migrations, imports and saved queries are expected outcomes, not bugs to report
+	if (error instanceof QueryAbortedError || error instanceof MigrationError || error instanceof ImportError || error instanceof SavedQueryError) {
+		return createErrorResponse(error.message);
+	}
+
 	const eventId = Sentry.captureException(error);
 
 	const errorMessage = [
@@ -44,146 +113,668 @@ function handleError(error: unknown): { content: Array<{ type: "text"; text: str
 	};
 }
 
-export function registerDatabaseToolsWithSentry(server: McpServer, env: Env, props: Props) {
-	// Tool 1: List Tables - Available to all authenticated users
-	server.tool(
-		"listTables",
-		"Get a list of all tables in the database along with their column information. Use this first to understand the database structure before querying.",
-		ListTablesSchema,
-		async () => {
-			return await Sentry.startNewTrace(async () => {
-				return await Sentry.startSpan({
-					name: "mcp.tool/listTables",
-					attributes: {
-						'mcp.tool.name': 'listTables',
-						'mcp.user.login': props.login,
-					},
-				}, async (span) => {
-					// Set user context
-					Sentry.setUser({
-						username: props.login,
-						email: props.email,
-					});
-
-					try {
-						return await withDatabase((env as any).DATABASE_URL, async (db) => {
-							// Single query to get all table and column information (using your working query)
-							const columns = await db.unsafe(`
-								SELECT 
-									table_name, 
-									column_name, 
-									data_type, 
-									is_nullable,
-									column_default
-								FROM information_schema.columns 
-								WHERE table_schema = 'public' 
-								ORDER BY table_name, ordinal_position
-							`);
-							
-							// Group columns by table
-							const tableMap = new Map();
-							for (const col of columns) {
-								// Use snake_case property names as returned by the SQL query
-								if (!tableMap.has(col.table_name)) {
-									tableMap.set(col.table_name, {
-										name: col.table_name,
-										schema: 'public',
-										columns: []
-									});
-								}
-								tableMap.get(col.table_name).columns.push({
-									name: col.column_name,
-									type: col.data_type,
-									nullable: col.is_nullable === 'YES',
-									default: col.column_default
-								});
+export function registerDatabaseToolsWithSentry(
+	server: McpServer,
+	env: Env,
+	props: Props,
+	roles: ReadonlySet<string> = resolveRoles(DEFAULT_ACCESS_POLICY, props),
+	transactions: TransactionManager = createTransactionManager(env)
+) {
+	// Read tools - require read access to a database (see src/database/databases.ts) and the db:read scope
+	if (getAccessibleDatabases(env, roles, "read").length > 0 && hasScope(props, READ_SCOPE)) {
+		// Tool 1: List Tables - Available to database readers
+		server.tool(
+			"listTables",
+			"Get a list of all tables and views in the database with their columns, primary and foreign keys, indexes, constraints, comments and approximate row counts, plus enum types. Use this first to understand the database structure and how tables join before querying.",
+			ListTablesSchema,
+			async ({ schema, database }, extra) => {
+				return await Sentry.startNewTrace(async () => {
+					return await Sentry.startSpan({
+						name: "mcp.tool/listTables",
+						attributes: {
+							'mcp.tool.name': 'listTables',
+							'mcp.user.login': props.login,
+						},
+					}, async (span) => {
+						// Set user context
+						Sentry.setUser({
+							username: props.login,
+							email: props.email,
+						});
+
+						try {
+							// Resolve the target database and check the user's access to it
+							const selected = selectDatabase(env, roles, database, "read");
+							if ("error" in selected) {
+								return createErrorResponse(selected.error);
 							}
+							span.setAttribute('mcp.db.name', selected.database.name);
+						
+							return await withDatabase(selected.database.url, async (db) => {
+								const { tables, enums } = await audited(
+									env,
+									{ props, tool: "listTables", database: selected.database.name, sql: introspectionAuditSql(schema) },
+									() =>
+										withQueryTimeouts(db, { timeouts: getQueryTimeouts(env, "query"), signal: extra.signal, readOnly: true }, (tx) =>
+											introspectDatabase(tx, { schema })
+										),
+									({ tables }) => ({ rowCount: tables.length })
+								);
 							
-							const tableInfo = Array.from(tableMap.values());
-							
-							return {
-								content: [
-									{
-										type: "text",
-										text: `**Database Tables and Schema**\n\n${JSON.stringify(tableInfo, null, 2)}\n\n**Total tables found:** ${tableInfo.length}\n\n**Note:** Use the \`queryDatabase\` tool to run SELECT queries, or \`executeDatabase\` tool for write operations (if you have write access).`
-									}
-								]
-							};
-						});
-					} catch (error) {
-						console.error('listTables error:', error);
-						span.setStatus({ code: 2 }); // error
-						return handleError(error);
-					}
-				});
-			});
-		}
-	);
-
-	// Tool 2: Query Database - Available to all authenticated users (read-only)
-	server.tool(
-		"queryDatabase",
-		"Execute a read-only SQL query against the PostgreSQL database. This tool only allows SELECT statements and other read operations. All authenticated users can use this tool.",
-		QueryDatabaseSchema,
-		async ({ sql }) => {
-			return await Sentry.startNewTrace(async () => {
-				return await Sentry.startSpan({
-					name: "mcp.tool/queryDatabase",
-					attributes: {
-						'mcp.tool.name': 'queryDatabase',
-						'mcp.user.login': props.login,
-						'mcp.sql.query': sql.substring(0, 100), // Truncate for security
-					},
-				}, async (span) => {
-					// Set user context
-					Sentry.setUser({
-						username: props.login,
-						email: props.email,
-					});
-
-					try {
-						// Validate the SQL query
-						const validation = validateSqlQuery(sql);
-						if (!validation.isValid) {
-							return createErrorResponse(`Invalid SQL query: ${validation.error}`);
+								return {
+									content: [
+										{
+											type: "text",
+											text: `**Database Tables and Schema**${schema ? ` (schema \`${schema}\`)` : ''}\n\n${JSON.stringify(tables, null, 2)}\n\n${enums.length > 0 ? `**Enum types:**\n${JSON.stringify(enums, null, 2)}\n\n` : ''}**Total tables found:** ${tables.length}\n\n**Note:** Use the \`queryDatabase\` tool to run SELECT queries, or \`executeDatabase\` tool for write operations (if you have write access).`
+										}
+									]
+								};
+							});
+						} catch (error) {
+							console.error('listTables error:', error);
+							span.setStatus({ code: 2 }); // error
+							return handleError(error);
 						}
+					});
+				});
+			}
+		);
+
+		// Tool 2: Query Database - Available to database readers (read-only)
+		server.tool(
+			"queryDatabase",
+			"Execute a read-only SQL query against the PostgreSQL database. This tool only allows SELECT statements and other read operations. All database readers can use this tool. Large results are returned in pages; pass the returned cursor to get the next page.",
+			QueryDatabaseSchema,
+			async ({ sql, params, limit, cursor, format, database }, extra) => {
+				return await Sentry.startNewTrace(async () => {
+					return await Sentry.startSpan({
+						name: "mcp.tool/queryDatabase",
+						attributes: {
+							'mcp.tool.name': 'queryDatabase',
+							'mcp.user.login': props.login,
+							'mcp.sql.query': sql.substring(0, 100), // Truncate for security
+							'mcp.sql.param_count': params?.length ?? 0,
+						},
+					}, async (span) => {
+						// Set user context
+						Sentry.setUser({
+							username: props.login,
+							email: props.email,
+						});
+
+						try {
+							// Resolve the target database and check the user's access to it
+							const selected = selectDatabase(env, roles, database, "read");
+							if ("error" in selected) {
+								return createErrorResponse(selected.error);
+							}
+							span.setAttribute('mcp.db.name', selected.database.name);
 						
-						// Check if it's a write operation
-						if (isWriteOperation(sql)) {
-							return createErrorResponse(
-								"Write operations are not allowed with this tool. Use the `executeDatabase` tool if you have write permissions (requires special GitHub username access)."
+							// Validate the SQL query
+							const validation = validateSqlQuery(sql);
+							if (!validation.isValid) {
+								return createErrorResponse(`Invalid SQL query: ${validation.error}`);
+							}
+							
+							// Check the parameters against the $1..$n placeholders
+							const paramCheck = validateSqlParameters(sql, params);
+							if (!paramCheck.isValid) {
+								return createErrorResponse(`Invalid SQL parameters: ${paramCheck.error}`);
+							}
+						
+							// Parse the query and make sure it is a single statement that only reads data
+							const readOnly = validateReadOnlyQuery(sql);
+							if (!readOnly.isValid) {
+								return createErrorResponse(
+									`Write operations are not allowed with this tool: ${readOnly.error}. Use the \`executeDatabase\` tool if you have write permissions (requires the database writer role).`
+								);
+							}
+							
+							const boundParams = toSqlParameters(params);
+							const offset = cursor ? decodeCursor(cursor, sql, boundParams) : 0;
+							if (offset === null) {
+								return createErrorResponse("Invalid cursor: it is malformed or belongs to a different query. Run the query again without a cursor.");
+							}
+							const { maxRows, maxResponseBytes } = getQueryLimits(env);
+							const masking = await loadResultMasking(env, roles);
+							
+							// Refuse (or warn about) queries the planner expects to be expensive
+							const costCheck = await withDatabase(selected.database.url, (db) =>
+								checkQueryCost(db, sql, boundParams, getQueryCostGuard(env), {
+									timeouts: getQueryTimeouts(env, "query"),
+									signal: extra.signal,
+									audit: (explain) =>
+										audited(env, { props, tool: "queryDatabase", database: selected.database.name, sql: `EXPLAIN ${sql}`, params: boundParams }, explain)
+								})
 							);
+							if (costCheck.rejected) {
+								return createErrorResponse(`Query rejected: ${costCheck.message}`);
+							}
+							
+							return await withDatabase(selected.database.url, async (db) => {
+								// Run inside a READ ONLY transaction so Postgres rejects any write the parser missed,
+								// with the read tools' statement and lock timeouts
+								const page = await audited(
+									env,
+									{ props, tool: "queryDatabase", database: selected.database.name, sql, params: boundParams },
+									() =>
+										withQueryTimeouts(db, { timeouts: getQueryTimeouts(env, "query"), signal: extra.signal, readOnly: true }, (tx) =>
+											fetchQueryPage(tx, sql, boundParams, { offset, limit: Math.min(limit ?? maxRows, maxRows), maxResponseBytes })
+										),
+									(page) => ({ rowCount: page.rows.length })
+								);
+								// Mask sensitive columns before the rows reach the model
+								const rows = await maskResultRows(db, masking, page.rows, page.columns, { timeouts: getQueryTimeouts(env, "query"), signal: extra.signal });
+							
+								return {
+									content: [
+										{
+											type: "text",
+											text: `**Query Results**\n\`\`\`sql\n${sql}\n\`\`\`\n\n${params?.length ? `**Parameters:** \`${JSON.stringify(params)}\`\n\n` : ''}**Results:**\n${formatResultRows(rows, format)}\n\n${formatPageSummary(page)}${costCheck.message ? `\n\n**⚠️ ${costCheck.message}**` : ''}`
+										}
+									]
+								};
+							});
+						} catch (error) {
+							console.error('queryDatabase error:', error);
+							span.setStatus({ code: 2 }); // error
+							return handleError(error);
 						}
+					});
+				});
+			}
+		);
+
+		// Tool 3: Explain Query - Available to database readers
+		server.tool(
+			"explainQuery",
+			"Show the PostgreSQL query plan for a SQL statement with a summary: estimated cost and rows, sequential scans on large tables and missing-index hints. Set `analyze` to also run a read-only query and get actual row counts and timings. Use this before running queries on large tables.",
+			ExplainQuerySchema,
+			async ({ sql, params, analyze, database }, extra) => {
+				return await Sentry.startNewTrace(async () => {
+					return await Sentry.startSpan({
+						name: "mcp.tool/explainQuery",
+						attributes: {
+							'mcp.tool.name': 'explainQuery',
+							'mcp.user.login': props.login,
+							'mcp.sql.query': sql.substring(0, 100), // Truncate for security
+							'mcp.sql.analyze': analyze ?? false,
+						},
+					}, async (span) => {
+						// Set user context
+						Sentry.setUser({
+							username: props.login,
+							email: props.email,
+						});
+
+						try {
+							// Resolve the target database and check the user's access to it
+							const selected = selectDatabase(env, roles, database, "read");
+							if ("error" in selected) {
+								return createErrorResponse(selected.error);
+							}
+							span.setAttribute('mcp.db.name', selected.database.name);
 						
-						return await withDatabase((env as any).DATABASE_URL, async (db) => {
-							const results = await db.unsafe(sql);
+							// Validate the SQL query
+							const validation = validateSqlQuery(sql);
+							if (!validation.isValid) {
+								return createErrorResponse(`Invalid SQL query: ${validation.error}`);
+							}
+
+							// Check the parameters against the $1..$n placeholders
+							const paramCheck = validateSqlParameters(sql, params);
+							if (!paramCheck.isValid) {
+								return createErrorResponse(`Invalid SQL parameters: ${paramCheck.error}`);
+							}
+
+							// EXPLAIN ANALYZE runs the statement, so it is only allowed for reads
+							if (analyze) {
+								const readOnly = validateReadOnlyQuery(sql);
+								if (!readOnly.isValid) {
+									return createErrorResponse(`ANALYZE is only allowed for read-only queries: ${readOnly.error}`);
+								}
+							} else if (!isExplainableStatement(sql)) {
+								return createErrorResponse(
+									"Only a single SELECT, WITH, VALUES, TABLE, INSERT, UPDATE, DELETE or MERGE statement can be explained."
+								);
+							}
 							
+							return await withDatabase(selected.database.url, async (db) => {
+								// A READ ONLY transaction also covers plain EXPLAIN of write statements, which are planned but not run
+								const boundParams = toSqlParameters(params);
+								const plan = await audited(
+									env,
+									{ props, tool: "explainQuery", database: selected.database.name, sql: analyze ? `EXPLAIN ANALYZE ${sql}` : `EXPLAIN ${sql}`, params: boundParams },
+									() =>
+										withQueryTimeouts(db, { timeouts: getQueryTimeouts(env, "query"), signal: extra.signal, readOnly: true }, (tx) =>
+											explainStatement(tx, sql, boundParams, { analyze })
+										)
+								);
+								const tableRows = await withQueryTimeouts(db, { timeouts: getQueryTimeouts(env, "query"), signal: extra.signal, readOnly: true }, (tx) => getScannedTableRows(tx, plan));
+								const summary = summarizePlan(plan, tableRows);
+
+								return {
+									content: [
+										{
+											type: "text",
+											text: `**Query Plan${analyze ? " (ANALYZE)" : ""}**\n\`\`\`sql\n${sql}\n\`\`\`\n\n${formatPlanSummary(plan, summary)}`
+										}
+									]
+								};
+							});
+						} catch (error) {
+							console.error('explainQuery error:', error);
+							span.setStatus({ code: 2 }); // error
+							return handleError(error);
+						}
+					});
+				});
+			}
+		);
+
+		// Tool 4: List Databases - Available to database readers
+		server.tool(
+			"listDatabases",
+			"List the databases you can use with the database tools, with their descriptions and whether you can write to them. Pass a name as the `database` argument of the other database tools; without it they use the database marked as default.",
+			ListDatabasesSchema,
+			async () => {
+				return await Sentry.startNewTrace(async () => {
+					return await Sentry.startSpan({
+						name: "mcp.tool/listDatabases",
+						attributes: {
+							'mcp.tool.name': 'listDatabases',
+							'mcp.user.login': props.login,
+						},
+					}, async () => {
+						const databases = describeDatabases(env, roles);
+
+						return {
+							content: [
+								{
+									type: "text",
+									text: `**Available Databases**\n\n${JSON.stringify(databases, null, 2)}\n\n**Total databases:** ${databases.length}`
+								}
+							]
+						};
+					});
+				});
+			}
+		);
+
+		// Tool 5: Compare Schemas - Reports drift between two databases or two schemas
+		server.tool(
+			"compareSchemas",
+			"Compare the schemas of two databases (e.g. staging and production) or two schemas of one database, and report missing and extra tables, views, columns, type changes, and primary key, constraint, index and enum differences as a structured diff. Use it to check for schema drift before a release.",
+			CompareSchemasSchema,
+			async ({ sourceDatabase, targetDatabase, sourceSchema, targetSchema }, extra) => {
+				return await Sentry.startNewTrace(async () => {
+					return await Sentry.startSpan({
+						name: "mcp.tool/compareSchemas",
+						attributes: {
+							'mcp.tool.name': 'compareSchemas',
+							'mcp.user.login': props.login,
+						},
+					}, async (span) => {
+						try {
+							// Resolve both databases and check the user's access to them
+							const source = selectDatabase(env, roles, sourceDatabase, "read");
+							if ("error" in source) {
+								return createErrorResponse(source.error);
+							}
+							const target = selectDatabase(env, roles, targetDatabase, "read");
+							if ("error" in target) {
+								return createErrorResponse(target.error);
+							}
+						
+							// Given one schema, the same schema is compared on both sides
+							const fromSchema = sourceSchema ?? targetSchema;
+							const toSchema = targetSchema ?? sourceSchema;
+							const label = (name: string, schema?: string) => `${name}${schema ? ` (schema \`${schema}\`)` : ''}`;
+							if (source.database.name === target.database.name && fromSchema === toSchema) {
+								return createErrorResponse(
+									`Source and target are both ${label(source.database.name, fromSchema)}. Choose two different databases, or two schemas with \`sourceSchema\` and \`targetSchema\`.`
+								);
+							}
+						
+							const sourceInfo = await withDatabase(source.database.url, (db) =>
+								audited(
+									env,
+									{ props, tool: "compareSchemas", database: source.database.name, sql: introspectionAuditSql(fromSchema) },
+									() =>
+										withQueryTimeouts(db, { timeouts: getQueryTimeouts(env, "query"), signal: extra.signal, readOnly: true }, (tx) =>
+											introspectDatabase(tx, { schema: fromSchema })
+										)
+								)
+							);
+							const targetInfo = await withDatabase(target.database.url, (db) =>
+								audited(
+									env,
+									{ props, tool: "compareSchemas", database: target.database.name, sql: introspectionAuditSql(toSchema) },
+									() =>
+										withQueryTimeouts(db, { timeouts: getQueryTimeouts(env, "query"), signal: extra.signal, readOnly: true }, (tx) =>
+											introspectDatabase(tx, { schema: toSchema })
+										)
+								)
+							);
+							// Within a schema, objects are matched by name so that e.g. staging.users pairs with public.users
+							const differences = compareSchemas(sourceInfo, targetInfo, { unqualified: fromSchema !== undefined });
+						
+							const count = (change: string) => differences.filter((difference) => difference.change === change).length;
+							const sides = [
+								[source.database.name, fromSchema, sourceInfo],
+								[target.database.name, toSchema, targetInfo],
+							] as const;
+							const warnings = sides
+								.filter(([, schema, info]) => schema && info.tables.length === 0 && info.enums.length === 0)
+								.map(([name, schema]) => `**⚠️ Schema \`${schema}\` of ${name} has no tables or enum types. Check the schema name.**\n\n`)
+								.join('');
+						
 							return {
 								content: [
 									{
 										type: "text",
-										text: `**Query Results**\n\`\`\`sql\n${sql}\n\`\`\`\n\n**Results:**\n\`\`\`json\n${JSON.stringify(results, null, 2)}\n\`\`\`\n\n**Rows returned:** ${Array.isArray(results) ? results.length : 1}`
+										text: `**Schema Comparison: ${source.database.name} → ${target.database.name}**\n\n**Source:** ${label(source.database.name, fromSchema)}\n**Target:** ${label(target.database.name, toSchema)}\n\n${warnings}${differences.length > 0 ? `**Summary:** ${count("removed")} only in the source, ${count("added")} only in the target, ${count("changed")} different\n\n${formatSchemaDiff(differences.map(describeSchemaDifference))}\n\n\`-\` only in the source (missing from the target), \`+\` only in the target, \`~\` different.\n\n**Differences:**\n${JSON.stringify(differences, null, 2)}` : 'No differences: the schemas match.'}`
 									}
 								]
 							};
-						});
-					} catch (error) {
-						console.error('queryDatabase error:', error);
-						span.setStatus({ code: 2 }); // error
-						return handleError(error);
-					}
+						} catch (error) {
+							console.error('compareSchemas error:', error);
+							span.setStatus({ code: 2 }); // error
+							return handleError(error);
+						}
+					});
 				});
-			});
+			}
+		);
+
+		// Tool 6: Ask Database - Available to database readers when the Workers AI binding is configured
+		if ((env as any).AI) {
+			server.tool(
+				"askDatabase",
+				"Answer a question about the data in plain language: generates a read-only SQL query from the database schema with Workers AI, runs it and returns both the SQL and the results. Check the SQL before relying on the answer; use `queryDatabase` to refine it or to fetch more rows.",
+				AskDatabaseSchema,
+				async ({ question, schema, format, database }, extra) => {
+					return await Sentry.startNewTrace(async () => {
+						return await Sentry.startSpan({
+							name: "mcp.tool/askDatabase",
+							attributes: {
+								'mcp.tool.name': 'askDatabase',
+								'mcp.user.login': props.login,
+								'mcp.ai.model': getTextToSqlModel(env),
+							},
+						}, async (span) => {
+							// Set user context
+							Sentry.setUser({
+								username: props.login,
+								email: props.email,
+							});
+
+							try {
+								// Resolve the target database and check the user's access to it
+								const selected = selectDatabase(env, roles, database, "read");
+								if ("error" in selected) {
+									return createErrorResponse(selected.error);
+								}
+								span.setAttribute('mcp.db.name', selected.database.name);
+							
+								// Describe the schema to the model and have it write the query
+								const { maxRows, maxResponseBytes } = getQueryLimits(env);
+								const schemaInfo = await withDatabase(selected.database.url, (db) =>
+									audited(
+										env,
+										{ props, tool: "askDatabase", database: selected.database.name, sql: introspectionAuditSql(schema) },
+										() =>
+											withQueryTimeouts(db, { timeouts: getQueryTimeouts(env, "query"), signal: extra.signal, readOnly: true }, (tx) =>
+												introspectDatabase(tx, { schema })
+											)
+									)
+								);
+								const generated = await Sentry.startSpan({ name: "ai.text_to_sql" }, () =>
+									generateSql((env as any).AI, getTextToSqlModel(env), buildSqlPrompt(schemaInfo, question, maxRows))
+								);
+								if ("error" in generated) {
+									return createErrorResponse(generated.error);
+								}
+								const { sql } = generated;
+								span.setAttribute('mcp.sql.query', sql.substring(0, 100)); // Truncate for security
+							
+								// The generated SQL gets the same checks as queryDatabase
+								const validation = validateSqlQuery(sql);
+								const readOnly = validation.isValid ? validateReadOnlyQuery(sql) : validation;
+								if (!readOnly.isValid) {
+									return createErrorResponse(`The generated SQL was rejected: ${readOnly.error}\n\n\`\`\`sql\n${sql}\n\`\`\``);
+								}
+								const masking = await loadResultMasking(env, roles);
+							
+								// Refuse (or warn about) queries the planner expects to be expensive
+								const costCheck = await withDatabase(selected.database.url, (db) =>
+									checkQueryCost(db, sql, [], getQueryCostGuard(env), {
+										timeouts: getQueryTimeouts(env, "query"),
+										signal: extra.signal,
+										audit: (explain) =>
+											audited(env, { props, tool: "askDatabase", database: selected.database.name, sql: `EXPLAIN ${sql}`, params: [] }, explain)
+									})
+								);
+								if (costCheck.rejected) {
+									return createErrorResponse(`Query rejected: ${costCheck.message}\n\n\`\`\`sql\n${sql}\n\`\`\``);
+								}
+							
+								return await withDatabase(selected.database.url, async (db) => {
+									// Run like queryDatabase: READ ONLY transaction, read timeouts, audit and masking
+									const page = await audited(
+										env,
+										{ props, tool: "askDatabase", database: selected.database.name, sql },
+										() =>
+											withQueryTimeouts(db, { timeouts: getQueryTimeouts(env, "query"), signal: extra.signal, readOnly: true }, (tx) =>
+												fetchQueryPage(tx, sql, [], { offset: 0, limit: maxRows, maxResponseBytes })
+											),
+										(page) => ({ rowCount: page.rows.length })
+									);
+									const rows = await maskResultRows(db, masking, page.rows, page.columns, { timeouts: getQueryTimeouts(env, "query"), signal: extra.signal });
+								
+									return {
+										content: [
+											{
+												type: "text",
+												text: `**Question:** ${question}\n\n**Generated SQL**\n\`\`\`sql\n${sql}\n\`\`\`\n\n**Results:**\n${formatResultRows(rows, format)}\n\n${formatPageSummary(page, "queryDatabase")}${costCheck.message ? `\n\n**⚠️ ${costCheck.message}**` : ''}\n\n**Note:** The SQL was generated by an AI model; check that it answers the question.`
+											}
+										]
+									};
+								});
+							} catch (error) {
+								console.error('askDatabase error:', error);
+								span.setStatus({ code: 2 }); // error
+								return handleError(error);
+							}
+						});
+					});
+				}
+			);
+		}
+
+		// Saved queries library, shared through OAUTH_KV (see src/database/saved-queries.ts)
+		const savedQueries: KVNamespace | undefined = (env as any).OAUTH_KV;
+		if (savedQueries) {
+			// Tool 7: Save Query - Stores a parameterized read-only query under a name
+			server.tool(
+				"saveQuery",
+				"Save a read-only SQL query under a name so that it can be run again with `runSavedQuery` by anyone who can read the database, and offered as a prompt. Use $1, $2, ... placeholders for values that change between runs and name each one in `parameters`. Saving under a name you already used replaces that query.",
+				SaveQuerySchema,
+				async ({ name, description, sql, parameters, database }) => {
+					return await Sentry.startNewTrace(async () => {
+						return await Sentry.startSpan({
+							name: "mcp.tool/saveQuery",
+							attributes: {
+								'mcp.tool.name': 'saveQuery',
+								'mcp.user.login': props.login,
+							},
+						}, async (span) => {
+							try {
+								// Resolve the target database and check the user's access to it
+								const selected = selectDatabase(env, roles, database, "read");
+								if ("error" in selected) {
+									return createErrorResponse(selected.error);
+								}
+							
+								const validation = validateSavedQuery(sql, parameters ?? []);
+								if (!validation.isValid) {
+									return createErrorResponse(`Invalid saved query: ${validation.error}`);
+								}
+							
+								const saved = await saveQuery(savedQueries, { name, description, sql, parameters: parameters ?? [], database: selected.database.name }, props.login);
+								registerSavedQueryPrompt(server, env, roles, { ...saved, parameters: saved.parameters.map((parameter) => parameter.name) });
+							
+								return {
+									content: [
+										{
+											type: "text",
+											text: `**Query Saved: ${saved.name}**\n\n**Description:** ${saved.description}\n**Database:** ${saved.database}\n${describeParameters(saved)}\n\nRun it with \`runSavedQuery\` and \`name: "${saved.name}"\`, or with the \`${saved.name}\` prompt.`
+										}
+									]
+								};
+							} catch (error) {
+								console.error('saveQuery error:', error);
+								span.setStatus({ code: 2 }); // error
+								return handleError(error);
+							}
+						});
+					});
+				}
+			);
+
+			// Tool 8: List Saved Queries - Lists and searches the saved queries library
+			server.tool(
+				"listSavedQueries",
+				"List and search the saved queries library: names, descriptions, parameters and owners of the saved queries you can run with `runSavedQuery`. Check it before writing a report query from scratch.",
+				ListSavedQueriesSchema,
+				async ({ search, owner }) => {
+					return await Sentry.startNewTrace(async () => {
+						return await Sentry.startSpan({
+							name: "mcp.tool/listSavedQueries",
+							attributes: {
+								'mcp.tool.name': 'listSavedQueries',
+								'mcp.user.login': props.login,
+							},
+						}, async (span) => {
+							try {
+								// Only queries of databases the user can read are listed
+								const queries = (await listSavedQueries(savedQueries, { search, owner })).filter(
+									(query) => !("error" in selectDatabase(env, roles, query.database, "read"))
+								);
+								const list = queries
+									.map((query) => `- **${query.name}**${query.parameters.length > 0 ? ` (${query.parameters.join(", ")})` : ''}: ${query.description} _(${query.database}, by ${query.owner}, updated ${query.updatedAt})_`)
+									.join("\n");
+							
+								return {
+									content: [
+										{
+											type: "text",
+											text: `**Saved Queries**\n\n${list || 'No saved queries found.'}\n\n**Total:** ${queries.length}`
+										}
+									]
+								};
+							} catch (error) {
+								console.error('listSavedQueries error:', error);
+								span.setStatus({ code: 2 }); // error
+								return handleError(error);
+							}
+						});
+					});
+				}
+			);
+
+			// Tool 9: Run Saved Query - Runs a saved query by name like queryDatabase
+			server.tool(
+				"runSavedQuery",
+				"Run a saved query by name with values for its parameters, by parameter name. Results are returned like queryDatabase, in pages; pass the returned cursor to get the next page.",
+				RunSavedQuerySchema,
+				async ({ name, params, limit, cursor, format }, extra) => {
+					return await Sentry.startNewTrace(async () => {
+						return await Sentry.startSpan({
+							name: "mcp.tool/runSavedQuery",
+							attributes: {
+								'mcp.tool.name': 'runSavedQuery',
+								'mcp.user.login': props.login,
+							},
+						}, async (span) => {
+							try {
+								const query = await getSavedQuery(savedQueries, name);
+								const selected = query ? selectDatabase(env, roles, query.database, "read") : undefined;
+								if (!query || !selected || "error" in selected) {
+									return createErrorResponse(`There is no saved query named ${name}. Use \`listSavedQueries\` to find one.`);
+								}
+							
+								// The stored SQL gets the same checks as queryDatabase
+								const values = bindSavedQueryParameters(query, params);
+								const validation = validateSqlQuery(query.sql);
+								const readOnly = validation.isValid ? validateReadOnlyQuery(query.sql) : validation;
+								const paramCheck = readOnly.isValid ? validateSqlParameters(query.sql, values) : readOnly;
+								if (!paramCheck.isValid) {
+									return createErrorResponse(`Saved query ${name} cannot be run: ${paramCheck.error}`);
+								}
+							
+								const boundParams = toSqlParameters(values);
+								const offset = cursor ? decodeCursor(cursor, query.sql, boundParams) : 0;
+								if (offset === null) {
+									return createErrorResponse("Invalid cursor: it is malformed or belongs to a different query. Run the query again without a cursor.");
+								}
+								const { maxRows, maxResponseBytes } = getQueryLimits(env);
+								const masking = await loadResultMasking(env, roles);
+							
+								// Refuse (or warn about) queries the planner expects to be expensive
+								const costCheck = await withDatabase(selected.database.url, (db) =>
+									checkQueryCost(db, query.sql, boundParams, getQueryCostGuard(env), {
+										timeouts: getQueryTimeouts(env, "query"),
+										signal: extra.signal,
+										audit: (explain) =>
+											audited(env, { props, tool: "runSavedQuery", database: selected.database.name, sql: `EXPLAIN ${query.sql}`, params: boundParams }, explain)
+									})
+								);
+								if (costCheck.rejected) {
+									return createErrorResponse(`Query rejected: ${costCheck.message}`);
+								}
+							
+								return await withDatabase(selected.database.url, async (db) => {
+									// Run like queryDatabase: READ ONLY transaction, read timeouts, audit and masking
+									const page = await audited(
+										env,
+										{ props, tool: "runSavedQuery", database: selected.database.name, sql: query.sql, params: boundParams },
+										() =>
+											withQueryTimeouts(db, { timeouts: getQueryTimeouts(env, "query"), signal: extra.signal, readOnly: true }, (tx) =>
+												fetchQueryPage(tx, query.sql, boundParams, { offset, limit: Math.min(limit ?? maxRows, maxRows), maxResponseBytes })
+											),
+										(page) => ({ rowCount: page.rows.length })
+									);
+									const rows = await maskResultRows(db, masking, page.rows, page.columns, { timeouts: getQueryTimeouts(env, "query"), signal: extra.signal });
+								
+									return {
+										content: [
+											{
+												type: "text",
+												text: `**Saved Query: ${query.name}**\n${query.description}\n\n${values.length > 0 ? `**Parameters:** \`${JSON.stringify(params)}\`\n\n` : ''}**Results:**\n${formatResultRows(rows, format)}\n\n${formatPageSummary(page)}${costCheck.message ? `\n\n**⚠️ ${costCheck.message}**` : ''}`
+											}
+										]
+									};
+								});
+							} catch (error) {
+								console.error('runSavedQuery error:', error);
+								span.setStatus({ code: 2 }); // error
+								return handleError(error);
+							}
+						});
+					});
+				}
+			);
 		}
-	);
+	}
 
-	// Tool 3: Execute Database - Only available to privileged users (write operations)
-	if (ALLOWED_USERNAMES.has(props.login)) {
+	// Tool 10: Execute Database - Requires write access to a database and the db:write scope (write operations)
+	if (getAccessibleDatabases(env, roles, "write").length > 0 && hasScope(props, WRITE_SCOPE)) {
 		server.tool(
 			"executeDatabase",
-			"Execute any SQL statement against the PostgreSQL database, including INSERT, UPDATE, DELETE, and DDL operations. This tool is restricted to specific GitHub users and can perform write transactions. **USE WITH CAUTION** - this can modify or delete data.",
+			"Execute any SQL statement against the PostgreSQL database, including INSERT, UPDATE, DELETE, and DDL operations. This tool is restricted to users with the database writer role and can perform write transactions. **USE WITH CAUTION** - this can modify or delete data. Set `dryRun` to preview a statement's effect without changing anything. Writes that change many rows, UPDATE or DELETE without WHERE, TRUNCATE and DROP are always dry-run first and return a confirmation token; call again with `confirmationToken` to apply them. Pass `transactionId` from `beginTransaction` to run several statements atomically.",
 			ExecuteDatabaseSchema,
-			async ({ sql }) => {
+			async ({ sql, params, format, dryRun, confirmationToken, transactionId, database }, extra) => {
 				return await Sentry.startNewTrace(async () => {
 					return await Sentry.startSpan({
 						name: "mcp.tool/executeDatabase",
@@ -191,7 +782,11 @@ export function registerDatabaseToolsWithSentry(server: McpServer, env: Env, pro
 							'mcp.tool.name': 'executeDatabase',
 							'mcp.user.login': props.login,
 							'mcp.sql.query': sql.substring(0, 100), // Truncate for security
+							'mcp.sql.param_count': params?.length ?? 0,
 							'mcp.sql.is_write': isWriteOperation(sql),
+							'mcp.sql.dry_run': dryRun ?? false,
+							'mcp.sql.confirmed': confirmationToken !== undefined,
+							'mcp.sql.in_transaction': transactionId !== undefined,
 						},
 					}, async (span) => {
 						// Set user context
@@ -201,23 +796,91 @@ export function registerDatabaseToolsWithSentry(server: McpServer, env: Env, pro
 						});
 
 						try {
+							// Statements in an open transaction run on its pinned connection, against its database
+							const open = transactionId !== undefined ? transactions.get(transactionId) : undefined;
+							if (open && "error" in open) {
+								return createErrorResponse(open.error);
+							}
+						
+							// Resolve the target database and check the user's access to it
+							const selected = selectDatabase(env, roles, database ?? open?.transaction.database.name, "write");
+							if ("error" in selected) {
+								return createErrorResponse(selected.error);
+							}
+							span.setAttribute('mcp.db.name', selected.database.name);
+							if (open && open.transaction.database.name !== selected.database.name) {
+								return createErrorResponse(
+									`Transaction ${open.transaction.id} is open on database "${open.transaction.database.name}", not "${selected.database.name}".`
+								);
+							}
+						
 							// Validate the SQL query
 							const validation = validateSqlQuery(sql);
 							if (!validation.isValid) {
 								return createErrorResponse(`Invalid SQL statement: ${validation.error}`);
 							}
 							
-							return await withDatabase((env as any).DATABASE_URL, async (db) => {
-								const results = await db.unsafe(sql);
-								
+							// Check the parameters against the $1..$n placeholders
+							const paramCheck = validateSqlParameters(sql, params);
+							if (!paramCheck.isValid) {
+								return createErrorResponse(`Invalid SQL parameters: ${paramCheck.error}`);
+							}
+							
+							const boundParams = toSqlParameters(params);
+							const pendingWrite = { sql, params: boundParams, database: selected.database.name, login: props.login };
+						
+							// A confirmation token applies the statement it was issued for, once
+							if (confirmationToken && !(await consumeConfirmationToken((env as any).OAUTH_KV, confirmationToken, pendingWrite))) {
+								return createErrorResponse(
+									"Invalid confirmation token: it has expired, was already used or was issued for a different statement. Run the statement with `dryRun: true` again to get a new token."
+								);
+							}
+						
+							// Dry runs and high-impact statements are rolled back; other single writes are rolled back above the row limit
+							const plan = planWrite(sql, { dryRun, confirmed: confirmationToken !== undefined });
+							const rowLimit = getConfirmRowLimit(env);
+							const masking = await loadResultMasking(env, roles);
+							return await withDatabase(selected.database.url, async (db) => {
+								// Session-level timeouts on a reserved connection (or local ones in the open transaction);
+								// the statement is cancelled if the client cancels the request
+								const timeoutOptions = { timeouts: getQueryTimeouts(env, "execute"), signal: extra.signal };
+								const written = await audited(
+									env,
+									{ props, tool: "executeDatabase", database: selected.database.name, sql, params: boundParams, transactionId: open?.transaction.id },
+									() =>
+										open
+											? transactions.run(open.transaction, (connection) =>
+												withQueryTimeouts(db, { ...timeoutOptions, connection }, (tx) => runWrite(tx, sql, boundParams, plan.mode, rowLimit, true))
+											)
+											: withQueryTimeouts(db, timeoutOptions, (connection) =>
+												runWrite(connection, sql, boundParams, plan.mode, rowLimit)
+											),
+									(result) => ({ rowCount: result.affectedRows, outcome: result.committed ? "success" : "rolled_back" })
+								);
+								// Mask sensitive columns before the rows reach the model
+								const result = await maskWriteResult(db, masking, written, { timeouts: getQueryTimeouts(env, "query"), signal: extra.signal });
+							
+								if (!result.committed) {
+									const token = await createConfirmationToken((env as any).OAUTH_KV, pendingWrite);
+									const reason = plan.reason ?? (plan.mode === "guarded" ? `This statement changes ${result.affectedRows} rows, more than the ${rowLimit} allowed without confirmation` : undefined);
+									return {
+										content: [
+											{
+												type: "text",
+												text: `**Dry Run - Changes Rolled Back**\n\`\`\`sql\n${sql}\n\`\`\`\n\n${params?.length ? `**Parameters:** \`${JSON.stringify(params)}\`\n\n` : ''}${formatWriteReport(result, format)}\n\n${reason ? `**⚠️ ${reason}.**\n\n` : ''}Nothing was changed. To apply this statement, call \`executeDatabase\` again with the same \`sql\`, \`params\` and \`database\` and \`confirmationToken: "${token}"\` (valid for ${CONFIRMATION_TTL_SECONDS / 60} minutes).`
+											}
+										]
+									};
+								}
+							
 								const isWrite = isWriteOperation(sql);
 								const operationType = isWrite ? "Write Operation" : "Read Operation";
-								
+							
 								return {
 									content: [
 										{
 											type: "text",
-											text: `**${operationType} Executed Successfully**\n\`\`\`sql\n${sql}\n\`\`\`\n\n**Results:**\n\`\`\`json\n${JSON.stringify(results, null, 2)}\n\`\`\`\n\n${isWrite ? '**⚠️ Database was modified**' : `**Rows returned:** ${Array.isArray(results) ? results.length : 1}`}\n\n**Executed by:** ${props.login} (${props.name})`
+											text: `**${operationType} Executed Successfully**\n\`\`\`sql\n${sql}\n\`\`\`\n\n${params?.length ? `**Parameters:** \`${JSON.stringify(params)}\`\n\n` : ''}**Results:**\n${formatResultRows(result.rows, format)}\n\n${isWrite ? (open ? `**⚠️ Changed in transaction ${open.transaction.id}; call \`commitTransaction\` to apply**` : '**⚠️ Database was modified**') : `**Rows returned:** ${result.rows.length}`}\n\n**Executed by:** ${props.login} (${props.name})`
 										}
 									]
 								};
@@ -231,5 +894,431 @@ export function registerDatabaseToolsWithSentry(server: McpServer, env: Env, pro
 				});
 			}
 		);
+
+		// Tool 11: Begin Transaction - Pins a connection to this MCP session for several executeDatabase calls
+		server.tool(
+			"beginTransaction",
+			"Start a transaction so that several executeDatabase statements are applied together or not at all. Pass the returned transactionId to executeDatabase, then call commitTransaction to apply the changes or rollbackTransaction to discard them. A transaction left without statements is rolled back automatically.",
+			BeginTransactionSchema,
+			async ({ isolationLevel, database }) => {
+				return await Sentry.startNewTrace(async () => {
+					return await Sentry.startSpan({
+						name: "mcp.tool/beginTransaction",
+						attributes: {
+							'mcp.tool.name': 'beginTransaction',
+							'mcp.user.login': props.login,
+						},
+					}, async (span) => {
+						try {
+							// Resolve the target database and check the user's access to it
+							const selected = selectDatabase(env, roles, database, "write");
+							if ("error" in selected) {
+								return createErrorResponse(selected.error);
+							}
+							span.setAttribute('mcp.db.name', selected.database.name);
+						
+							// One transaction at a time per session
+							const active = transactions.active();
+							if (active) {
+								return createErrorResponse(`Transaction ${active.id} is still open. Commit or roll it back before starting another one.`);
+							}
+						
+							return await withDatabase(selected.database.url, async () => {
+								const { id, isolationLevel: level } = await audited(
+									env,
+									{ props, tool: "beginTransaction", database: selected.database.name, sql: `BEGIN ISOLATION LEVEL ${(isolationLevel ?? "read committed").toUpperCase()}` },
+									() => transactions.begin(selected.database, isolationLevel),
+									(transaction) => ({ transactionId: transaction.id })
+								);
+								return {
+									content: [
+										{
+											type: "text",
+											text: `**Transaction Started**\n\n**Transaction ID:** \`${id}\`\n**Database:** ${selected.database.name}\n**Isolation level:** ${level}\n\nPass \`transactionId: "${id}"\` to \`executeDatabase\` for each statement, then call \`commitTransaction\` to apply the changes or \`rollbackTransaction\` to discard them. The transaction is rolled back automatically after ${Math.round(getTransactionIdleTimeout(env) / 1000)} seconds without a statement.`
+										}
+									]
+								};
+							});
+						} catch (error) {
+							console.error('beginTransaction error:', error);
+							span.setStatus({ code: 2 }); // error
+							return handleError(error);
+						}
+					});
+				});
+			}
+		);
+
+		// Tool 12: Commit Transaction
+		server.tool(
+			"commitTransaction",
+			"Commit a transaction started with beginTransaction, applying all of its statements.",
+			CommitTransactionSchema,
+			async ({ transactionId }) => {
+				return await Sentry.startNewTrace(async () => {
+					return await Sentry.startSpan({
+						name: "mcp.tool/commitTransaction",
+						attributes: {
+							'mcp.tool.name': 'commitTransaction',
+							'mcp.user.login': props.login,
+						},
+					}, async (span) => {
+						const open = transactions.get(transactionId);
+						if ("error" in open) {
+							return createErrorResponse(open.error);
+						}
+					
+						try {
+							return await withDatabase(open.transaction.database.url, async () => {
+								await audited(
+									env,
+									{ props, tool: "commitTransaction", database: open.transaction.database.name, sql: "COMMIT", transactionId },
+									() => transactions.commit(open.transaction)
+								);
+								return {
+									content: [
+										{
+											type: "text",
+											text: `**Transaction Committed**\n\nTransaction \`${transactionId}\` was committed.`
+										}
+									]
+								};
+							});
+						} catch (error) {
+							// Serialization failures and deferred constraint violations surface here; the transaction is gone either way
+							console.error('commitTransaction error:', error);
+							span.setStatus({ code: 2 }); // error
+							return createErrorResponse(`Transaction ${transactionId} could not be committed and was rolled back: ${formatDatabaseError(error)}`);
+						}
+					});
+				});
+			}
+		);
+
+		// Tool 13: Rollback Transaction
+		server.tool(
+			"rollbackTransaction",
+			"Roll back a transaction started with beginTransaction, discarding all of its statements.",
+			RollbackTransactionSchema,
+			async ({ transactionId }) => {
+				return await Sentry.startNewTrace(async () => {
+					return await Sentry.startSpan({
+						name: "mcp.tool/rollbackTransaction",
+						attributes: {
+							'mcp.tool.name': 'rollbackTransaction',
+							'mcp.user.login': props.login,
+						},
+					}, async (span) => {
+						const open = transactions.get(transactionId);
+						if ("error" in open) {
+							return createErrorResponse(open.error);
+						}
+					
+						try {
+							return await withDatabase(open.transaction.database.url, async () => {
+								await audited(
+									env,
+									{ props, tool: "rollbackTransaction", database: open.transaction.database.name, sql: "ROLLBACK", transactionId },
+									() => transactions.rollback(open.transaction)
+								);
+								return {
+									content: [
+										{
+											type: "text",
+											text: `**Transaction Rolled Back**\n\nTransaction \`${transactionId}\` was rolled back.`
+										}
+									]
+								};
+							});
+						} catch (error) {
+							console.error('rollbackTransaction error:', error);
+							span.setStatus({ code: 2 }); // error
+							return handleError(error);
+						}
+					});
+				});
+			}
+		);
+
+		// Tool 14: Plan Migration - Previews a versioned schema migration without changing anything
+		server.tool(
+			"planMigration",
+			"Preview a versioned schema migration: runs its up SQL and then its down SQL in a transaction that is rolled back, and reports the schema changes and whether down fully reverses up. Returns the checksum applyMigration needs. Prefer migrations over executeDatabase for schema changes.",
+			PlanMigrationSchema,
+			async ({ version, name, up, down, database }, extra) => {
+				return await Sentry.startNewTrace(async () => {
+					return await Sentry.startSpan({
+						name: "mcp.tool/planMigration",
+						attributes: {
+							'mcp.tool.name': 'planMigration',
+							'mcp.user.login': props.login,
+						},
+					}, async (span) => {
+						try {
+							// Resolve the target database and check the user's access to it
+							const selected = selectDatabase(env, roles, database, "write");
+							if ("error" in selected) {
+								return createErrorResponse(selected.error);
+							}
+						
+							// Migrations run in a transaction, so transaction control and statements that need to run outside one are refused
+							const validation = validateMigration({ up, down });
+							if (!validation.isValid) {
+								return createErrorResponse(`Invalid migration, ${validation.error}`);
+							}
+							
+							return await withDatabase(selected.database.url, async (db) => {
+								// Up and down run on a reserved connection with the executeDatabase timeouts and are always rolled back
+								const plan = await audited(
+									env,
+									{ props, tool: "planMigration", database: selected.database.name, sql: up },
+									() =>
+										withQueryTimeouts(db, { timeouts: getQueryTimeouts(env, "execute"), signal: extra.signal }, (connection) =>
+											planMigration(connection, { version, name, up, down })
+										),
+									() => ({ outcome: "rolled_back" })
+								);
+								const latest = plan.latest ? `${plan.latest.version} (${plan.latest.name}), applied ${plan.latest.appliedAt.toISOString()} by ${plan.latest.appliedBy}` : "none";
+								const reversal = plan.residue.length === 0
+									? "✅ The down SQL reverses these changes."
+									: `**⚠️ The down SQL does not fully reverse the up SQL.** Differences left after running up and then down:\n${formatSchemaDiff(plan.residue)}`;
+							
+								return {
+									content: [
+										{
+											type: "text",
+											text: `**Migration Plan: ${version} ${name}**\n\n**Database:** ${selected.database.name}\n**Latest applied migration:** ${latest}\n\n**Schema changes:**\n${formatSchemaDiff(plan.changes)}\n\n${reversal}\n\nNothing was changed. To apply this migration, call \`applyMigration\` with the same \`version\`, \`name\`, \`up\`, \`down\` and \`database\` and \`checksum: "${plan.checksum}"\`.`
+										}
+									]
+								};
+							});
+						} catch (error) {
+							console.error('planMigration error:', error);
+							span.setStatus({ code: 2 }); // error
+							return handleError(error);
+						}
+					});
+				});
+			}
+		);
+
+		// Tool 15: Apply Migration - Runs a planned migration in a transaction and records it in schema_migrations
+		server.tool(
+			"applyMigration",
+			"Apply a schema migration previewed with planMigration: runs its up SQL in a transaction and records it in the schema_migrations table with its checksum, your login and the time. Needs the checksum returned by planMigration for the same SQL.",
+			ApplyMigrationSchema,
+			async ({ version, name, up, down, checksum, database }, extra) => {
+				return await Sentry.startNewTrace(async () => {
+					return await Sentry.startSpan({
+						name: "mcp.tool/applyMigration",
+						attributes: {
+							'mcp.tool.name': 'applyMigration',
+							'mcp.user.login': props.login,
+						},
+					}, async (span) => {
+						try {
+							// Resolve the target database and check the user's access to it
+							const selected = selectDatabase(env, roles, database, "write");
+							if ("error" in selected) {
+								return createErrorResponse(selected.error);
+							}
+						
+							const validation = validateMigration({ up, down });
+							if (!validation.isValid) {
+								return createErrorResponse(`Invalid migration, ${validation.error}`);
+							}
+							
+							return await withDatabase(selected.database.url, async (db) => {
+								const changes = await audited(
+									env,
+									{ props, tool: "applyMigration", database: selected.database.name, sql: up },
+									() =>
+										withQueryTimeouts(db, { timeouts: getQueryTimeouts(env, "execute"), signal: extra.signal }, (connection) =>
+											applyMigration(connection, { version, name, up, down }, checksum, props.login)
+										)
+								);
+							
+								return {
+									content: [
+										{
+											type: "text",
+											text: `**Migration Applied: ${version} ${name}**\n\n**Database:** ${selected.database.name}\n\n**Schema changes:**\n${formatSchemaDiff(changes)}\n\n**⚠️ Database schema was modified**\n\n**Applied by:** ${props.login} (${props.name})`
+										}
+									]
+								};
+							});
+						} catch (error) {
+							// The migration's transaction was rolled back, so nothing was applied
+							console.error('applyMigration error:', error);
+							span.setStatus({ code: 2 }); // error
+							return handleError(error);
+						}
+					});
+				});
+			}
+		);
+
+		// Tool 16: Rollback Migration - Reverses the latest applied migration with its recorded down SQL
+		server.tool(
+			"rollbackMigration",
+			"Roll back the latest applied schema migration by running the down SQL recorded when it was applied, in a transaction, and remove it from schema_migrations. Set `dryRun` to preview the schema changes first.",
+			RollbackMigrationSchema,
+			async ({ version, dryRun, database }, extra) => {
+				return await Sentry.startNewTrace(async () => {
+					return await Sentry.startSpan({
+						name: "mcp.tool/rollbackMigration",
+						attributes: {
+							'mcp.tool.name': 'rollbackMigration',
+							'mcp.user.login': props.login,
+						},
+					}, async (span) => {
+						try {
+							// Resolve the target database and check the user's access to it
+							const selected = selectDatabase(env, roles, database, "write");
+							if ("error" in selected) {
+								return createErrorResponse(selected.error);
+							}
+						
+							return await withDatabase(selected.database.url, async (db) => {
+								// The audit record gets the down SQL once it is read from the migrations table
+								const audit = { props, tool: "rollbackMigration", database: selected.database.name, sql: `-- down SQL of migration ${version}` };
+								const { migration, changes } = await audited(
+									env,
+									audit,
+									() =>
+										withQueryTimeouts(db, { timeouts: getQueryTimeouts(env, "execute"), signal: extra.signal }, (connection) =>
+											rollbackMigration(connection, version, dryRun, (down) => {
+												audit.sql = down;
+											})
+										),
+									() => ({ outcome: dryRun ? "rolled_back" : "success" })
+								);
+								const title = dryRun ? `Rollback Preview: ${migration.version} ${migration.name}` : `Migration Rolled Back: ${migration.version} ${migration.name}`;
+							
+								return {
+									content: [
+										{
+											type: "text",
+											text: `**${title}**\n\n**Database:** ${selected.database.name}\n**Applied:** ${migration.appliedAt.toISOString()} by ${migration.appliedBy}\n\n**Schema changes:**\n${formatSchemaDiff(changes)}\n\n${dryRun ? `Nothing was changed. Call \`rollbackMigration\` again without \`dryRun\` to roll it back.` : '**⚠️ Database schema was modified**'}`
+										}
+									]
+								};
+							});
+						} catch (error) {
+							console.error('rollbackMigration error:', error);
+							span.setStatus({ code: 2 }); // error
+							return handleError(error);
+						}
+					});
+				});
+			}
+		);
+
+		// Tool 17: Import Rows - Loads CSV or JSON rows into a table in one transaction
+		server.tool(
+			"importRows",
+			"Import CSV or JSON rows into a table. Values are checked against the column types first, then the rows are inserted in batches in one transaction. Can upsert on a conflict key. By default any invalid row aborts the import; with onError \"skip\" the valid rows are imported and the invalid ones reported. Prefer this over INSERT statements in executeDatabase for loading data.",
+			ImportRowsSchema,
+			async ({ table, format, data, conflictColumns, onConflict, onError, database }, extra) => {
+				return await Sentry.startNewTrace(async () => {
+					return await Sentry.startSpan({
+						name: "mcp.tool/importRows",
+						attributes: {
+							'mcp.tool.name': 'importRows',
+							'mcp.user.login': props.login,
+						},
+					}, async (span) => {
+						try {
+							// Resolve the target database and check the user's access to it
+							const selected = selectDatabase(env, roles, database, "write");
+							if ("error" in selected) {
+								return createErrorResponse(selected.error);
+							}
+						
+							const parsed = parseImportRows(data, format, getImportRowLimit(env));
+						
+							return await withDatabase(selected.database.url, async (db) => {
+								const result = await audited(
+									env,
+									{ props, tool: "importRows", database: selected.database.name, sql: `INSERT INTO ${table} -- importRows, ${parsed.rows.length + parsed.errors.length} ${format.toUpperCase()} rows` },
+									() =>
+										withQueryTimeouts(db, { timeouts: getQueryTimeouts(env, "execute"), signal: extra.signal }, (connection) =>
+											importRows(connection, table, parsed, { conflictColumns, onConflict, onError })
+										),
+									(result) => ({ rowCount: result.inserted + result.updated })
+								);
+							
+								return {
+									content: [
+										{
+											type: "text",
+											text: `**Import Complete**\n\n**Database:** ${selected.database.name}\n${formatImportReport(result)}\n\n${result.inserted + result.updated > 0 ? '**⚠️ Database was modified**' : 'No rows were imported.'}\n\n**Imported by:** ${props.login} (${props.name})`
+										}
+									]
+								};
+							});
+						} catch (error) {
+							// The import's transaction was rolled back, so no rows were imported
+							console.error('importRows error:', error);
+							span.setStatus({ code: 2 }); // error
+							return handleError(error);
+						}
+					});
+				});
+			}
+		);
 	}
-}
\ No newline at end of file
+
+	// Tool 18: Get Audit Log - Requires the db-auditor role, the db:audit scope and AUDIT_LOG_DATABASE_URL
+	const auditDatabase = getAuditDatabase(env);
+	if (auditDatabase && hasRole(roles, AUDIT_ROLE) && hasScope(props, AUDIT_SCOPE)) {
+		server.tool(
+			"getAuditLog",
+			"Search the audit log of SQL run through the database tools, newest first: who ran which statement with which parameters, on which database, when, how many rows it returned or changed, how long it took and whether it failed. Filter by user, table, tool, outcome and time range. Restricted to users with the database auditor role.",
+			GetAuditLogSchema,
+			async ({ user, table, tool, outcome, since, until, limit, format }, extra) => {
+				return await Sentry.startNewTrace(async () => {
+					return await Sentry.startSpan({
+						name: "mcp.tool/getAuditLog",
+						attributes: {
+							'mcp.tool.name': 'getAuditLog',
+							'mcp.user.login': props.login,
+						},
+					}, async (span) => {
+						try {
+							return await withDatabase(auditDatabase.url, async (db) => {
+								const filters = { login: user, table, tool, outcome, since, until, limit };
+								const entries = await searchAuditLog(db, auditDatabase.url, filters, { timeouts: getQueryTimeouts(env, "query"), signal: extra.signal });
+
+								return {
+									content: [
+										{
+											type: "text",
+											text: `**Audit Log**\n\n${formatResultRows(entries, format)}\n\n**Entries:** ${entries.length}${entries.length === (limit ?? DEFAULT_AUDIT_LOG_LIMIT) ? " (more may match; narrow the filters or raise `limit`)" : ""}`
+										}
+									]
+								};
+							});
+						} catch (error) {
+							console.error('getAuditLog error:', error);
+							span.setStatus({ code: 2 }); // error
+							return handleError(error);
+						}
+					});
+				});
+			}
+		);
+	}
+}
+
+// Databases the user can read, as shown by listDatabases
+function describeDatabases(env: Env, roles: ReadonlySet<string>) {
+	const selected = selectDatabase(env, roles, undefined, "read");
+	const defaultName = "database" in selected ? selected.database.name : undefined;
+	return getAccessibleDatabases(env, roles, "read").map((database) => ({
+		name: database.name,
+		...(database.description ? { description: database.description } : {}),
+		access: canAccessDatabase(roles, database, "write") ? "read-write" : "read-only",
+		default: database.name === defaultName,
+	}));
+}
@@ -5,17 +5,21 @@ import {
 	SearchRepositoriesSchema, 
 	GetRepositoryInfoSchema,
 	createErrorResponse,
-	createSuccessResponse
+	createSuccessResponse,
+	type UpstreamTokenSource
 } from "../types";
+import { createUpstreamTokenSource } from "../auth/upstream-tokens";
 import { validateSearchQuery, formatGitHubError } from "../github/security";
 import { validateRepositoryFormat } from "../github/utils";
 import { withGitHub } from "../github/utils";
+import { DEFAULT_ACCESS_POLICY, hasRole, resolveRoles } from "../auth/access-policy";
+import { hasScope } from "../auth/scopes";
 
-const ALLOWED_USERNAMES = new Set<string>([
-	// Add GitHub usernames of users who should have access to GitHub operations
-	// For example: 'yourusername', 'coworkerusername'
-	'coleam00'
-]);
+// Role required by these tools, granted by the access policy (see src/auth/access-policy.ts)
+const REQUIRED_ROLE = "github";
+
+// Scope the client's grant must include (see src/auth/scopes.ts)
+const REQUIRED_SCOPE = "github:read";
 
 // Error handling helper for MCP tools with Sentry
 function handleError(error: unknown): { content: Array<{ type: "text"; text: string; isError?: boolean }> } {
@@ -44,8 +48,16 @@ function handleError(error: unknown): { content: Array<{ type: "text"; text: str
 	};
 }
 
-export function registerGitHubToolsWithSentry(server: McpServer, env: Env, props: Props) {
-	// Tool 1: Search Repositories - Available to all authenticated users
+export function registerGitHubToolsWithSentry(
+	server: McpServer,
+	env: Env,
+	props: Props,
+	roles: ReadonlySet<string> = resolveRoles(DEFAULT_ACCESS_POLICY, props),
+	upstreamToken: UpstreamTokenSource = createUpstreamTokenSource(env, props)
+) {
+	if (!hasRole(roles, REQUIRED_ROLE) || !hasScope(props, REQUIRED_SCOPE)) return;
+
+	// Tool 1: Search Repositories - Available to users with the github role
 	server.tool(
 		"searchRepositories",
 		"Search for GitHub repositories using a query string. Returns repository information including name, description, stars, and language.",
@@ -74,7 +86,7 @@ export function registerGitHubToolsWithSentry(server: McpServer, env: Env, props
 							return createErrorResponse(`Invalid search query: ${validation.error}`);
 						}
 						
-						return await withGitHub(props.accessToken, async (octokit) => {
+						return await withGitHub(upstreamToken, async (octokit) => {
 							const response = await octokit.rest.search.repos({
 								q: query,
 								per_page: Math.min(limit, 100),
@@ -119,7 +131,7 @@ export function registerGitHubToolsWithSentry(server: McpServer, env: Env, props
 		}
 	);
 
-	// Tool 2: Get Repository Information - Available to all authenticated users
+	// Tool 2: Get Repository Information - Available to users with the github role
 	server.tool(
 		"getRepositoryInfo",
 		"Get detailed information about a specific GitHub repository including stats, languages, and recent activity.",
@@ -149,7 +161,7 @@ export function registerGitHubToolsWithSentry(server: McpServer, env: Env, props
 						
 						const [owner, repo] = repository.split('/');
 						
-						return await withGitHub(props.accessToken, async (octokit) => {
+						return await withGitHub(upstreamToken, async (octokit) => {
 							// Get repository information
 							const repoResponse = await octokit.rest.repos.get({
 								owner,
@@ -1,14 +1,24 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { Props } from "../types";
+import type { TransactionManager } from "../database/transactions";
 import { registerDatabaseTools } from "./database-tools";
+import { registerDatabaseResources } from "./database-resources";
 
 /**
- * Register all MCP tools based on user permissions
+ * Register all MCP tools and resources based on the user's roles (see src/auth/access-policy.ts).
+ * `transactions` holds the session's open database transactions (see src/database/transactions.ts).
  */
-export function registerAllTools(server: McpServer, env: Env, props: Props) {
+export function registerAllTools(
+	server: McpServer,
+	env: Env,
+	props: Props,
+	roles: ReadonlySet<string>,
+	transactions: TransactionManager
+) {
 	// Register database tools
-	registerDatabaseTools(server, env, props);
+	registerDatabaseTools(server, env, props, roles, transactions);
+	registerDatabaseResources(server, env, props, roles);
 	
 	// Future tools can be registered here
-	// registerOtherTools(server, env, props);
+	// registerOtherTools(server, env, props, roles);
 }
\ No newline at end of file
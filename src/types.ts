@@ -1,5 +1,7 @@
 import { z } from "zod";
 import type { AuthRequest, OAuthHelpers, ClientInfo } from "@cloudflare/workers-oauth-provider";
+import { RESULT_FORMATS } from "./database/formatters";
+import { IMPORT_FORMATS } from "./database/import";
 
 // User context passed through OAuth
 export type Props = {
@@ -7,6 +9,8 @@ export type Props = {
   name: string;
   email: string;
   accessToken: string;
+  accessTokenExpiresAt?: number; // Upstream access token expiry (ms since epoch), if the provider reports one
+  refreshToken?: string; // Upstream refresh token, AES-GCM encrypted with COOKIE_ENCRYPTION_KEY
   picture?: string;
   verified_email?: boolean;
   sub?: string; // Auth0/Keycloak user ID
@@ -18,11 +22,38 @@ export type Props = {
   scope?: string; // OAuth scopes granted
   client_id?: string; // OAuth client ID
   provider?: string; // OAuth provider identifier
+  groups?: string[]; // IdP groups/roles (Keycloak realm roles, Auth0 permissions, groups claim)
+  hd?: string; // Google Workspace hosted domain
+  grantedScopes?: string[]; // MCP tool scopes granted to the client (see src/auth/scopes.ts)
 };
 
+// Grants a role to matching users; any matching rule is enough
+export interface RoleGrant {
+  users?: string[]; // Logins, optionally provider-qualified ("github:octocat")
+  emailDomains?: string[]; // Verified email or Google Workspace domains
+  groups?: string[]; // IdP groups/roles from Props.groups
+}
+
+// Maps users, email domains and IdP groups to named roles that tools require
+export interface AccessPolicy {
+  defaultRoles?: string[]; // Roles every authenticated user gets
+  roles: Record<string, RoleGrant>;
+}
+
 // Extended environment with OAuth provider
 export type ExtendedEnv = Env & { OAUTH_PROVIDER: OAuthHelpers };
 
+// Optional variables (see .dev.vars.example); `wrangler types` only generates the ones that are set
+declare global {
+  namespace Cloudflare {
+    interface Env {
+      AI_SQL_MODEL?: string; // Workers AI model used by askDatabase
+      AUDIT_LOG_DATABASE_URL?: string; // Connection for the audit log, as a role the tool databases do not use
+      IMPORT_MAX_ROWS?: string; // Largest number of rows importRows accepts
+    }
+  }
+}
+
 // OAuth URL construction parameters
 export interface UpstreamAuthorizeParams {
   upstream_url: string;
@@ -30,15 +61,83 @@ export interface UpstreamAuthorizeParams {
   scope: string;
   redirect_uri: string;
   state?: string;
+  code_challenge?: string; // PKCE S256 challenge
+  extra_params?: Record<string, string>; // Provider-specific parameters (e.g. Auth0 audience)
 }
 
 // OAuth token exchange parameters
 export interface UpstreamTokenParams {
   code: string | undefined;
   upstream_url: string;
-  client_secret: string;
+  client_secret?: string;
   redirect_uri: string;
   client_id: string;
+  code_verifier?: string; // PKCE verifier matching the code_challenge sent upstream
+}
+
+// OAuth refresh token grant parameters
+export interface UpstreamRefreshParams {
+  refresh_token: string;
+  upstream_url: string;
+  client_id: string;
+  client_secret?: string;
+}
+
+// Upstream access token for API helpers (withGmail, withGitHub), renewed on expiry or 401
+export interface UpstreamTokenSource {
+  getAccessToken(): Promise<string>; // Current token, refreshed first if it is about to expire
+  refresh(): Promise<string | null>; // Force a refresh, null when the grant has no refresh token
+}
+
+// Upstream authorization state kept server-side in OAUTH_KV while the user is at the provider
+export interface UpstreamAuthState {
+  providerId: string;
+  oauthReqInfo: AuthRequest;
+  codeVerifier?: string; // PKCE verifier, never sent to the browser
+  nonce?: string; // Expected ID token nonce
+}
+
+// Token endpoint response from an upstream provider
+export interface UpstreamTokenResponse {
+  access_token: string;
+  token_type?: string;
+  expires_in?: number;
+  refresh_token?: string;
+  id_token?: string;
+  scope?: string;
+  [key: string]: unknown;
+}
+
+// Identity resolved from an upstream provider's user info
+export interface UpstreamIdentity {
+  userId: string; // Stable user ID passed to completeAuthorization
+  label: string; // Human-readable grant label
+  props: Props;
+}
+
+// Declaration of an upstream OAuth provider in the provider registry
+export interface UpstreamProviderConfig {
+  id: string; // Route prefix, e.g. "github" serves /github/authorize and /github/callback
+  name: string; // Name shown on the provider selection page
+  approvalDialog: ApprovalDialogOptions["server"];
+  isConfigured: (env: Env) => boolean;
+  clientId: (env: Env) => string;
+  clientSecret?: (env: Env) => string | undefined;
+  // Endpoint getters may be async for providers that resolve them via discovery
+  authorizeUrl: (env: Env) => string | Promise<string>;
+  tokenUrl: (env: Env) => string | Promise<string>;
+  userinfoUrl: (env: Env) => string | Promise<string>;
+  scopes: string | ((env: Env) => string | Promise<string>);
+  pkce: boolean;
+  authorizeParams?: (env: Env) => Record<string, string>;
+  // ID token verification for OIDC-based providers (nonce is sent and the id_token is required)
+  idToken?: {
+    issuer: (env: Env) => string | string[] | Promise<string | string[]>;
+    jwksUri: (env: Env) => string | Promise<string>;
+  };
+  // Override for providers whose user info is not a plain bearer-token GET
+  fetchUserInfo?: (accessToken: string, env: Env) => Promise<Record<string, any>>;
+  mapUserInfo: (userInfo: Record<string, any>, accessToken: string) => UpstreamIdentity;
 }
 
 // Approval dialog configuration
@@ -50,6 +149,7 @@ export interface ApprovalDialogOptions {
     description?: string;
   };
   state: Record<string, any>;
+  scopes?: string[]; // Tool scopes the client is requesting, listed on the dialog
   cookieName?: string;
   cookieSecret?: string | Uint8Array;
   cookieDomain?: string;
@@ -64,13 +164,165 @@ export interface ParsedApprovalResult {
 }
 
 // MCP tool schemas using Zod
-export const ListTablesSchema = {};
+const DatabaseNameSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe("Name of the database to use, from listDatabases (default: the default database)");
+
+export const ListDatabasesSchema = {};
+
+export const ListTablesSchema = {
+  schema: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Only list tables in this schema (default: all user schemas)"),
+  database: DatabaseNameSchema,
+};
+
+export const CompareSchemasSchema = {
+  sourceDatabase: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Database to compare from, e.g. staging, from listDatabases (default: the default database)"),
+  targetDatabase: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Database to compare with, e.g. production (default: the default database)"),
+  sourceSchema: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Only compare this schema of the source database (default: targetSchema, or all user schemas)"),
+  targetSchema: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Schema of the target database to compare it with (default: the same as sourceSchema)"),
+};
+
+// Values bound to $1..$n placeholders; objects and arrays are sent as JSON
+const SqlParamSchema = z.union([z.string(), z.number(), z.boolean(), z.null(), z.array(z.any()), z.record(z.any())]);
+
+const SqlParamsSchema = z
+  .array(SqlParamSchema)
+  .max(100, "Too many parameters (max 100)")
+  .optional()
+  .describe("Values for the $1, $2, ... placeholders in the SQL, in order. Use these instead of putting values into the SQL string");
+
+const ResultFormatSchema = z
+  .enum(RESULT_FORMATS)
+  .optional()
+  .describe(
+    "Result format: json (default), markdown (table, best for small results), csv or ndjson (bulk export), columnar (compact JSON with column names listed once)"
+  );
 
 export const QueryDatabaseSchema = {
   sql: z
     .string()
     .min(1, "SQL query cannot be empty")
     .describe("SQL query to execute (SELECT queries only)"),
+  params: SqlParamsSchema,
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .max(1000)
+    .optional()
+    .describe("Maximum number of rows to return in this page (default and cap set by the server, 100 unless configured)"),
+  cursor: z
+    .string()
+    .optional()
+    .describe("Continuation token from a previous truncated result, to fetch the next page of the same query"),
+  format: ResultFormatSchema,
+  database: DatabaseNameSchema,
+};
+
+export const AskDatabaseSchema = {
+  question: z
+    .string()
+    .min(1, "Question cannot be empty")
+    .max(2000)
+    .describe("Question about the data, in plain language, e.g. \"Which 10 customers ordered the most last month?\""),
+  schema: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Only describe tables in this schema to the model (default: all user schemas)"),
+  format: ResultFormatSchema,
+  database: DatabaseNameSchema,
+};
+
+const SavedQueryNameSchema = z
+  .string()
+  .min(1)
+  .max(64)
+  .regex(/^[a-z0-9][a-z0-9_]*$/, "Saved query names may only contain lowercase letters, digits and '_'")
+  .describe("Name of the saved query, e.g. monthly_revenue");
+
+export const SaveQuerySchema = {
+  name: SavedQueryNameSchema,
+  description: z
+    .string()
+    .min(1)
+    .max(500)
+    .describe("What the query reports; shown when listing and searching saved queries"),
+  sql: z
+    .string()
+    .min(1, "SQL query cannot be empty")
+    .describe("Read-only SQL query, with $1, $2, ... placeholders for the parameters"),
+  parameters: z
+    .array(
+      z.object({
+        name: z
+          .string()
+          .max(32)
+          .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Parameter names may only contain letters, digits and '_'"),
+        description: z.string().max(200).optional(),
+      })
+    )
+    .max(10)
+    .optional()
+    .describe("One named parameter per placeholder, in order: the first is $1, the second $2, ..."),
+  database: DatabaseNameSchema,
+};
+
+export const ListSavedQueriesSchema = {
+  search: z
+    .string()
+    .optional()
+    .describe("Only list saved queries whose name, description or owner contain all of these words"),
+  owner: z
+    .string()
+    .optional()
+    .describe("Only list saved queries of this user"),
+};
+
+export const RunSavedQuerySchema = {
+  name: SavedQueryNameSchema,
+  params: z
+    .record(SqlParamSchema)
+    .optional()
+    .describe("Values for the saved query's parameters, by parameter name"),
+  limit: QueryDatabaseSchema.limit,
+  cursor: QueryDatabaseSchema.cursor,
+  format: ResultFormatSchema,
+};
+
+export const ExplainQuerySchema = {
+  sql: z
+    .string()
+    .min(1, "SQL query cannot be empty")
+    .describe("SQL statement to explain"),
+  params: SqlParamsSchema,
+  analyze: z
+    .boolean()
+    .optional()
+    .describe("Also run the query (EXPLAIN ANALYZE) to get actual row counts and timings. Only allowed for read-only queries"),
+  database: DatabaseNameSchema,
 };
 
 export const ExecuteDatabaseSchema = {
@@ -78,6 +330,152 @@ export const ExecuteDatabaseSchema = {
     .string()
     .min(1, "SQL command cannot be empty")
     .describe("SQL command to execute (INSERT, UPDATE, DELETE, CREATE, etc.)"),
+  params: SqlParamsSchema,
+  format: ResultFormatSchema,
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("Run the statement in a transaction that is rolled back and report the affected rows with a before/after sample, plus a confirmation token to apply it"),
+  confirmationToken: z
+    .string()
+    .optional()
+    .describe("Token from a dry run; applies exactly that statement with the same sql, params and database"),
+  transactionId: z
+    .string()
+    .optional()
+    .describe("Run the statement inside this open transaction from beginTransaction; changes are only applied by commitTransaction"),
+  database: DatabaseNameSchema,
+};
+
+const TransactionIdSchema = z
+  .string()
+  .min(1)
+  .describe("Transaction ID returned by beginTransaction");
+
+export const BeginTransactionSchema = {
+  isolationLevel: z
+    .enum(["read committed", "repeatable read", "serializable"])
+    .optional()
+    .describe("Transaction isolation level (default: read committed)"),
+  database: DatabaseNameSchema,
+};
+
+export const CommitTransactionSchema = {
+  transactionId: TransactionIdSchema,
+};
+
+export const RollbackTransactionSchema = {
+  transactionId: TransactionIdSchema,
+};
+
+const MigrationVersionSchema = z
+  .string()
+  .min(1)
+  .max(64)
+  .regex(/^[A-Za-z0-9_.-]+$/, "Migration versions may only contain letters, digits, '_', '.' and '-'")
+  .describe("Migration version, e.g. 20240501120000 or 0003. Versions are applied in order, compared with numbers in order");
+
+export const PlanMigrationSchema = {
+  version: MigrationVersionSchema,
+  name: z
+    .string()
+    .min(1)
+    .max(200)
+    .describe("Short description of the migration, e.g. add_orders_table"),
+  up: z
+    .string()
+    .min(1, "Up SQL cannot be empty")
+    .describe("SQL that applies the migration (DDL and data changes, several statements allowed)"),
+  down: z
+    .string()
+    .min(1, "Down SQL cannot be empty")
+    .describe("SQL that reverses the up SQL"),
+  database: DatabaseNameSchema,
+};
+
+export const ApplyMigrationSchema = {
+  ...PlanMigrationSchema,
+  checksum: z
+    .string()
+    .min(1)
+    .describe("Checksum returned by planMigration for this migration, to confirm the previewed SQL is applied"),
+};
+
+export const RollbackMigrationSchema = {
+  version: MigrationVersionSchema.describe("Version of the latest applied migration, which is the one rolled back"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("Show the schema changes of the rollback without applying them"),
+  database: DatabaseNameSchema,
+};
+
+export const ImportRowsSchema = {
+  table: z
+    .string()
+    .min(1)
+    .describe("Table to import into, as name or schema.name"),
+  format: z
+    .enum(IMPORT_FORMATS)
+    .describe("Format of data: csv (a header row of column names, then one row per line) or json (an array of objects)"),
+  data: z
+    .string()
+    .min(1, "Data cannot be empty")
+    .describe("Rows to import. Columns left out get their default. In CSV an empty field is NULL and \"\" is an empty string"),
+  conflictColumns: z
+    .array(z.string().min(1))
+    .min(1)
+    .optional()
+    .describe("Upsert on these columns, which must have a unique constraint: rows that already exist are updated (default conflict target: the primary key)"),
+  onConflict: z
+    .enum(["update", "ignore"])
+    .optional()
+    .describe("What to do with rows that already exist: update them with the imported values, or ignore the imported row (default: update when conflictColumns is given, otherwise a conflict is an error)"),
+  onError: z
+    .enum(["abort", "skip"])
+    .optional()
+    .describe("abort (default): any invalid row aborts the whole import. skip: import the valid rows and report the invalid ones"),
+  database: DatabaseNameSchema,
+};
+
+export const GetAuditLogSchema = {
+  user: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Only show entries by this login"),
+  table: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Only show statements that reference this table, e.g. users or public.users"),
+  tool: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Only show entries from this tool, e.g. executeDatabase"),
+  outcome: z
+    .enum(["success", "rolled_back", "error"])
+    .optional()
+    .describe("Only show entries with this outcome"),
+  since: z
+    .string()
+    .datetime({ offset: true })
+    .optional()
+    .describe("Only show entries at or after this time (ISO 8601, e.g. 2024-05-01T00:00:00Z)"),
+  until: z
+    .string()
+    .datetime({ offset: true })
+    .optional()
+    .describe("Only show entries before this time (ISO 8601)"),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .max(500)
+    .optional()
+    .describe("Maximum number of entries to return, newest first (default 50)"),
+  format: ResultFormatSchema,
 };
 
 // GitHub tool schemas
@@ -202,14 +600,17 @@ export const NewsSearchSchema = {
 };
 
 // MCP response types
+// Index signatures keep these assignable to the MCP SDK's CallToolResult
 export interface McpTextContent {
   type: "text";
   text: string;
   isError?: boolean;
+  [key: string]: unknown;
 }
 
 export interface McpResponse {
   content: McpTextContent[];
+  [key: string]: unknown;
 }
 
 // Standard response creators
@@ -248,11 +649,19 @@ export interface DatabaseOperationResult<T = any> {
   duration?: number;
 }
 
+// ID token verification result
+export type IdTokenValidationResult =
+  | { isValid: true; claims: Record<string, any> }
+  | { isValid: false; error: string };
+
 // SQL validation result
 export interface SqlValidationResult {
   isValid: boolean;
   error?: string;
 }
 
+// Value bound to a $n placeholder in a parameterized query
+export type SqlParam = string | number | boolean | null | unknown[] | Record<string, unknown>;
+
 // Re-export external types that are used throughout
 export type { AuthRequest, OAuthHelpers, ClientInfo };
\ No newline at end of file
@@ -1,5 +1,6 @@
 export const mockTableColumns = [
   {
+    table_schema: 'public',
     table_name: 'users',
     column_name: 'id',
     data_type: 'integer',
@@ -7,6 +8,7 @@ export const mockTableColumns = [
     column_default: 'nextval(\'users_id_seq\'::regclass)',
   },
   {
+    table_schema: 'public',
     table_name: 'users',
     column_name: 'name',
     data_type: 'character varying',
@@ -14,6 +16,7 @@ export const mockTableColumns = [
     column_default: null,
   },
   {
+    table_schema: 'public',
     table_name: 'users',
     column_name: 'email',
     data_type: 'character varying',
@@ -21,6 +24,7 @@ export const mockTableColumns = [
     column_default: null,
   },
   {
+    table_schema: 'public',
     table_name: 'posts',
     column_name: 'id',
     data_type: 'integer',
@@ -28,6 +32,7 @@ export const mockTableColumns = [
     column_default: 'nextval(\'posts_id_seq\'::regclass)',
   },
   {
+    table_schema: 'public',
     table_name: 'posts',
     column_name: 'title',
     data_type: 'text',
@@ -35,6 +40,7 @@ export const mockTableColumns = [
     column_default: null,
   },
   {
+    table_schema: 'public',
     table_name: 'posts',
     column_name: 'user_id',
     data_type: 'integer',
@@ -61,4 +67,21 @@ export const dangerousDropQuery = 'DROP TABLE users'
 export const dangerousDeleteAllQuery = 'SELECT * FROM users; DELETE FROM users WHERE 1=1'
 export const maliciousInjectionQuery = 'SELECT * FROM users; DROP TABLE users; --'
 export const emptyQuery = ''
-export const whitespaceQuery = '   '
\ No newline at end of file
+export const whitespaceQuery = '   '
+export const mockQueryPlan = [
+  {
+    'QUERY PLAN': [
+      {
+        Plan: {
+          'Node Type': 'Seq Scan',
+          'Relation Name': 'users',
+          Schema: 'public',
+          'Startup Cost': 0,
+          'Total Cost': 35.5,
+          'Plan Rows': 2550,
+          Filter: '(name = $1)',
+        },
+      },
+    ],
+  },
+]
@@ -30,7 +30,7 @@ vi.mock('../../src/database/utils', () => ({
 // Mock setup functions
 export function setupDatabaseMocks() {
   mockPostgresInstance.unsafe.mockImplementation((query: string) => {
-    if (query.includes('information_schema.columns')) {
+    if (query.includes('pg_catalog.pg_attrdef')) {
       return Promise.resolve(mockTableColumns)
     }
     if (query.includes('SELECT')) {
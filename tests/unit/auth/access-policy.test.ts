@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  DEFAULT_ACCESS_POLICY,
+  loadAccessPolicy,
+  parseAccessPolicy,
+  resolveRoles,
+  hasRole,
+  extractIdentityGroups,
+} from '../../../src/auth/access-policy'
+import { mockProps, mockPrivilegedProps } from '../../fixtures/auth.fixtures'
+import type { AccessPolicy } from '../../../src/types'
+
+const policy: AccessPolicy = {
+  defaultRoles: ['db-reader'],
+  roles: {
+    'db-writer': { users: ['github:octocat', 'Jane'], emailDomains: ['example.org'], groups: ['dba'] },
+    admin: { groups: ['platform-admins'] },
+  },
+}
+
+describe('Access Policy', () => {
+  describe('resolveRoles', () => {
+    it('should keep the previous behaviour by default', () => {
+      expect(resolveRoles(DEFAULT_ACCESS_POLICY, mockPrivilegedProps).has('db-writer')).toBe(true)
+      expect(resolveRoles(DEFAULT_ACCESS_POLICY, mockProps).has('db-writer')).toBe(false)
+      expect(resolveRoles(DEFAULT_ACCESS_POLICY, mockProps).has('db-reader')).toBe(true)
+    })
+
+    it('should match users case-insensitively and by provider', () => {
+      expect(resolveRoles(policy, { ...mockProps, login: 'jane' }).has('db-writer')).toBe(true)
+      expect(resolveRoles(policy, { ...mockProps, login: 'octocat', provider: 'github' }).has('db-writer')).toBe(true)
+      expect(resolveRoles(policy, { ...mockProps, login: 'octocat', provider: 'keycloak' }).has('db-writer')).toBe(false)
+    })
+
+    it('should only match verified email domains', () => {
+      const props = { ...mockProps, email: 'bob@example.org' }
+
+      expect(resolveRoles(policy, { ...props, verified_email: true }).has('db-writer')).toBe(true)
+      expect(resolveRoles(policy, props).has('db-writer')).toBe(false)
+      expect(resolveRoles(policy, { ...mockProps, hd: 'Example.org' }).has('db-writer')).toBe(true)
+    })
+
+    it('should match IdP groups', () => {
+      expect(resolveRoles(policy, { ...mockProps, groups: ['dba'] }).has('db-writer')).toBe(true)
+    })
+  })
+
+  describe('hasRole', () => {
+    it('should let admins pass every check', () => {
+      const roles = resolveRoles(policy, { ...mockProps, groups: ['platform-admins'] })
+
+      expect(hasRole(roles, 'db-writer')).toBe(true)
+      expect(hasRole(new Set(['db-reader']), 'db-writer')).toBe(false)
+    })
+  })
+
+  describe('parseAccessPolicy', () => {
+    it('should reject malformed policies', () => {
+      expect(() => parseAccessPolicy('{"roles": {"db-writer": {"user": ["typo"]}}}')).toThrow()
+      expect(() => parseAccessPolicy('not json')).toThrow()
+    })
+  })
+
+  describe('loadAccessPolicy', () => {
+    it('should prefer the policy stored in KV', async () => {
+      const env = {
+        OAUTH_KV: { get: vi.fn().mockResolvedValue(JSON.stringify(policy)) },
+        ACCESS_POLICY: JSON.stringify({ roles: {} }),
+      }
+
+      expect(await loadAccessPolicy(env as any)).toEqual(policy)
+      expect(env.OAUTH_KV.get).toHaveBeenCalledWith('access-policy')
+    })
+
+    it('should fall back to ACCESS_POLICY and then the default', async () => {
+      const kv = { get: vi.fn().mockResolvedValue(null) }
+
+      expect(await loadAccessPolicy({ OAUTH_KV: kv, ACCESS_POLICY: JSON.stringify(policy) } as any)).toEqual(policy)
+      expect(await loadAccessPolicy({ OAUTH_KV: kv, ACCESS_POLICY: '{broken' } as any)).toBe(DEFAULT_ACCESS_POLICY)
+    })
+  })
+
+  describe('extractIdentityGroups', () => {
+    it('should collect Keycloak, Auth0 and generic group claims', () => {
+      const groups = extractIdentityGroups(
+        {
+          groups: ['engineering'],
+          realm_access: { roles: ['dba'] },
+          resource_access: { 'mcp-client': { roles: ['client-role'] }, other: { roles: ['ignored'] } },
+          permissions: ['read:reports'],
+          'https://example.com/roles': ['platform-admins'],
+        },
+        'mcp-client'
+      )
+
+      expect(groups.sort()).toEqual(['client-role', 'dba', 'engineering', 'platform-admins', 'read:reports'])
+    })
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { createAuthRouter } from '../../../src/auth/auth-router'
+import { UPSTREAM_PROVIDERS, getConfiguredProviders } from '../../../src/auth/providers'
+
+describe('Auth Router', () => {
+  describe('getConfiguredProviders', () => {
+    it('should only return providers with credentials configured', () => {
+      const providers = getConfiguredProviders({ GITHUB_CLIENT_ID: 'id', AUTH0_DOMAIN: 'tenant.auth0.com' } as any)
+
+      expect(providers.map(provider => provider.id)).toEqual(['github'])
+    })
+
+    it('should declare each provider with a unique route prefix', () => {
+      const ids = UPSTREAM_PROVIDERS.map(provider => provider.id)
+      expect(new Set(ids).size).toBe(ids.length)
+    })
+  })
+
+  describe('/authorize', () => {
+    it('should redirect straight to the only configured provider', async () => {
+      const router = createAuthRouter()
+
+      const response = await router.request('/authorize?client_id=abc&state=xyz', {}, { GOOGLE_CLIENT_ID: 'id' })
+
+      expect(response.status).toBe(302)
+      expect(response.headers.get('Location')).toBe('/google/authorize?client_id=abc&state=xyz')
+    })
+
+    it('should render a selection page when several providers are configured', async () => {
+      const router = createAuthRouter()
+
+      const response = await router.request('/authorize?client_id=abc', {}, {
+        GITHUB_CLIENT_ID: 'id',
+        KEYCLOAK_DOMAIN: 'https://sso.example.com',
+        KEYCLOAK_CLIENT_ID: 'id',
+      })
+      const html = await response.text()
+
+      expect(response.status).toBe(200)
+      expect(html).toContain('href="/github/authorize?client_id=abc"')
+      expect(html).toContain('href="/keycloak/authorize?client_id=abc"')
+      expect(html).not.toContain('/google/authorize')
+    })
+
+    it('should report missing configuration', async () => {
+      const router = createAuthRouter()
+
+      const response = await router.request('/authorize', {}, {})
+
+      expect(response.status).toBe(500)
+      expect(await response.text()).toContain('No OAuth providers configured')
+    })
+  })
+})
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest'
+import { webcrypto } from 'node:crypto'
+import { verifyIdToken, validateIdTokenClaims, clearJwksCache } from '../../../src/auth/id-token'
+
+const issuer = 'https://idp.example.com'
+const audience = 'mcp-client'
+const jwksUri = `${issuer}/jwks`
+const now = 1_700_000_000
+
+function base64Url(data: string | Uint8Array): string {
+  return Buffer.from(data).toString('base64url')
+}
+
+async function signToken(
+  key: webcrypto.CryptoKey,
+  header: Record<string, unknown>,
+  claims: Record<string, unknown>,
+  params: Parameters<typeof webcrypto.subtle.sign>[0]
+): Promise<string> {
+  const signingInput = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(claims))}`
+  const signature = await webcrypto.subtle.sign(params, key, new TextEncoder().encode(signingInput))
+  return `${signingInput}.${base64Url(new Uint8Array(signature))}`
+}
+
+const validClaims = {
+  iss: issuer,
+  aud: audience,
+  sub: 'user-123',
+  exp: now + 300,
+  iat: now,
+  nonce: 'expected-nonce',
+}
+
+const expectations = { issuer, audience, jwksUri, nonce: 'expected-nonce', now }
+
+describe('ID Token Verification', () => {
+  let rsaKeys: webcrypto.CryptoKeyPair
+  let ecKeys: webcrypto.CryptoKeyPair
+  let jwks: { keys: JsonWebKey[] }
+
+  beforeAll(async () => {
+    rsaKeys = await webcrypto.subtle.generateKey(
+      { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+      true,
+      ['sign', 'verify']
+    )
+    ecKeys = await webcrypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify'])
+    jwks = {
+      keys: [
+        { ...((await webcrypto.subtle.exportKey('jwk', rsaKeys.publicKey)) as JsonWebKey), kid: 'rsa-1', use: 'sig' } as JsonWebKey,
+        { ...((await webcrypto.subtle.exportKey('jwk', ecKeys.publicKey)) as JsonWebKey), kid: 'ec-1', use: 'sig' } as JsonWebKey,
+      ],
+    }
+  })
+
+  beforeEach(() => {
+    clearJwksCache()
+    // The global crypto is stubbed in tests/setup.ts, use Node's WebCrypto for real signature checks
+    vi.mocked(crypto.subtle.importKey).mockImplementation((...args: any[]) =>
+      (webcrypto.subtle.importKey as any)(...args)
+    )
+    vi.mocked(crypto.subtle.verify).mockImplementation((...args: any[]) => (webcrypto.subtle.verify as any)(...args))
+    // Local JWKS stand-in
+    vi.mocked(fetch).mockImplementation(async () => ({ ok: true, json: async () => jwks }) as Response)
+  })
+
+  describe('verifyIdToken', () => {
+    it('should accept a valid RS256 token', async () => {
+      const token = await signToken(rsaKeys.privateKey, { alg: 'RS256', kid: 'rsa-1' }, validClaims, 'RSASSA-PKCS1-v1_5')
+
+      const result = await verifyIdToken(token, expectations)
+
+      expect(result.isValid).toBe(true)
+      expect(result.isValid && result.claims.sub).toBe('user-123')
+      expect(fetch).toHaveBeenCalledWith(jwksUri, expect.any(Object))
+    })
+
+    it('should accept a valid ES256 token', async () => {
+      const token = await signToken(ecKeys.privateKey, { alg: 'ES256', kid: 'ec-1' }, validClaims, {
+        name: 'ECDSA',
+        hash: 'SHA-256',
+      })
+
+      const result = await verifyIdToken(token, expectations)
+
+      expect(result.isValid).toBe(true)
+    })
+
+    it('should reject a token with a tampered payload', async () => {
+      const token = await signToken(rsaKeys.privateKey, { alg: 'RS256', kid: 'rsa-1' }, validClaims, 'RSASSA-PKCS1-v1_5')
+      const [header, , signature] = token.split('.')
+      const forged = `${header}.${base64Url(JSON.stringify({ ...validClaims, sub: 'admin' }))}.${signature}`
+
+      const result = await verifyIdToken(forged, expectations)
+
+      expect(result).toEqual({ isValid: false, error: 'ID token signature is invalid' })
+    })
+
+    it('should reject unsupported algorithms', async () => {
+      const token = `${base64Url(JSON.stringify({ alg: 'none' }))}.${base64Url(JSON.stringify(validClaims))}.`
+
+      const result = await verifyIdToken(token, expectations)
+
+      expect(result).toEqual({ isValid: false, error: 'Unsupported ID token algorithm: none' })
+    })
+
+    it('should reject tokens signed by an unknown key', async () => {
+      const token = await signToken(rsaKeys.privateKey, { alg: 'RS256', kid: 'rotated-away' }, validClaims, 'RSASSA-PKCS1-v1_5')
+
+      const result = await verifyIdToken(token, expectations)
+
+      expect(result).toEqual({ isValid: false, error: 'No matching signing key found for ID token' })
+    })
+
+    it('should reject malformed tokens', async () => {
+      expect(await verifyIdToken('not-a-jwt', expectations)).toEqual({ isValid: false, error: 'ID token is not a valid JWT' })
+    })
+  })
+
+  describe('validateIdTokenClaims', () => {
+    it('should reject a wrong issuer', () => {
+      const result = validateIdTokenClaims({ ...validClaims, iss: 'https://evil.example.com' }, expectations)
+      expect(result.isValid).toBe(false)
+      expect(!result.isValid && result.error).toContain('issuer mismatch')
+    })
+
+    it('should accept any of several expected issuers', () => {
+      const google = { ...expectations, issuer: ['https://accounts.google.com', 'accounts.google.com'] }
+
+      expect(validateIdTokenClaims({ ...validClaims, iss: 'accounts.google.com' }, google).isValid).toBe(true)
+      expect(validateIdTokenClaims({ ...validClaims, iss: 'https://accounts.google.com' }, google).isValid).toBe(true)
+      expect(validateIdTokenClaims(validClaims, google)).toEqual({
+        isValid: false,
+        error: `ID token issuer mismatch: expected https://accounts.google.com or accounts.google.com, got ${issuer}`,
+      })
+    })
+
+    it('should reject a token issued for another client', () => {
+      const result = validateIdTokenClaims({ ...validClaims, aud: 'other-client' }, expectations)
+      expect(result).toEqual({ isValid: false, error: 'ID token was not issued for this client' })
+    })
+
+    it('should require azp when there are several audiences', () => {
+      const result = validateIdTokenClaims({ ...validClaims, aud: [audience, 'other'], azp: 'other' }, expectations)
+      expect(result).toEqual({ isValid: false, error: 'ID token authorized party does not match this client' })
+    })
+
+    it('should reject an expired token', () => {
+      const result = validateIdTokenClaims({ ...validClaims, exp: now - 3600 }, expectations)
+      expect(result).toEqual({ isValid: false, error: 'ID token has expired' })
+    })
+
+    it('should reject a nonce mismatch', () => {
+      const result = validateIdTokenClaims({ ...validClaims, nonce: 'replayed' }, expectations)
+      expect(result).toEqual({ isValid: false, error: 'ID token nonce does not match the authorization request' })
+    })
+  })
+})
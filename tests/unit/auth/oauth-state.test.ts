@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { webcrypto } from 'node:crypto'
+import { createUpstreamState, consumeUpstreamState, clearUpstreamStateCookie } from '../../../src/auth/oauth-utils'
+import type { UpstreamAuthState } from '../../../src/types'
+
+const secret = 'test-cookie-secret'
+
+const authState: UpstreamAuthState = {
+  providerId: 'github',
+  oauthReqInfo: {
+    responseType: 'code',
+    clientId: 'mcp-client',
+    redirectUri: 'https://client.example.com/callback',
+    scope: [],
+    state: 'client-state',
+  },
+  codeVerifier: 'verifier-123',
+  nonce: 'nonce-456',
+}
+
+// In-memory stand-in for the KV namespace
+function createMockKV() {
+  const store = new Map<string, string>()
+  return {
+    store,
+    get: vi.fn(async (key: string, type?: string) => {
+      const value = store.get(key)
+      if (value === undefined) return null
+      return type === 'json' ? JSON.parse(value) : value
+    }),
+    put: vi.fn(async (key: string, value: string) => {
+      store.set(key, value)
+    }),
+    delete: vi.fn(async (key: string) => {
+      store.delete(key)
+    }),
+  }
+}
+
+function callbackRequest(state: string | null, cookie?: string) {
+  const url = new URL('https://mcp.example.com/github/callback?code=abc')
+  if (state !== null) url.searchParams.set('state', state)
+  return new Request(url, { headers: cookie ? { Cookie: cookie } : {} })
+}
+
+function cookiePair(setCookie: string) {
+  return setCookie.split(';')[0]
+}
+
+describe('Upstream OAuth State', () => {
+  let kv: ReturnType<typeof createMockKV>
+
+  beforeEach(() => {
+    kv = createMockKV()
+    // The global crypto is stubbed in tests/setup.ts, use Node's WebCrypto for real HMAC checks
+    vi.mocked(crypto.getRandomValues).mockImplementation((array: any) => webcrypto.getRandomValues(array))
+    vi.mocked(crypto.subtle.importKey).mockImplementation((...args: any[]) =>
+      (webcrypto.subtle.importKey as any)(...args)
+    )
+    vi.mocked(crypto.subtle.sign).mockImplementation((...args: any[]) => (webcrypto.subtle.sign as any)(...args))
+    vi.mocked(crypto.subtle.verify).mockImplementation((...args: any[]) => (webcrypto.subtle.verify as any)(...args))
+  })
+
+  it('should store the state server-side and return an opaque signed state', async () => {
+    const { state, setCookie } = await createUpstreamState(kv as any, secret, authState)
+
+    expect(state).toMatch(/^[\w-]+\.[0-9a-f]{64}$/)
+    expect(state).not.toContain('verifier-123')
+    expect(setCookie).toContain(`mcp-oauth-state-${state.split('.')[0]}=${state}`)
+    expect(setCookie).toContain('HttpOnly')
+    expect(kv.put).toHaveBeenCalledWith(expect.stringMatching(/^upstream-state:/), JSON.stringify(authState), {
+      expirationTtl: 600,
+    })
+  })
+
+  it('should return the stored state for a valid callback', async () => {
+    const { state, setCookie } = await createUpstreamState(kv as any, secret, authState)
+
+    const [stored, error] = await consumeUpstreamState(
+      callbackRequest(state, `other=1; ${cookiePair(setCookie)}`),
+      kv as any,
+      secret,
+      'github'
+    )
+
+    expect(error).toBeNull()
+    expect(stored).toEqual(authState)
+  })
+
+  it('should only allow a state to be used once', async () => {
+    const { state, setCookie } = await createUpstreamState(kv as any, secret, authState)
+    const request = () => callbackRequest(state, cookiePair(setCookie))
+
+    await consumeUpstreamState(request(), kv as any, secret, 'github')
+    const [stored, error] = await consumeUpstreamState(request(), kv as any, secret, 'github')
+
+    expect(stored).toBeNull()
+    expect(error?.status).toBe(400)
+    expect(await error?.text()).toContain('expired or was already used')
+  })
+
+  it('should reject a callback without the binding cookie', async () => {
+    const { state } = await createUpstreamState(kv as any, secret, authState)
+
+    const [stored, error] = await consumeUpstreamState(callbackRequest(state), kv as any, secret, 'github')
+
+    expect(stored).toBeNull()
+    expect(await error?.text()).toContain('different browser session')
+    expect(kv.get).not.toHaveBeenCalled()
+  })
+
+  it('should reject a cookie bound to another state', async () => {
+    const first = await createUpstreamState(kv as any, secret, authState)
+    const second = await createUpstreamState(kv as any, secret, authState)
+
+    const [stored] = await consumeUpstreamState(
+      callbackRequest(first.state, cookiePair(second.setCookie)),
+      kv as any,
+      secret,
+      'github'
+    )
+
+    expect(stored).toBeNull()
+  })
+
+  it('should keep sign-ins started in several tabs apart', async () => {
+    const first = await createUpstreamState(kv as any, secret, authState)
+    const second = await createUpstreamState(kv as any, secret, { ...authState, nonce: 'second-nonce' })
+    const cookie = `${cookiePair(first.setCookie)}; ${cookiePair(second.setCookie)}`
+
+    const [secondStored] = await consumeUpstreamState(callbackRequest(second.state, cookie), kv as any, secret, 'github')
+    const [firstStored] = await consumeUpstreamState(callbackRequest(first.state, cookie), kv as any, secret, 'github')
+
+    expect(secondStored?.nonce).toBe('second-nonce')
+    expect(firstStored?.nonce).toBe('nonce-456')
+  })
+
+  it('should reject a forged or malformed state', async () => {
+    const { state } = await createUpstreamState(kv as any, secret, authState)
+    const [stateId] = state.split('.')
+    const forged = `${stateId}.${'0'.repeat(64)}`
+
+    const [forgedState, forgedError] = await consumeUpstreamState(
+      callbackRequest(forged, `mcp-oauth-state-${stateId}=${forged}`),
+      kv as any,
+      secret,
+      'github'
+    )
+    const [missingState, missingError] = await consumeUpstreamState(callbackRequest(null), kv as any, secret, 'github')
+
+    expect(forgedState).toBeNull()
+    expect(await forgedError?.text()).toContain('could not be verified')
+    expect(missingState).toBeNull()
+    expect(await missingError?.text()).toContain('missing or malformed')
+  })
+
+  it('should reject a state issued for another provider', async () => {
+    const { state, setCookie } = await createUpstreamState(kv as any, secret, authState)
+
+    const [stored, error] = await consumeUpstreamState(
+      callbackRequest(state, cookiePair(setCookie)),
+      kv as any,
+      secret,
+      'google'
+    )
+
+    expect(stored).toBeNull()
+    expect(await error?.text()).toContain('does not belong to this provider')
+  })
+
+  it('should build a cookie that clears the binding of a state', () => {
+    expect(clearUpstreamStateCookie('abc123.signature')).toMatch(/^mcp-oauth-state-abc123=;.*Max-Age=0$/)
+  })
+})
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { discoverOidcConfiguration, clearOidcDiscoveryCache, mapOidcClaims } from '../../../src/auth/oidc'
+
+const issuer = 'https://idp.example.com/realms/demo'
+
+const discoveryDocument = {
+  issuer,
+  authorization_endpoint: `${issuer}/authorize`,
+  token_endpoint: `${issuer}/token`,
+  userinfo_endpoint: `${issuer}/userinfo`,
+  jwks_uri: `${issuer}/jwks`,
+}
+
+function mockDiscoveryResponse(body: unknown, ok = true) {
+  vi.mocked(fetch).mockResolvedValue({
+    ok,
+    status: ok ? 200 : 404,
+    json: () => Promise.resolve(body),
+  } as Response)
+}
+
+describe('OIDC', () => {
+  beforeEach(() => {
+    clearOidcDiscoveryCache()
+  })
+
+  describe('discoverOidcConfiguration', () => {
+    it('should read endpoints from the well-known document', async () => {
+      mockDiscoveryResponse(discoveryDocument)
+
+      const discovery = await discoverOidcConfiguration(`${issuer}/`)
+
+      expect(fetch).toHaveBeenCalledWith(`${issuer}/.well-known/openid-configuration`, expect.any(Object))
+      expect(discovery.authorization_endpoint).toBe(`${issuer}/authorize`)
+      expect(discovery.token_endpoint).toBe(`${issuer}/token`)
+      expect(discovery.userinfo_endpoint).toBe(`${issuer}/userinfo`)
+      expect(discovery.jwks_uri).toBe(`${issuer}/jwks`)
+    })
+
+    it('should cache discovery per issuer', async () => {
+      mockDiscoveryResponse(discoveryDocument)
+
+      await discoverOidcConfiguration(issuer)
+      await discoverOidcConfiguration(issuer)
+
+      expect(fetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should reject a document issued for another issuer', async () => {
+      mockDiscoveryResponse({ ...discoveryDocument, issuer: 'https://evil.example.com' })
+
+      await expect(discoverOidcConfiguration(issuer)).rejects.toThrow('issuer mismatch')
+    })
+
+    it('should reject documents missing required endpoints', async () => {
+      mockDiscoveryResponse({ ...discoveryDocument, jwks_uri: undefined })
+
+      await expect(discoverOidcConfiguration(issuer)).rejects.toThrow('missing jwks_uri')
+    })
+
+    it('should not cache failed lookups', async () => {
+      mockDiscoveryResponse({}, false)
+      await expect(discoverOidcConfiguration(issuer)).rejects.toThrow('OIDC discovery failed')
+
+      mockDiscoveryResponse(discoveryDocument)
+      await expect(discoverOidcConfiguration(issuer)).resolves.toMatchObject({ issuer })
+    })
+  })
+
+  describe('mapOidcClaims', () => {
+    it('should map standard claims into props', () => {
+      const identity = mapOidcClaims(
+        {
+          sub: 'user-123',
+          email: 'jane@example.com',
+          email_verified: true,
+          preferred_username: 'jane',
+          given_name: 'Jane',
+          family_name: 'Doe',
+          picture: 'https://example.com/jane.png',
+        },
+        'access-token',
+        'oidc'
+      )
+
+      expect(identity.userId).toBe('jane')
+      expect(identity.props).toMatchObject({
+        accessToken: 'access-token',
+        login: 'jane',
+        name: 'Jane Doe',
+        email: 'jane@example.com',
+        verified_email: true,
+        sub: 'user-123',
+        picture: 'https://example.com/jane.png',
+        provider: 'oidc',
+      })
+    })
+
+    it('should fall back to the email prefix and then sub for login', () => {
+      expect(mapOidcClaims({ sub: 's1', email: 'bob@example.com' }, 't', 'oidc').props.login).toBe('bob')
+      expect(mapOidcClaims({ sub: 's1' }, 't', 'oidc').props.login).toBe('s1')
+    })
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { webcrypto } from 'node:crypto'
+import { TOOL_SCOPES, resolveGrantedScopes, hasScope } from '../../../src/auth/scopes'
+import { clientIdAlreadyApproved, parseRedirectApproval, renderApprovalDialog } from '../../../src/auth/oauth-utils'
+import { mockProps } from '../../fixtures/auth.fixtures'
+
+const secret = 'test-cookie-secret'
+
+// Approve a request through the dialog form and return the approval cookie
+async function approve(scope: string[]) {
+  const body = new URLSearchParams({ state: btoa(JSON.stringify({ oauthReqInfo: { clientId: 'client-1', scope } })) })
+  const { headers } = await parseRedirectApproval(
+    new Request('https://mcp.example.com/github/authorize', { method: 'POST', body }),
+    secret
+  )
+  return headers['Set-Cookie'].split(';')[0]
+}
+
+function withCookie(cookie: string) {
+  return new Request('https://mcp.example.com/github/authorize', { headers: { Cookie: cookie } })
+}
+
+describe('Tool Scopes', () => {
+  describe('resolveGrantedScopes', () => {
+    it('should keep only known tool scopes', () => {
+      expect(resolveGrantedScopes(['db:read', 'openid', 'db:read'])).toEqual(['db:read'])
+    })
+
+    it('should grant every scope to clients that request none', () => {
+      expect(resolveGrantedScopes([])).toEqual(Object.keys(TOOL_SCOPES))
+      expect(resolveGrantedScopes(undefined)).toEqual(Object.keys(TOOL_SCOPES))
+    })
+  })
+
+  describe('hasScope', () => {
+    it('should check the scopes on the grant', () => {
+      const props = { ...mockProps, grantedScopes: ['db:read'] }
+
+      expect(hasScope(props, 'db:read')).toBe(true)
+      expect(hasScope(props, 'db:write')).toBe(false)
+    })
+
+    it('should allow everything for grants issued before scopes existed', () => {
+      expect(hasScope(mockProps, 'db:write')).toBe(true)
+    })
+  })
+
+  describe('renderApprovalDialog', () => {
+    it('should list the requested scopes', async () => {
+      const response = renderApprovalDialog(new Request('https://mcp.example.com/github/authorize'), {
+        client: null,
+        server: { name: 'Test Server' },
+        state: {},
+        scopes: ['db:read'],
+      })
+      const html = await response.text()
+
+      expect(html).toContain('Requested permissions')
+      expect(html).toContain('<code>db:read</code>')
+      expect(html).toContain(TOOL_SCOPES['db:read'])
+      expect(html).not.toContain('db:write')
+    })
+  })
+
+  describe('approval cookie', () => {
+    beforeEach(() => {
+      // The global crypto is stubbed in tests/setup.ts, use Node's WebCrypto for real HMAC checks
+      vi.mocked(crypto.subtle.importKey).mockImplementation((...args: any[]) =>
+        (webcrypto.subtle.importKey as any)(...args)
+      )
+      vi.mocked(crypto.subtle.sign).mockImplementation((...args: any[]) => (webcrypto.subtle.sign as any)(...args))
+      vi.mocked(crypto.subtle.verify).mockImplementation((...args: any[]) => (webcrypto.subtle.verify as any)(...args))
+    })
+
+    it('should not let an approval for read scopes cover a write request', async () => {
+      const request = withCookie(await approve(['db:read']))
+
+      expect(await clientIdAlreadyApproved(request, 'client-1', secret, ['db:read'])).toBe(true)
+      expect(await clientIdAlreadyApproved(request, 'client-1', secret, ['db:read', 'db:write'])).toBe(false)
+      expect(await clientIdAlreadyApproved(request, 'client-1', secret, [])).toBe(false)
+    })
+
+    it('should let a full approval cover narrower requests', async () => {
+      const request = withCookie(await approve([]))
+
+      expect(await clientIdAlreadyApproved(request, 'client-1', secret, ['db:read'])).toBe(true)
+      expect(await clientIdAlreadyApproved(request, 'client-1', secret)).toBe(true)
+    })
+  })
+})
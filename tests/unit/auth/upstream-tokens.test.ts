@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { webcrypto } from 'node:crypto'
+import {
+  applyUpstreamTokens,
+  isUpstreamTokenExpiring,
+  createUpstreamTokenSource,
+  createTokenExchangeCallback,
+  withUpstreamToken,
+  encryptUpstreamToken,
+  decryptUpstreamToken,
+} from '../../../src/auth/upstream-tokens'
+import type { Props } from '../../../src/types'
+
+const secret = 'test-cookie-secret'
+const now = 1_700_000_000_000
+
+const env = {
+  COOKIE_ENCRYPTION_KEY: secret,
+  GOOGLE_CLIENT_ID: 'google-client',
+  GOOGLE_CLIENT_SECRET: 'google-secret',
+} as any
+
+const baseProps: Props = {
+  login: 'jane',
+  name: 'Jane Doe',
+  email: 'jane@example.com',
+  accessToken: 'old-access-token',
+  provider: 'google',
+}
+
+function mockTokenEndpoint(body: Record<string, unknown>, ok = true) {
+  vi.mocked(fetch).mockResolvedValue({
+    ok,
+    status: ok ? 200 : 400,
+    headers: new Headers({ 'Content-Type': 'application/json' }),
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  } as Response)
+}
+
+describe('Upstream Tokens', () => {
+  beforeEach(() => {
+    // The global crypto is stubbed in tests/setup.ts, use Node's WebCrypto for real AES-GCM
+    Object.assign(crypto.subtle, {
+      digest: webcrypto.subtle.digest.bind(webcrypto.subtle),
+      encrypt: webcrypto.subtle.encrypt.bind(webcrypto.subtle),
+      decrypt: webcrypto.subtle.decrypt.bind(webcrypto.subtle),
+    })
+    vi.mocked(crypto.subtle.importKey).mockImplementation((...args: any[]) =>
+      (webcrypto.subtle.importKey as any)(...args)
+    )
+    vi.mocked(crypto.getRandomValues).mockImplementation((array: any) => webcrypto.getRandomValues(array))
+  })
+
+  describe('encryptUpstreamToken', () => {
+    it('should round trip a token', async () => {
+      const encrypted = await encryptUpstreamToken(secret, 'refresh-123')
+
+      expect(encrypted).not.toContain('refresh-123')
+      expect(await decryptUpstreamToken(secret, encrypted)).toBe('refresh-123')
+    })
+
+    it('should not decrypt with another secret', async () => {
+      const encrypted = await encryptUpstreamToken(secret, 'refresh-123')
+
+      await expect(decryptUpstreamToken('other-secret', encrypted)).rejects.toThrow()
+    })
+  })
+
+  describe('applyUpstreamTokens', () => {
+    it('should store the expiry and the encrypted refresh token', async () => {
+      const props = await applyUpstreamTokens(
+        baseProps,
+        { access_token: 'new-access-token', expires_in: 3600, refresh_token: 'refresh-123' },
+        secret,
+        now
+      )
+
+      expect(props.accessToken).toBe('new-access-token')
+      expect(props.accessTokenExpiresAt).toBe(now + 3600 * 1000)
+      expect(await decryptUpstreamToken(secret, props.refreshToken!)).toBe('refresh-123')
+    })
+
+    it('should keep the previous refresh token when it is not rotated', async () => {
+      const props = await applyUpstreamTokens({ ...baseProps, refreshToken: 'kept' }, { access_token: 'a' }, secret, now)
+
+      expect(props.refreshToken).toBe('kept')
+      expect(props.accessTokenExpiresAt).toBeUndefined()
+    })
+  })
+
+  describe('isUpstreamTokenExpiring', () => {
+    it('should treat tokens within a minute of expiry as expiring', () => {
+      expect(isUpstreamTokenExpiring({ ...baseProps, accessTokenExpiresAt: now + 30_000 }, now)).toBe(true)
+      expect(isUpstreamTokenExpiring({ ...baseProps, accessTokenExpiresAt: now + 600_000 }, now)).toBe(false)
+      expect(isUpstreamTokenExpiring(baseProps, now)).toBe(false)
+    })
+  })
+
+  describe('createUpstreamTokenSource', () => {
+    it('should refresh an expired token and persist the new props', async () => {
+      const props: Props = {
+        ...baseProps,
+        accessTokenExpiresAt: Date.now() - 1000,
+        refreshToken: await encryptUpstreamToken(secret, 'refresh-123'),
+      }
+      const persist = vi.fn()
+      mockTokenEndpoint({ access_token: 'new-access-token', expires_in: 3600 })
+
+      const token = await createUpstreamTokenSource(env, props, persist).getAccessToken()
+
+      expect(token).toBe('new-access-token')
+      expect(props.accessToken).toBe('new-access-token')
+      expect(persist).toHaveBeenCalledWith(props)
+      const [url, init] = vi.mocked(fetch).mock.calls[0]
+      expect(url).toBe('https://oauth2.googleapis.com/token')
+      const body = new URLSearchParams(init!.body as string)
+      expect(body.get('grant_type')).toBe('refresh_token')
+      expect(body.get('refresh_token')).toBe('refresh-123')
+      expect(body.get('client_secret')).toBe('google-secret')
+    })
+
+    it('should not refresh a token that is still valid', async () => {
+      const source = createUpstreamTokenSource(env, { ...baseProps, accessTokenExpiresAt: Date.now() + 3_600_000 })
+
+      expect(await source.getAccessToken()).toBe('old-access-token')
+      expect(fetch).not.toHaveBeenCalled()
+    })
+
+    it('should report a rejected refresh as an authentication failure', async () => {
+      const props: Props = { ...baseProps, refreshToken: await encryptUpstreamToken(secret, 'revoked') }
+      mockTokenEndpoint({ error: 'invalid_grant' }, false)
+
+      await expect(createUpstreamTokenSource(env, props).refresh()).rejects.toMatchObject({ status: 401 })
+    })
+  })
+
+  describe('withUpstreamToken', () => {
+    it('should refresh and retry once when the API returns 401', async () => {
+      const source = {
+        getAccessToken: vi.fn().mockResolvedValue('stale'),
+        refresh: vi.fn().mockResolvedValue('fresh'),
+      }
+      const operation = vi.fn(async (token: string) => {
+        if (token === 'stale') throw { status: 401 }
+        return `ok with ${token}`
+      })
+
+      expect(await withUpstreamToken(source, operation)).toBe('ok with fresh')
+      expect(source.refresh).toHaveBeenCalledTimes(1)
+      expect(operation).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not retry other errors', async () => {
+      const source = { getAccessToken: vi.fn().mockResolvedValue('token'), refresh: vi.fn() }
+
+      await expect(withUpstreamToken(source, async () => Promise.reject({ status: 403 }))).rejects.toEqual({ status: 403 })
+      expect(source.refresh).not.toHaveBeenCalled()
+    })
+
+    it('should pass plain access tokens straight through', async () => {
+      expect(await withUpstreamToken('plain', async (token) => token)).toBe('plain')
+    })
+  })
+
+  describe('createTokenExchangeCallback', () => {
+    it('should renew an expiring upstream token when the client refreshes', async () => {
+      const props: Props = {
+        ...baseProps,
+        accessTokenExpiresAt: Date.now() - 1000,
+        refreshToken: await encryptUpstreamToken(secret, 'refresh-123'),
+      }
+      mockTokenEndpoint({ access_token: 'new-access-token', expires_in: 3600 })
+
+      const result = await createTokenExchangeCallback(env)({
+        grantType: 'refresh_token',
+        clientId: 'mcp-client',
+        userId: 'jane',
+        scope: [],
+        props,
+      })
+
+      expect(result?.newProps.accessToken).toBe('new-access-token')
+    })
+
+    it('should leave the initial code exchange alone', async () => {
+      const result = await createTokenExchangeCallback(env)({
+        grantType: 'authorization_code',
+        clientId: 'mcp-client',
+        userId: 'jane',
+        scope: [],
+        props: baseProps,
+      })
+
+      expect(result).toBeUndefined()
+      expect(fetch).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  DEFAULT_DATABASE_NAME,
+  canAccessDatabase,
+  getAccessibleDatabases,
+  loadDatabaseConfigs,
+  selectDatabase,
+} from '../../../src/database/databases'
+
+const env = {
+  DATABASE_URL: 'postgresql://primary:5432/app',
+  DATABASES: JSON.stringify({
+    analytics: { url: 'postgresql://analytics:5432/warehouse', readRole: 'analyst' },
+    'billing-replica': { url: 'postgresql://replica:5432/billing', readOnly: true },
+  }),
+} as any
+
+describe('Named Databases', () => {
+  describe('loadDatabaseConfigs', () => {
+    it('should use DATABASE_URL as the default database', () => {
+      expect(loadDatabaseConfigs({ DATABASE_URL: 'postgresql://primary:5432/app' } as any)).toEqual([
+        { name: DEFAULT_DATABASE_NAME, url: 'postgresql://primary:5432/app', readOnly: false, readRole: 'db-reader', writeRole: 'db-writer' },
+      ])
+    })
+
+    it('should add the databases configured in DATABASES', () => {
+      const databases = loadDatabaseConfigs(env)
+
+      expect(databases.map((db) => db.name)).toEqual(['default', 'analytics', 'billing-replica'])
+      expect(databases[1]).toMatchObject({ readRole: 'analyst', writeRole: 'db-writer', readOnly: false })
+      expect(databases[2]).toMatchObject({ url: 'postgresql://replica:5432/billing', readOnly: true })
+    })
+
+    it('should let a "default" entry change the roles of DATABASE_URL', () => {
+      const [primary] = loadDatabaseConfigs({ ...env, DATABASES: JSON.stringify({ default: { readRole: 'db-writer' } }) })
+
+      expect(primary).toMatchObject({ url: 'postgresql://primary:5432/app', readRole: 'db-writer' })
+    })
+
+    it('should ignore an invalid DATABASES value', () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      expect(loadDatabaseConfigs({ ...env, DATABASES: '{"bad name": {"url": "x"}}' }).map((db) => db.name)).toEqual(['default'])
+      expect(loadDatabaseConfigs({ ...env, DATABASES: '{"analytics": {}}' }).map((db) => db.name)).toEqual(['default'])
+      expect(consoleSpy).toHaveBeenCalled()
+      consoleSpy.mockRestore()
+    })
+  })
+
+  describe('access', () => {
+    it('should require the read or write role of each database', () => {
+      const [primary, analytics, replica] = loadDatabaseConfigs(env)
+
+      expect(canAccessDatabase(new Set(['db-reader']), primary, 'read')).toBe(true)
+      expect(canAccessDatabase(new Set(['db-reader']), primary, 'write')).toBe(false)
+      expect(canAccessDatabase(new Set(['db-reader']), analytics, 'read')).toBe(false)
+      expect(canAccessDatabase(new Set(['db-writer']), analytics, 'read')).toBe(true)
+      expect(canAccessDatabase(new Set(['admin']), replica, 'write')).toBe(false)
+    })
+
+    it('should list the accessible databases', () => {
+      expect(getAccessibleDatabases(env, new Set(['analyst']), 'read').map((db) => db.name)).toEqual(['analytics'])
+      expect(getAccessibleDatabases(env, new Set(['db-writer']), 'write').map((db) => db.name)).toEqual(['default', 'analytics'])
+    })
+  })
+
+  describe('selectDatabase', () => {
+    it('should default to the default database, then the first accessible one', () => {
+      expect(selectDatabase(env, new Set(['db-reader']), undefined, 'read')).toMatchObject({ database: { name: 'default' } })
+      expect(selectDatabase(env, new Set(['analyst']), undefined, 'read')).toMatchObject({ database: { name: 'analytics' } })
+      expect(selectDatabase(env, new Set(), undefined, 'read')).toEqual({ error: 'No database is available for read access.' })
+    })
+
+    it('should explain why a database cannot be used', () => {
+      expect(selectDatabase(env, new Set(['db-reader']), 'analytics', 'read')).toEqual({
+        error: 'You do not have read access to database "analytics".',
+      })
+      expect(selectDatabase(env, new Set(['admin']), 'billing-replica', 'write')).toEqual({ error: 'Database "billing-replica" is read-only.' })
+      expect(selectDatabase(env, new Set(['admin']), 'missing', 'read')).toMatchObject({ error: expect.stringContaining('Unknown database "missing"') })
+    })
+  })
+})
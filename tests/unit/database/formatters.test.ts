@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { formatResultRows, normalizeValue } from '../../../src/database/formatters'
+
+const rows = [
+  { id: 1, name: 'Ada, "the first"', tags: ['a', 'b'] },
+  { id: 2, name: null, tags: [] },
+]
+
+describe('Result Formatters', () => {
+  describe('normalizeValue', () => {
+    it('should convert Postgres types that JSON cannot represent', () => {
+      expect(normalizeValue(9007199254740993n)).toBe('9007199254740993')
+      expect(normalizeValue(new Date('2024-01-02T03:04:05Z'))).toBe('2024-01-02T03:04:05.000Z')
+      expect(normalizeValue(new Uint8Array([0, 171, 255]))).toBe('\\x00abff')
+      expect(normalizeValue(Number.POSITIVE_INFINITY)).toBe('Infinity')
+      expect(normalizeValue([1n, { at: new Date(0) }])).toEqual(['1', { at: '1970-01-01T00:00:00.000Z' }])
+    })
+
+    it('should keep numeric strings as returned by the driver', () => {
+      expect(normalizeValue('12345678901234567890.123')).toBe('12345678901234567890.123')
+    })
+  })
+
+  describe('formatResultRows', () => {
+    it('should default to pretty JSON', () => {
+      expect(formatResultRows([{ big: 1n }])).toBe('```json\n[\n  {\n    "big": "1"\n  }\n]\n```')
+    })
+
+    it('should render a Markdown table', () => {
+      const table = formatResultRows([{ id: 1, note: 'a|b\nc' }, { id: 2, note: null }], 'markdown')
+
+      expect(table).toBe('| id | note |\n| --- | --- |\n| 1 | a\\|b<br>c |\n| 2 | NULL |')
+      expect(formatResultRows([], 'markdown')).toBe('_No rows_')
+    })
+
+    it('should render CSV with quoting', () => {
+      expect(formatResultRows(rows, 'csv')).toBe('```csv\nid,name,tags\n1,"Ada, ""the first""","[""a"",""b""]"\n2,,[]\n```')
+    })
+
+    it('should render NDJSON and columnar JSON', () => {
+      expect(formatResultRows(rows, 'ndjson')).toBe(
+        '```json\n{"id":1,"name":"Ada, \\"the first\\"","tags":["a","b"]}\n{"id":2,"name":null,"tags":[]}\n```'
+      )
+      expect(formatResultRows(rows, 'columnar')).toBe(
+        '```json\n{"columns":["id","name","tags"],"rows":[[1,"Ada, \\"the first\\"",["a","b"]],[2,null,[]]]}\n```'
+      )
+    })
+  })
+})
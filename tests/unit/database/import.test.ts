@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from 'vitest'
+import { getImportRowLimit, ImportError, importRows, parseImportRows } from '../../../src/database/import'
+
+const column = (column_name: string, data_type: string, is_nullable: string, column_default: string | null = null, udt_name?: string) => ({
+  table_schema: 'public',
+  table_name: 'orders',
+  column_name,
+  data_type,
+  udt_name,
+  is_nullable,
+  column_default,
+})
+
+const columns = [
+  column('id', 'integer', 'NO', "nextval('orders_id_seq'::regclass)"),
+  column('customer', 'text', 'NO'),
+  column('quantity', 'smallint', 'YES'),
+  column('status', 'USER-DEFINED', 'YES', null, 'order_status'),
+  column('tags', 'ARRAY', 'YES', null, '_text'),
+]
+
+// A connection with a public.orders table; inserts of the customer 'duplicate' violate a unique constraint
+function createConnection() {
+  const connection: any = {
+    unsafe: vi.fn(async (query: string, params: string[] = []) => {
+      if (query.includes('pg_catalog.pg_attrdef')) return columns
+      if (query.includes('pg_catalog.pg_constraint')) return [{ schema: 'public', table_name: 'orders', name: 'orders_pkey', type: 'p', columns: ['id'] }]
+      if (query.startsWith('SELECT t.typname')) return [{ name: 'order_status', values: ['open', 'shipped'] }]
+      if (query.startsWith('INSERT')) {
+        if (params.includes('duplicate')) {
+          throw Object.assign(new Error('duplicate key value violates unique constraint "orders_customer_key"'), { code: '23505', detail: 'Key (customer)=(duplicate) already exists.' })
+        }
+        return query.split(' VALUES ')[1].split('), (').map(() => ({ inserted: true }))
+      }
+      return []
+    }),
+  }
+  const inserts = () => connection.unsafe.mock.calls.filter((call: any[]) => call[0].startsWith('INSERT'))
+  const statements = () => connection.unsafe.mock.calls.map((call: any[]) => call[0]).filter((sql: string) => !sql.includes('\n'))
+  return { connection, inserts, statements }
+}
+
+describe('Row Import', () => {
+  it('should read CSV with quoting, NULLs and empty strings', () => {
+    const csv = '\uFEFFcustomer,quantity,notes\r\n"Smith, Jane",2,""\n\nBob,,"said ""hi""\nand left"\nAlice,1\n'
+
+    expect(parseImportRows(csv, 'csv', 100)).toEqual({
+      rows: [
+        { row: 1, values: { customer: 'Smith, Jane', quantity: '2', notes: '' } },
+        { row: 2, values: { customer: 'Bob', quantity: null, notes: 'said "hi"\nand left' } },
+      ],
+      errors: [{ row: 3, error: 'expected 3 fields, found 2' }],
+    })
+    expect(() => parseImportRows('a,"b\n1,2', 'csv', 100)).toThrow('ends inside a quoted field')
+    expect(() => parseImportRows('a,a\n1,2', 'csv', 100)).toThrow('column a more than once')
+  })
+
+  it('should read a JSON array of objects within the row limit', () => {
+    expect(parseImportRows('[{"customer":"Bob"},[1],null]', 'json', 100)).toEqual({
+      rows: [{ row: 1, values: { customer: 'Bob' } }],
+      errors: [
+        { row: 2, error: 'expected an object with a value per column' },
+        { row: 3, error: 'expected an object with a value per column' },
+      ],
+    })
+    expect(() => parseImportRows('{"customer":"Bob"}', 'json', 100)).toThrow(ImportError)
+    expect(() => parseImportRows('[{}, {}, {}]', 'json', 2)).toThrow('Too many rows: 3 (max 2)')
+    expect(() => parseImportRows('[]', 'json', 2)).toThrow('There are no rows to import')
+    expect(getImportRowLimit({ IMPORT_MAX_ROWS: '500' } as any)).toBe(500)
+    expect(getImportRowLimit({} as any)).toBe(10_000)
+  })
+
+  it('should insert the rows in one transaction with the column defaults', async () => {
+    const { connection, inserts, statements } = createConnection()
+    const parsed = parseImportRows('[{"customer":"Bob","quantity":2,"tags":["a","b \\"c\\""]},{"customer":"Jane","status":"open"}]', 'json', 100)
+
+    const result = await importRows(connection, 'orders', parsed)
+
+    expect(result).toEqual({ table: 'public.orders', columns: ['customer', 'quantity', 'status', 'tags'], inserted: 2, updated: 0, unchanged: 0, errors: [] })
+    expect(inserts()).toEqual([[
+      'INSERT INTO "public"."orders" ("customer", "quantity", "status", "tags") VALUES ($1, $2, DEFAULT, $3), ($4, DEFAULT, $5, DEFAULT) RETURNING (xmax = 0) AS inserted',
+      ['Bob', '2', '{"a","b \\"c\\""}', 'Jane', 'open'],
+    ]])
+    expect(statements()).toEqual(['BEGIN', inserts()[0][0], 'COMMIT'])
+  })
+
+  it('should upsert on the primary key or the given columns', async () => {
+    const { connection, inserts } = createConnection()
+
+    await importRows(connection, 'public.orders', parseImportRows('id,customer\n1,Bob', 'csv', 100), { onConflict: 'update' })
+    await importRows(connection, 'orders', parseImportRows('customer,quantity\nBob,1', 'csv', 100), { conflictColumns: ['customer'], onConflict: 'ignore' })
+
+    expect(inserts()[0][0]).toContain('ON CONFLICT ("id") DO UPDATE SET "customer" = EXCLUDED."customer" RETURNING')
+    expect(inserts()[1][0]).toContain('ON CONFLICT ("customer") DO NOTHING RETURNING')
+    await expect(importRows(connection, 'orders', parseImportRows('customer\nBob', 'csv', 100), { conflictColumns: ['email'] })).rejects.toThrow(
+      'Conflict column email is not a column of public.orders'
+    )
+  })
+
+  it('should abort on invalid rows before writing anything', async () => {
+    const { connection, inserts } = createConnection()
+    const parsed = parseImportRows('customer,quantity,status\nBob,two,open\n,40000,closed\nJane,1,shipped', 'csv', 100)
+
+    const error = await importRows(connection, 'orders', parsed).catch((error) => error)
+
+    expect(error).toBeInstanceOf(ImportError)
+    expect(error.message).toContain('2 of 3 rows are invalid, nothing was imported')
+    expect(error.message).toContain('- Row 1: quantity: expected smallint, got "two"')
+    expect(error.message).toContain('- Row 2: customer cannot be null; leave the column out to use its default; quantity: 40000 is out of range for smallint; status: expected one of open, shipped, got "closed"')
+    expect(inserts()).toHaveLength(0)
+    await expect(importRows(connection, 'invoices', parsed)).rejects.toThrow('Table invoices was not found')
+    await expect(importRows(connection, 'orders', parseImportRows('email\na@example.com', 'csv', 100))).rejects.toThrow('has no column email')
+  })
+
+  it('should skip invalid rows and rows the database rejects when asked', async () => {
+    const { connection, statements } = createConnection()
+    const parsed = parseImportRows('customer,quantity\nBob,two\nJane,1\nduplicate,2\nAlice,3', 'csv', 100)
+
+    const result = await importRows(connection, 'orders', parsed, { onError: 'skip' })
+
+    expect(result.inserted).toBe(2)
+    expect(result.errors).toEqual([
+      { row: 1, error: 'quantity: expected smallint, got "two"' },
+      { row: 3, error: 'duplicate key value violates unique constraint "orders_customer_key" (Key (customer)=(duplicate) already exists.)' },
+    ])
+    expect(statements().filter((sql: string) => !sql.startsWith('INSERT'))).toEqual([
+      'BEGIN',
+      'SAVEPOINT import_rows', 'ROLLBACK TO SAVEPOINT import_rows', 'RELEASE SAVEPOINT import_rows',
+      'SAVEPOINT import_rows', 'RELEASE SAVEPOINT import_rows',
+      'SAVEPOINT import_rows', 'ROLLBACK TO SAVEPOINT import_rows', 'RELEASE SAVEPOINT import_rows',
+      'SAVEPOINT import_rows', 'RELEASE SAVEPOINT import_rows',
+      'COMMIT',
+    ])
+  })
+
+  it('should roll back on errors that are not caused by a row', async () => {
+    const { connection, statements } = createConnection()
+    const unsafe = connection.unsafe.getMockImplementation()
+    connection.unsafe.mockImplementation(async (query: string, params?: string[]) => {
+      if (query.startsWith('INSERT')) throw Object.assign(new Error('canceling statement due to statement timeout'), { code: '57014' })
+      return unsafe(query, params)
+    })
+
+    await expect(importRows(connection, 'orders', parseImportRows('customer\nBob', 'csv', 100), { onError: 'skip' })).rejects.toThrow('statement timeout')
+    expect(statements().at(-1)).toBe('ROLLBACK')
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest'
+import { introspectDatabase } from '../../../src/database/introspection'
+
+// Answer each catalog query with canned rows
+function mockDb(results: Record<string, any[]>) {
+  return {
+    unsafe: vi.fn((query: string) => {
+      const key = Object.keys(results).find((k) => query.includes(k))
+      return Promise.resolve(key ? results[key] : [])
+    }),
+  }
+}
+
+const db = mockDb({
+  'pg_catalog.pg_attrdef': [
+    { table_schema: 'sales', table_name: 'orders', column_name: 'id', data_type: 'bigint', is_nullable: 'NO', column_default: null, comment: null },
+    { table_schema: 'sales', table_name: 'orders', column_name: 'status', data_type: 'USER-DEFINED', udt_name: 'order_status', is_nullable: 'NO', column_default: null, comment: 'Lifecycle state' },
+    { table_schema: 'sales', table_name: 'orders', column_name: 'tags', data_type: 'ARRAY', udt_name: '_text', is_nullable: 'YES', column_default: null, comment: null },
+    { table_schema: 'sales', table_name: 'orders', column_name: 'customer_id', data_type: 'integer', is_nullable: 'NO', column_default: null, comment: null },
+    { table_schema: 'sales', table_name: 'open_orders', column_name: 'id', data_type: 'bigint', is_nullable: 'YES', column_default: null, comment: null },
+    { table_schema: 'sales', table_name: 'daily_totals', column_name: 'day', data_type: 'date', is_nullable: 'YES', column_default: null, comment: null },
+  ],
+  'pg_catalog.pg_class c\n': [
+    { schema: 'sales', name: 'orders', kind: 'r', estimated_rows: '1200', comment: 'Customer orders' },
+    { schema: 'sales', name: 'open_orders', kind: 'v', estimated_rows: '-1', comment: null },
+    { schema: 'sales', name: 'daily_totals', kind: 'm', estimated_rows: '90', comment: null, definition: ' SELECT created_at::date AS day FROM sales.orders;' },
+  ],
+  'pg_catalog.pg_constraint': [
+    { schema: 'sales', table_name: 'orders', name: 'orders_pkey', type: 'p', columns: ['id'] },
+    { schema: 'sales', table_name: 'orders', name: 'orders_customer_id_fkey', type: 'f', columns: ['customer_id'], ref_schema: 'crm', ref_table: 'customers', ref_columns: ['id'] },
+    { schema: 'sales', table_name: 'orders', name: 'orders_id_check', type: 'c', definition: 'CHECK ((id > 0))', columns: ['id'] },
+  ],
+  'pg_catalog.pg_index': [
+    { schema: 'sales', table_name: 'orders', name: 'orders_pkey', is_unique: true, definition: 'CREATE UNIQUE INDEX orders_pkey ON sales.orders USING btree (id)' },
+  ],
+  'pg_catalog.pg_enum': [{ schema: 'sales', name: 'order_status', values: ['open', 'shipped'] }],
+})
+
+describe('Database Introspection', () => {
+  it('should combine columns, keys, constraints and indexes per table', async () => {
+    const { tables, enums } = await introspectDatabase(db as any)
+    const orders = tables.find((t) => t.name === 'orders')!
+
+    expect(orders).toMatchObject({
+      schema: 'sales',
+      type: 'table',
+      comment: 'Customer orders',
+      estimatedRows: 1200,
+      primaryKey: ['id'],
+      foreignKeys: [
+        { name: 'orders_customer_id_fkey', columns: ['customer_id'], references: { schema: 'crm', table: 'customers', columns: ['id'] } },
+      ],
+      checkConstraints: [{ name: 'orders_id_check', definition: 'CHECK ((id > 0))' }],
+      indexes: [{ name: 'orders_pkey', unique: true }],
+    })
+    expect(orders.columns.map((c) => c.type)).toEqual(['bigint', 'order_status', 'text[]', 'integer'])
+    expect(orders.columns[1].comment).toBe('Lifecycle state')
+    expect(enums).toEqual([{ schema: 'sales', name: 'order_status', values: ['open', 'shipped'] }])
+  })
+
+  it('should mark views and skip row estimates that are not available', async () => {
+    const { tables } = await introspectDatabase(db as any)
+    const view = tables.find((t) => t.name === 'open_orders')!
+
+    expect(view.type).toBe('view')
+    expect(view.estimatedRows).toBeUndefined()
+  })
+
+  it('should list materialized views with their columns', async () => {
+    const { tables } = await introspectDatabase(db as any)
+
+    expect(tables.find((t) => t.name === 'daily_totals')).toEqual({
+      schema: 'sales',
+      name: 'daily_totals',
+      type: 'materialized view',
+      definition: 'SELECT created_at::date AS day FROM sales.orders;',
+      estimatedRows: 90,
+      columns: [{ name: 'day', type: 'date', nullable: true, default: null }],
+    })
+    expect(db.unsafe.mock.calls[0][0]).toContain("c.relkind IN ('r', 'p', 'v', 'm', 'f')")
+  })
+
+  it('should pass the schema filter to every query', async () => {
+    db.unsafe.mockClear()
+    await introspectDatabase(db as any, { schema: 'sales' })
+
+    expect(db.unsafe).toHaveBeenCalledTimes(5)
+    for (const call of db.unsafe.mock.calls) {
+      expect((call as any[])[1]).toEqual(['sales'])
+    }
+  })
+})
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  DEFAULT_MASKING_POLICY,
+  loadMaskingPolicy,
+  loadResultMasking,
+  maskResultRows,
+  maskSqlParameters,
+  maskValue,
+  maskWriteResult,
+} from '../../../src/database/masking'
+
+// Result column metadata as reported by postgres.js: table OID and attribute number
+const column = (name: string, table = 0, number = 0) => ({ name, table, number, type: 25 })
+
+// A database returning the given column sources; the table lookup runs in a READ ONLY transaction
+function createDb(sources: Record<string, unknown>[] = []) {
+  const db: any = {
+    unsafe: vi.fn(async (query: string) => (query.includes('pg_backend_pid') ? [{ pid: 42 }] : sources)),
+    begin: vi.fn(async (mode: string, fn: any) => fn(db)),
+  }
+  return db
+}
+
+const options = { timeouts: { statementTimeoutMs: 30000, lockTimeoutMs: 5000 } }
+
+const masking = (rules: any[], hashKey?: string) => ({ rules, hashKey })
+
+describe('Result Masking', () => {
+  describe('loadMaskingPolicy', () => {
+    it('should prefer the policy in KV over the environment', async () => {
+      const env = {
+        OAUTH_KV: { get: vi.fn(async () => JSON.stringify({ rules: [{ column: 'ssn', action: 'hash' }] })) },
+        MASKING_POLICY: JSON.stringify({ rules: [] }),
+      } as any
+
+      expect(await loadMaskingPolicy(env)).toEqual({ rules: [{ column: 'ssn', action: 'hash' }] })
+      expect(env.OAUTH_KV.get).toHaveBeenCalledWith('masking-policy')
+    })
+
+    it('should fall back to the default policy when the policy is invalid', async () => {
+      const env = { MASKING_POLICY: JSON.stringify({ rules: [{ column: 'email', action: 'scramble' }] }) } as any
+
+      expect(await loadMaskingPolicy(env)).toBe(DEFAULT_MASKING_POLICY)
+    })
+
+    it('should not mask results for exempt roles', async () => {
+      const env = {
+        MASKING_POLICY: JSON.stringify({ rules: [{ column: 'email', action: 'redact' }], exemptRoles: ['pii-reader'] }),
+        COOKIE_ENCRYPTION_KEY: 'cookie-key',
+      } as any
+
+      expect(await loadResultMasking(env, new Set(['db-reader', 'pii-reader']))).toBeNull()
+      expect(await loadResultMasking(env, new Set(['db-reader']))).toEqual(masking([{ column: 'email', action: 'redact' }], 'cookie-key'))
+    })
+  })
+
+  describe('maskResultRows', () => {
+    it('should mask columns matching a pattern', async () => {
+      const rows = [{ id: 1, work_email: 'jane@example.com', card: '4111111111111111', password_hash: null }]
+
+      const masked = await maskResultRows(createDb(), masking([
+        { column: '*email*', action: 'partial' },
+        { column: 'card', action: 'partial' },
+        { column: 'PASSWORD_HASH', action: 'redact' },
+      ]), rows, undefined, options)
+
+      expect(masked).toEqual([{ id: 1, work_email: 'j***@example.com', card: '****1111', password_hash: null }])
+      expect(rows[0].work_email).toBe('jane@example.com')
+    })
+
+    it('should mask aliased columns by the table column they come from', async () => {
+      const db = createDb([{ table_oid: 16384, number: 3, schema: 'public', table: 'users', column: 'email' }])
+
+      const masked = await maskResultRows(db, masking([{ column: 'email', table: 'public.users', action: 'redact' }]), [{ id: 1, contact: 'jane@example.com' }], [
+        column('id', 16384, 1),
+        column('contact', 16384, 3),
+      ] as any, options)
+
+      expect(masked).toEqual([{ id: 1, contact: '[REDACTED]' }])
+      expect(db.unsafe).toHaveBeenCalledWith(expect.stringContaining('pg_catalog.pg_attribute'), [[16384, 16384], [1, 3]])
+      expect(db.begin).toHaveBeenCalledWith('read only', expect.any(Function))
+      expect(db.unsafe).toHaveBeenCalledWith(expect.stringContaining('pg_backend_pid'), ['30000', '5000', true])
+    })
+
+    it('should only apply table rules to that table', async () => {
+      const db = createDb([{ table_oid: 16400, number: 2, schema: 'public', table: 'contacts', column: 'email' }])
+      const rules = masking([{ column: 'email', table: 'users', action: 'redact' }])
+
+      const fromContacts = await maskResultRows(db, rules, [{ email: 'jane@example.com' }], [column('email', 16400, 2)] as any, options)
+      const computed = await maskResultRows(db, rules, [{ email: 'jane@example.com' }], [column('email')] as any, options)
+
+      expect(fromContacts).toEqual([{ email: 'jane@example.com' }])
+      expect(computed).toEqual([{ email: '[REDACTED]' }])
+    })
+
+    it('should mask dry-run samples by column name', async () => {
+      const result = { rows: [], affectedRows: 1, committed: false, before: [{ id: 1, ssn: '123-45-6789' }], after: [{ id: 1, ssn: null }] }
+
+      const masked = await maskWriteResult(createDb(), masking([{ column: 'ssn', action: 'redact' }]), result, options)
+
+      expect(masked.before).toEqual([{ id: 1, ssn: '[REDACTED]' }])
+      expect(masked.after).toEqual([{ id: 1, ssn: null }])
+    })
+  })
+
+  describe('maskValue', () => {
+    it('should hash values with the configured key', async () => {
+      vi.mocked(crypto.subtle.importKey).mockResolvedValue('key' as any)
+      vi.mocked(crypto.subtle.sign).mockResolvedValue(new Uint8Array(32).fill(171).buffer)
+
+      const masked = await maskResultRows(createDb(), masking([{ column: 'email', action: 'hash' }], 'secret'), [{ email: 'jane@example.com' }], undefined, options)
+
+      expect(masked).toEqual([{ email: 'hash:abababababababab' }])
+      expect(crypto.subtle.sign).toHaveBeenCalledWith('HMAC', 'key', new TextEncoder().encode('jane@example.com'))
+    })
+
+    it('should redact when values cannot be hashed or partially shown', async () => {
+      expect(await maskValue('jane@example.com', 'hash')).toBe('[REDACTED]')
+      expect(await maskValue({ street: 'Main St' }, 'partial')).toBe('[REDACTED]')
+      expect(await maskValue('1234', 'partial')).toBe('****')
+    })
+  })
+
+  describe('maskSqlParameters', () => {
+    const env = { MASKING_POLICY: JSON.stringify({ rules: [{ column: '*email*', action: 'partial' }, { column: 'ssn', action: 'redact' }], exemptRoles: ['pii-reader'] }) } as any
+
+    it('should mask parameters compared with or assigned to masked columns', async () => {
+      expect(await maskSqlParameters(env, 'SELECT * FROM users u WHERE u.email = $1 AND id > $2', ['jane@example.com', 5])).toEqual(['j***@example.com', 5])
+      expect(await maskSqlParameters(env, 'SELECT * FROM users WHERE $1 = users.ssn OR ssn NOT IN ($2, $3)', ['1', '2', '3'])).toEqual(['[REDACTED]', '[REDACTED]', '[REDACTED]'])
+      expect(await maskSqlParameters(env, 'UPDATE users SET work_email = $1 WHERE id = $2::int', ['a@b.io', '7'])).toEqual(['a***@b.io', '7'])
+    })
+
+    it('should mask inserted values by their column', async () => {
+      const sql = 'INSERT INTO users (id, ssn, name) VALUES ($1, $2, $3), ($4, $5, $6) ON CONFLICT (id) DO NOTHING'
+
+      expect(await maskSqlParameters(env, sql, [1, '111', 'Jane', 2, '222', 'John'])).toEqual([1, '[REDACTED]', 'Jane', 2, '[REDACTED]', 'John'])
+    })
+
+    it('should redact every parameter of SQL that cannot be parsed', async () => {
+      expect(await maskSqlParameters(env, "SELECT * FROM users WHERE name = 'x AND id = $1", [1])).toEqual(['[REDACTED]'])
+    })
+  })
+})
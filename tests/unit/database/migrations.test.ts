@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { webcrypto } from 'node:crypto'
+import {
+  applyMigration,
+  diffSchemas,
+  migrationChecksum,
+  MigrationError,
+  planMigration,
+  rollbackMigration,
+  validateMigration,
+  validateMigrationSql,
+} from '../../../src/database/migrations'
+
+const migration = { version: '2', name: 'add widgets', up: 'CREATE TABLE widgets (id int)', down: 'DROP TABLE widgets' }
+
+// A connection whose tables are changed by the migration SQL above
+function createConnection(applied: Array<{ version: string; name: string }> = []) {
+  const tables = new Set<string>()
+  const connection: any = {
+    unsafe: vi.fn(async (query: string) => {
+      if (query === migration.up) tables.add('widgets')
+      if (query === migration.down) tables.delete('widgets')
+      if (query.includes('pg_catalog.pg_attrdef')) {
+        return [...tables].map((table) => ({ table_schema: 'public', table_name: table, column_name: 'id', data_type: 'integer', is_nullable: 'YES', column_default: null }))
+      }
+      if (query.startsWith('SELECT version')) {
+        return applied.map((entry) => ({ ...entry, checksum: 'abc', applied_by: 'octocat', applied_at: '2024-05-01T00:00:00Z' }))
+      }
+      if (query.startsWith('SELECT down_sql')) return [{ down_sql: migration.down }]
+      return []
+    }),
+  }
+  const statements = () => connection.unsafe.mock.calls.map((call: any[]) => call[0]).filter((sql: string) => !sql.includes('\n') && !sql.startsWith('SELECT'))
+  return { connection, statements, tables }
+}
+
+const table = (name: string, columns: any[] = [{ name: 'id', type: 'integer', nullable: false, default: null }]) => ({ schema: 'public', name, type: 'table' as const, columns })
+
+describe('Schema Migrations', () => {
+  beforeEach(() => {
+    // The global crypto is stubbed in tests/setup.ts, use Node's WebCrypto for real checksums
+    Object.assign(crypto.subtle, { digest: webcrypto.subtle.digest.bind(webcrypto.subtle) })
+  })
+
+  it('should refuse SQL that cannot run in the migration transaction', () => {
+    expect(validateMigrationSql('ALTER TABLE users ADD COLUMN age int; DROP INDEX users_age').isValid).toBe(true)
+    expect(validateMigrationSql('BEGIN; DROP TABLE users; COMMIT').error).toContain('BEGIN is not allowed')
+    expect(validateMigrationSql('CREATE INDEX CONCURRENTLY users_name ON users (name)').isValid).toBe(false)
+    expect(validateMigrationSql('VACUUM users').isValid).toBe(false)
+    expect(validateMigrationSql('  ').error).toBe('Migration SQL cannot be empty')
+    expect(validateMigration({ up: 'SELECT 1', down: 'ROLLBACK' }).error).toContain('down SQL: ROLLBACK is not allowed')
+  })
+
+  it('should describe schema changes', () => {
+    const before = {
+      tables: [table('users'), table('legacy'), table('schema_migrations')],
+      enums: [{ schema: 'public', name: 'mood', values: ['happy'] }, { schema: 'public', name: 'old', values: ['a'] }],
+    }
+    const after = {
+      tables: [
+        table('users', [{ name: 'id', type: 'bigint', nullable: false, default: null }, { name: 'email', type: 'text', nullable: true, default: null }]),
+        table('orders'),
+      ],
+      enums: [{ schema: 'public', name: 'mood', values: ['happy', 'sad'] }],
+    }
+
+    expect(diffSchemas(before, after)).toEqual([
+      '~ column public.users.id: integer NOT NULL → bigint NOT NULL',
+      '+ column public.users.email text',
+      '+ table public.orders (id)',
+      '- table public.legacy',
+      '~ enum public.mood: (happy) → (happy, sad)',
+      '- enum public.old',
+    ])
+    expect(diffSchemas(before, before)).toEqual([])
+  })
+
+  it('should plan a migration and roll the plan back', async () => {
+    const { connection, statements, tables } = createConnection()
+
+    const plan = await planMigration(connection, migration)
+
+    expect(plan.checksum).toBe(await migrationChecksum(migration))
+    expect(plan.checksum).toMatch(/^[0-9a-f]{64}$/)
+    expect(plan.changes).toEqual(['+ table public.widgets (id)'])
+    expect(plan.residue).toEqual([])
+    expect(statements()).toEqual(['BEGIN', migration.up, migration.down, 'ROLLBACK'])
+    expect(tables.size).toBe(0)
+  })
+
+  it('should report what the down SQL leaves behind', async () => {
+    const { connection } = createConnection()
+
+    const plan = await planMigration(connection, { ...migration, down: 'SELECT 1' })
+
+    expect(plan.residue).toEqual(['+ table public.widgets (id)'])
+  })
+
+  it('should apply and record a planned migration', async () => {
+    const { connection, statements } = createConnection([{ version: '1', name: 'init' }])
+
+    const changes = await applyMigration(connection, migration, await migrationChecksum(migration), 'coleam00')
+
+    expect(changes).toEqual(['+ table public.widgets (id)'])
+    expect(statements()).toEqual(expect.arrayContaining(['BEGIN', 'LOCK TABLE schema_migrations IN SHARE ROW EXCLUSIVE MODE', migration.up, 'COMMIT']))
+    expect(connection.unsafe).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO schema_migrations'), [
+      '2',
+      'add widgets',
+      await migrationChecksum(migration),
+      migration.up,
+      migration.down,
+      'coleam00',
+    ])
+  })
+
+  it('should refuse migrations that changed since they were planned or are out of order', async () => {
+    const checksum = await migrationChecksum(migration)
+
+    const changed = createConnection()
+    await expect(applyMigration(changed.connection, { ...migration, up: 'DROP TABLE users' }, checksum, 'coleam00')).rejects.toThrow(MigrationError)
+    expect(changed.connection.unsafe).not.toHaveBeenCalled()
+
+    // Versions compare with numbers in order, so 2 sorts before 10
+    const outOfOrder = createConnection([{ version: '10', name: 'later' }])
+    await expect(applyMigration(outOfOrder.connection, migration, checksum, 'coleam00')).rejects.toThrow('must sort after the latest applied migration, 10 (later)')
+    expect(outOfOrder.statements()).not.toContain(migration.up)
+    expect(outOfOrder.statements().at(-1)).toBe('ROLLBACK')
+
+    const applied = createConnection([{ version: '2', name: 'add widgets' }])
+    await expect(planMigration(applied.connection, migration)).rejects.toThrow('Migration 2 (add widgets) was already applied')
+  })
+
+  it('should only roll back the latest migration', async () => {
+    const { connection, statements, tables } = createConnection([{ version: '2', name: 'add widgets' }, { version: '1', name: 'init' }])
+    tables.add('widgets')
+
+    await expect(rollbackMigration(connection, '1')).rejects.toThrow('Only the latest migration can be rolled back: 2 (add widgets)')
+
+    const preview = await rollbackMigration(connection, '2', true)
+    expect(preview.changes).toEqual(['- table public.widgets'])
+    expect(statements().at(-1)).toBe('ROLLBACK')
+
+    const result = await rollbackMigration(connection, '2')
+    expect(result.migration).toMatchObject({ version: '2', appliedBy: 'octocat' })
+    expect(connection.unsafe).toHaveBeenCalledWith('DELETE FROM schema_migrations WHERE version = $1', ['2'])
+    expect(statements().at(-1)).toBe('COMMIT')
+  })
+})
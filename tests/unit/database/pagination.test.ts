@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  DEFAULT_MAX_ROWS,
+  decodeCursor,
+  encodeCursor,
+  fetchQueryPage,
+  formatPageSummary,
+  getQueryLimits,
+  MAX_COUNTED_ROWS,
+} from '../../../src/database/pagination'
+
+const rows = (count: number, from = 1) => Array.from({ length: count }, (_, i) => ({ id: from + i, name: 'x'.repeat(40) }))
+
+describe('Query Pagination', () => {
+  describe('cursors', () => {
+    it('should round-trip the offset for the same query', () => {
+      const cursor = encodeCursor(200, 'SELECT * FROM users WHERE id > $1', [5])
+
+      expect(decodeCursor(cursor, 'SELECT * FROM users WHERE id > $1', [5])).toBe(200)
+    })
+
+    it('should reject cursors for other queries, other parameters or garbage', () => {
+      const cursor = encodeCursor(200, 'SELECT * FROM users WHERE id > $1', [5])
+
+      expect(decodeCursor(cursor, 'SELECT * FROM posts WHERE id > $1', [5])).toBeNull()
+      expect(decodeCursor(cursor, 'SELECT * FROM users WHERE id > $1', [6])).toBeNull()
+      expect(decodeCursor('not-a-cursor', 'SELECT 1')).toBeNull()
+    })
+  })
+
+  describe('getQueryLimits', () => {
+    it('should read the limits from the environment', () => {
+      expect(getQueryLimits({ QUERY_MAX_ROWS: '25', QUERY_MAX_RESPONSE_BYTES: '1000' } as any)).toEqual({
+        maxRows: 25,
+        maxResponseBytes: 1000,
+      })
+      expect(getQueryLimits({ QUERY_MAX_ROWS: 'lots' } as any).maxRows).toBe(DEFAULT_MAX_ROWS)
+    })
+  })
+
+  describe('fetchQueryPage', () => {
+    it('should wrap SELECT queries with LIMIT/OFFSET and count the remaining rows', async () => {
+      const db = {
+        unsafe: vi.fn((query: string) => Promise.resolve(query.includes('count(*)') ? [{ total: 5 }] : rows(3, 6))),
+      }
+
+      const page = await fetchQueryPage(db as any, 'SELECT * FROM users -- newest first\n;', [], {
+        offset: 5,
+        limit: 2,
+        maxResponseBytes: 50_000,
+      })
+
+      expect(db.unsafe.mock.calls[0][0]).toBe('SELECT * FROM (\nSELECT * FROM users -- newest first\n) AS paged_query LIMIT 3 OFFSET 5')
+      expect(page.rows).toEqual(rows(2, 6))
+      expect(db.unsafe.mock.calls[2][0]).toContain('AS counted_query OFFSET 7 LIMIT 10001')
+      expect(page.remainingRows).toBe(5)
+      expect(decodeCursor(page.nextCursor!, 'SELECT * FROM users -- newest first\n;')).toBe(7)
+    })
+
+    it('should report large remainders as a lower bound', async () => {
+      const db = {
+        unsafe: vi.fn((query: string) => Promise.resolve(query.includes('count(*)') ? [{ total: MAX_COUNTED_ROWS + 1 }] : rows(3))),
+      }
+
+      const page = await fetchQueryPage(db as any, 'SELECT * FROM events', [], { offset: 0, limit: 2, maxResponseBytes: 50_000 })
+
+      expect(page).toMatchObject({ remainingRows: MAX_COUNTED_ROWS, remainingRowsCapped: true })
+      expect(formatPageSummary(page)).toContain(`Results truncated, over ${MAX_COUNTED_ROWS} more rows`)
+    })
+
+    it('should still return the page when counting fails', async () => {
+      const db = {
+        unsafe: vi.fn((query: string) =>
+          query.includes('count(*)') ? Promise.reject(new Error('canceling statement due to statement timeout')) : Promise.resolve(rows(3))
+        ),
+      }
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+      const page = await fetchQueryPage(db as any, 'SELECT * FROM events', [], { offset: 0, limit: 2, maxResponseBytes: 50_000 })
+
+      expect(page.rows).toEqual(rows(2))
+      expect(page.remainingRows).toBeUndefined()
+      expect(db.unsafe).toHaveBeenLastCalledWith('ROLLBACK TO SAVEPOINT count_rows')
+      expect(formatPageSummary(page)).toContain('Results truncated, more rows available')
+    })
+
+    it('should page SHOW and EXPLAIN output in memory', async () => {
+      const db = { unsafe: vi.fn().mockResolvedValue(rows(4)) }
+
+      const page = await fetchQueryPage(db as any, 'SHOW ALL', [], { offset: 2, limit: 10, maxResponseBytes: 50_000 })
+
+      expect(db.unsafe).toHaveBeenCalledWith('SHOW ALL', [])
+      expect(page.rows).toEqual(rows(2, 3))
+      expect(page.hasMore).toBe(false)
+      expect(page.nextCursor).toBeUndefined()
+    })
+
+    it('should leave rows beyond the byte budget for the next page', async () => {
+      const db = { unsafe: vi.fn().mockResolvedValue(rows(10)) }
+
+      const page = await fetchQueryPage(db as any, 'SHOW ALL', [], { offset: 0, limit: 10, maxResponseBytes: 200 })
+
+      expect(page.rows.length).toBeGreaterThan(0)
+      expect(page.rows.length).toBeLessThan(10)
+      expect(page.remainingRows).toBe(10 - page.rows.length)
+      expect(formatPageSummary(page)).toContain(`Results truncated, ${10 - page.rows.length} more rows`)
+    })
+  })
+})
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  DEFAULT_MAX_QUERY_COST,
+  checkQueryCost,
+  formatPlanSummary,
+  getQueryCostGuard,
+  isExplainableStatement,
+  summarizePlan,
+  type QueryPlan,
+} from '../../../src/database/query-plan'
+
+const plan: QueryPlan = {
+  Plan: {
+    'Node Type': 'Hash Join',
+    'Startup Cost': 10,
+    'Total Cost': 250000,
+    'Plan Rows': 40,
+    'Actual Rows': 52000,
+    Plans: [
+      { 'Node Type': 'Seq Scan', 'Relation Name': 'events', Schema: 'app', 'Startup Cost': 0, 'Total Cost': 240000, 'Plan Rows': 40, Filter: '(user_id = 42)' },
+      { 'Node Type': 'Index Scan', 'Relation Name': 'users', Schema: 'app', 'Index Name': 'users_pkey', 'Startup Cost': 0, 'Total Cost': 8, 'Plan Rows': 1 },
+    ],
+  },
+  'Planning Time': 0.4,
+  'Execution Time': 812.5,
+}
+
+describe('Query Plans', () => {
+  describe('summarizePlan', () => {
+    it('should flag sequential scans on large tables with an index hint', () => {
+      const summary = summarizePlan(plan, new Map([['app.events', 5_000_000]]))
+
+      expect(summary.totalCost).toBe(250000)
+      expect(summary.sequentialScans).toEqual([{ relation: 'app.events', tableRows: 5_000_000, filter: '(user_id = 42)' }])
+      expect(summary.hints).toContainEqual(expect.stringContaining('Sequential scan on app.events (~5000000 rows) filtered by `(user_id = 42)`'))
+    })
+
+    it('should point out bad row estimates from ANALYZE', () => {
+      const summary = summarizePlan(plan)
+
+      expect(summary.hints).toEqual([expect.stringContaining('Hash Join estimated 40 rows but returned 52000')])
+    })
+
+    it('should render the plan tree', () => {
+      const text = formatPlanSummary(plan, summarizePlan(plan))
+
+      expect(text).toContain('**Execution time:** 812.5 ms')
+      expect(text).toContain('  -> Index Scan using users_pkey on app.users (cost=0..8 rows=1)')
+      expect(text).toContain('Filter: (user_id = 42)')
+    })
+  })
+
+  describe('checkQueryCost', () => {
+    const db: any = {
+      unsafe: vi.fn(async (query: string) => (query.includes('pg_backend_pid') ? [{ pid: 42 }] : [{ 'QUERY PLAN': [plan] }])),
+      begin: vi.fn(async (mode: string, fn: any) => fn(db)),
+    }
+    const options = { timeouts: { statementTimeoutMs: 30000, lockTimeoutMs: 5000 } }
+
+    it('should reject or warn above the limit', async () => {
+      expect(await checkQueryCost(db, 'SELECT * FROM app.events', [], { maxCost: 1000, action: 'reject' }, options)).toMatchObject({
+        estimatedCost: 250000,
+        rejected: true,
+      })
+      expect(await checkQueryCost(db, 'SELECT * FROM app.events', [], { maxCost: 1000, action: 'warn' }, options)).toMatchObject({
+        rejected: false,
+        message: expect.stringContaining('above the limit of 1000'),
+      })
+      expect(db.begin).toHaveBeenCalledWith('read only', expect.any(Function))
+      expect(db.unsafe).toHaveBeenCalledWith(expect.stringContaining('pg_backend_pid'), ['30000', '5000', true])
+    })
+
+    it('should skip statements that cannot be explained and disabled guards', async () => {
+      db.unsafe.mockClear()
+
+      expect(await checkQueryCost(db, 'SHOW search_path', [], { maxCost: 1000, action: 'reject' }, options)).toEqual({ rejected: false })
+      expect(await checkQueryCost(db, 'SELECT 1', [], { maxCost: 0, action: 'reject' }, options)).toEqual({ rejected: false })
+      expect(db.unsafe).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getQueryCostGuard', () => {
+    it('should read the guard from the environment', () => {
+      expect(getQueryCostGuard({} as any)).toEqual({ maxCost: DEFAULT_MAX_QUERY_COST, action: 'reject' })
+      expect(getQueryCostGuard({ QUERY_MAX_COST: '0', QUERY_COST_ACTION: 'warn' } as any)).toEqual({ maxCost: 0, action: 'warn' })
+    })
+  })
+
+  it('should only explain single plannable statements', () => {
+    expect(isExplainableStatement('UPDATE users SET name = $1')).toBe(true)
+    expect(isExplainableStatement('SHOW ALL')).toBe(false)
+    expect(isExplainableStatement('SELECT 1; SELECT 2')).toBe(false)
+  })
+})
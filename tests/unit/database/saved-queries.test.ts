@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  bindSavedQueryParameters,
+  getSavedQuery,
+  listSavedQueries,
+  SavedQueryError,
+  saveQuery,
+  validateSavedQuery,
+} from '../../../src/database/saved-queries'
+
+// A KV namespace that keeps values with their metadata and lists one key per page
+function createKv() {
+  const store = new Map<string, { value: string; metadata: unknown }>()
+  return {
+    put: vi.fn(async (key: string, value: string, options?: { metadata?: unknown }) => void store.set(key, { value, metadata: options?.metadata })),
+    get: vi.fn(async (key: string) => (store.has(key) ? JSON.parse(store.get(key)!.value) : null)),
+    list: vi.fn(async ({ prefix, cursor }: { prefix: string; cursor?: string }) => {
+      const keys = [...store.keys()].filter((key) => key.startsWith(prefix)).sort()
+      const index = cursor ? Number(cursor) : 0
+      const page = keys.slice(index, index + 1).map((name) => ({ name, metadata: store.get(name)!.metadata }))
+      return index + 1 >= keys.length ? { keys: page, list_complete: true } : { keys: page, list_complete: false, cursor: String(index + 1) }
+    }),
+  } as any
+}
+
+const activeUsers = {
+  name: 'active_users',
+  description: 'Users who signed in since a date',
+  sql: 'SELECT id, name FROM users WHERE last_login > $1 AND role = $2',
+  parameters: [{ name: 'since', description: 'ISO date' }, { name: 'role' }],
+  database: 'default',
+}
+
+describe('Saved Queries', () => {
+  it('should only save read-only queries with a name for each placeholder', () => {
+    expect(validateSavedQuery(activeUsers.sql, activeUsers.parameters).isValid).toBe(true)
+    expect(validateSavedQuery('DELETE FROM users WHERE id = $1', [{ name: 'id' }]).error).toContain('Only read-only queries can be saved')
+    expect(validateSavedQuery('SELECT * FROM users WHERE id = $1', []).isValid).toBe(false)
+    expect(validateSavedQuery('SELECT * FROM users WHERE id = $1', [{ name: 'id' }, { name: 'id' }]).error).toBe('Parameter id is listed more than once')
+  })
+
+  it('should save queries and keep them to their owner', async () => {
+    const kv = createKv()
+
+    const saved = await saveQuery(kv, activeUsers, 'octocat')
+    const replaced = await saveQuery(kv, { ...activeUsers, description: 'Recently active users' }, 'octocat')
+
+    expect(replaced).toMatchObject({ owner: 'octocat', createdAt: saved.createdAt, description: 'Recently active users' })
+    expect(await getSavedQuery(kv, 'active_users')).toEqual(replaced)
+    expect(kv.put).toHaveBeenLastCalledWith('saved-query:active_users', JSON.stringify(replaced), {
+      metadata: { description: 'Recently active users', parameters: ['since', 'role'], database: 'default', owner: 'octocat', updatedAt: replaced.updatedAt },
+    })
+    await expect(saveQuery(kv, activeUsers, 'coleam00')).rejects.toThrow(SavedQueryError)
+    await expect(saveQuery(kv, activeUsers, 'coleam00')).rejects.toThrow('already exists and belongs to octocat')
+    expect(await getSavedQuery(kv, 'missing')).toBeNull()
+  })
+
+  it('should list and search saved queries across pages', async () => {
+    const kv = createKv()
+    await saveQuery(kv, activeUsers, 'octocat')
+    await saveQuery(kv, { ...activeUsers, name: 'order_totals', description: 'Revenue per month', parameters: [], sql: 'SELECT 1' }, 'coleam00')
+    await saveQuery(kv, { ...activeUsers, name: 'long', description: 'x'.repeat(300), parameters: [], sql: 'SELECT 1' }, 'coleam00')
+
+    expect((await listSavedQueries(kv)).map((query) => query.name)).toEqual(['active_users', 'long', 'order_totals'])
+    expect(kv.list).toHaveBeenCalledTimes(3)
+    expect((await listSavedQueries(kv, { search: 'REVENUE month' })).map((query) => query.name)).toEqual(['order_totals'])
+    expect((await listSavedQueries(kv, { search: 'octocat' })).map((query) => query.name)).toEqual(['active_users'])
+    expect((await listSavedQueries(kv, { owner: 'ColeAM00' })).map((query) => query.name)).toEqual(['long', 'order_totals'])
+    expect((await listSavedQueries(kv, { search: 'long' }))[0].description).toHaveLength(120)
+  })
+
+  it('should bind named values in placeholder order', async () => {
+    const query = { ...activeUsers, owner: 'octocat', createdAt: '', updatedAt: '' }
+
+    expect(bindSavedQueryParameters(query, { role: 'admin', since: '2024-01-01' })).toEqual(['2024-01-01', 'admin'])
+    expect(() => bindSavedQueryParameters(query, { since: '2024-01-01' })).toThrow(
+      'Missing value for parameter role of saved query active_users. Parameters: since (ISO date), role.'
+    )
+    expect(() => bindSavedQueryParameters(query, { since: '2024-01-01', role: 'admin', limit: 5 })).toThrow('has no parameter limit')
+    expect(bindSavedQueryParameters({ ...query, parameters: [] })).toEqual([])
+  })
+})
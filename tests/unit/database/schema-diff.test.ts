@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { compareSchemas, describeSchemaDifference } from '../../../src/database/schema-diff'
+
+const users = (schema: string, overrides: Record<string, unknown> = {}) => ({
+  schema,
+  name: 'users',
+  type: 'table' as const,
+  columns: [
+    { name: 'id', type: 'integer', nullable: false, default: `nextval('${schema}.users_id_seq'::regclass)` },
+    { name: 'email', type: 'text', nullable: false, default: null },
+  ],
+  primaryKey: ['id'],
+  foreignKeys: [{ name: 'users_team_fkey', columns: ['team_id'], references: { schema, table: 'teams', columns: ['id'] } }],
+  uniqueConstraints: [{ name: 'users_email_key', columns: ['email'] }],
+  indexes: [
+    { name: 'users_pkey', unique: true, primary: true, definition: `CREATE UNIQUE INDEX users_pkey ON ${schema}.users USING btree (id)` },
+    { name: 'users_email_key', unique: true, primary: false, definition: `CREATE UNIQUE INDEX users_email_key ON ${schema}.users USING btree (email)` },
+  ],
+  ...overrides,
+})
+
+describe('Schema Comparison', () => {
+  it('should report missing and extra objects and changed definitions', () => {
+    const staging = {
+      tables: [
+        users('public', { columns: [...users('public').columns, { name: 'avatar', type: 'text', nullable: true, default: null }] }),
+        { schema: 'public', name: 'invoices', type: 'table' as const, columns: [{ name: 'id', type: 'integer', nullable: false, default: null }] },
+      ],
+      enums: [{ schema: 'public', name: 'plan', values: ['free', 'pro', 'team'] }],
+    }
+    const production = {
+      tables: [
+        users('public', { primaryKey: ['id', 'email'], uniqueConstraints: [], indexes: [] }),
+        { schema: 'public', name: 'active_users', type: 'view' as const, definition: 'SELECT 1', columns: [{ name: 'id', type: 'integer', nullable: true, default: null }] },
+      ],
+      enums: [{ schema: 'public', name: 'plan', values: ['free', 'pro'] }],
+    }
+
+    const differences = compareSchemas(staging, production)
+
+    expect(differences).toContainEqual({ change: 'removed', kind: 'column', name: 'public.users.avatar', source: 'text' })
+    expect(differences).toContainEqual({ change: 'removed', kind: 'table', name: 'public.invoices', source: 'id' })
+    expect(differences.map(describeSchemaDifference)).toEqual([
+      '- column public.users.avatar',
+      '~ primary key public.users: (id) → (id, email)',
+      '- constraint users_email_key on public.users',
+      '- index users_email_key on public.users',
+      '+ view public.active_users (id)',
+      '- table public.invoices',
+      '~ enum public.plan: (free, pro, team) → (free, pro)',
+    ])
+  })
+
+  it('should match two schemas by name when unqualified', () => {
+    const staging = { tables: [users('staging')], enums: [{ schema: 'staging', name: 'plan', values: ['free'] }] }
+    const production = { tables: [users('public')], enums: [{ schema: 'public', name: 'plan', values: ['free'] }] }
+
+    expect(compareSchemas(staging, production, { unqualified: true })).toEqual([])
+    expect(compareSchemas(staging, production).map(describeSchemaDifference)).toEqual([
+      '+ table public.users (id, email)',
+      '- table staging.users',
+      '+ enum public.plan (free)',
+      '- enum staging.plan',
+    ])
+  })
+
+  it('should describe type changes of tables and views', () => {
+    const view = { schema: 'public', name: 'report', type: 'view' as const, definition: 'SELECT 1', columns: [] }
+    const materialized = { ...view, type: 'materialized view' as const, definition: 'SELECT 2' }
+
+    expect(compareSchemas({ tables: [view], enums: [] }, { tables: [materialized], enums: [] }).map(describeSchemaDifference)).toEqual([
+      '~ materialized view public.report: view → materialized view',
+      '~ materialized view public.report: definition changed',
+    ])
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { validateSqlQuery, isWriteOperation, formatDatabaseError } from '../../../src/database/security'
+import { validateSqlQuery, validateReadOnlyQuery, validateSqlParameters, isWriteOperation, formatDatabaseError } from '../../../src/database/security'
 import {
   validSelectQuery,
   validInsertQuery,
@@ -64,6 +64,73 @@ describe('Database Security', () => {
     })
   })
 
+  describe('validateReadOnlyQuery', () => {
+    it('should accept pure reads', () => {
+      expect(validateReadOnlyQuery(validSelectQuery).isValid).toBe(true)
+      expect(validateReadOnlyQuery('WITH recent AS (SELECT * FROM posts) SELECT * FROM recent;').isValid).toBe(true)
+      expect(validateReadOnlyQuery('EXPLAIN (ANALYZE, FORMAT JSON) SELECT 1').isValid).toBe(true)
+      expect(validateReadOnlyQuery('(SELECT 1) UNION (SELECT 2)').isValid).toBe(true)
+    })
+
+    it('should ignore keywords inside strings, identifiers and comments', () => {
+      expect(validateReadOnlyQuery(`SELECT 'delete from users' AS "update" FROM t -- insert`).isValid).toBe(true)
+      expect(validateReadOnlyQuery('SELECT $$; DROP TABLE users$$, t.delete FROM t').isValid).toBe(true)
+    })
+
+    it('should reject writes that start like a read', () => {
+      expect(validateReadOnlyQuery('WITH gone AS (DELETE FROM users RETURNING *) SELECT * FROM gone').error)
+        .toBe('DELETE is not allowed in a read-only query')
+      expect(validateReadOnlyQuery('SELECT * INTO backup FROM users').error).toContain('SELECT INTO')
+      expect(validateReadOnlyQuery('SELECT * FROM users FOR UPDATE').error).toContain('Row locking')
+      expect(validateReadOnlyQuery('EXPLAIN ANALYZE DELETE FROM users').isValid).toBe(false)
+    })
+
+    it('should reject other statement types hidden behind comments', () => {
+      expect(validateReadOnlyQuery('/* SELECT */ COPY users TO PROGRAM \'curl x\'').error)
+        .toBe('COPY statements are not read-only')
+      expect(validateReadOnlyQuery('-- read\nCALL cleanup()').error).toBe('CALL statements are not read-only')
+    })
+
+    it('should reject functions with side effects', () => {
+      expect(validateReadOnlyQuery("SELECT nextval('users_id_seq')").error)
+        .toBe('Function nextval() has side effects and is not allowed')
+      expect(validateReadOnlyQuery('SELECT pg_catalog.pg_advisory_lock(1)').isValid).toBe(false)
+      expect(validateReadOnlyQuery('SELECT pg_sleep(10)').isValid).toBe(false)
+      expect(validateReadOnlyQuery("SELECT schema_to_xml('public', true, false, '')").isValid).toBe(false)
+    })
+
+    it('should reject functions with side effects called by their quoted name', () => {
+      expect(validateReadOnlyQuery('SELECT "pg_terminate_backend"(1234)').error)
+        .toBe('Function pg_terminate_backend() has side effects and is not allowed')
+      expect(validateReadOnlyQuery('SELECT pg_catalog."dblink_exec"($$x$$, $$DELETE FROM t$$)').isValid).toBe(false)
+      expect(validateReadOnlyQuery('SELECT "lo_unlink"(1)').isValid).toBe(false)
+      expect(validateReadOnlyQuery('SELECT "nextval" FROM sequences').isValid).toBe(true)
+    })
+
+    it('should reject multiple statements and unparseable SQL', () => {
+      expect(validateReadOnlyQuery('SELECT 1; SELECT 2').error).toBe('Only a single statement is allowed')
+      expect(validateReadOnlyQuery("SELECT 'unterminated").error).toBe('Invalid SQL: Unterminated string literal')
+    })
+  })
+
+  describe('validateSqlParameters', () => {
+    it('should accept matching parameters', () => {
+      expect(validateSqlParameters('SELECT * FROM users WHERE id = $1 OR parent_id = $1', [1]).isValid).toBe(true)
+      expect(validateSqlParameters(validSelectQuery).isValid).toBe(true)
+    })
+
+    it('should ignore placeholders inside strings', () => {
+      expect(validateSqlParameters("SELECT '$1' FROM users").isValid).toBe(true)
+    })
+
+    it('should reject missing or extra parameters', () => {
+      expect(validateSqlParameters('SELECT * FROM users WHERE id = $2', [1]).error)
+        .toBe('Query uses $2 but only 1 parameter(s) were provided')
+      expect(validateSqlParameters(validSelectQuery, ['unused']).error)
+        .toBe('1 parameter(s) were provided but the query only uses 0 placeholder(s)')
+    })
+  })
+
   describe('isWriteOperation', () => {
     it('should identify SELECT as read operation', () => {
       expect(isWriteOperation(validSelectQuery)).toBe(false)
@@ -91,6 +158,12 @@ describe('Database Security', () => {
       expect(isWriteOperation('Delete from users where id = 1')).toBe(true)
     })
 
+    it('should detect writes after leading comments or inside CTEs', () => {
+      expect(isWriteOperation('/* note */ DELETE FROM users')).toBe(true)
+      expect(isWriteOperation('WITH x AS (UPDATE users SET name = NULL RETURNING id) SELECT * FROM x')).toBe(true)
+      expect(isWriteOperation('SELECT 1; TRUNCATE users')).toBe(true)
+    })
+
     it('should handle queries with leading whitespace', () => {
       expect(isWriteOperation('   INSERT INTO users VALUES (1, \'test\')')).toBe(true)
       expect(isWriteOperation('\t\nSELECT * FROM users')).toBe(false)
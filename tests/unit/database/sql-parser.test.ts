@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest'
+import { parseSqlStatements, SqlParseError } from '../../../src/database/sql-parser'
+
+const words = (sql: string) =>
+  parseSqlStatements(sql).map((statement) => statement.tokens.filter((t) => t.type === 'word').map((t) => t.value))
+
+describe('SQL Parser', () => {
+  it('should split statements on top-level semicolons only', () => {
+    const statements = parseSqlStatements(`SELECT ';' AS a; SELECT "b;c" FROM t;;`)
+
+    expect(statements.map((s) => s.text)).toEqual([`SELECT ';' AS a`, 'SELECT "b;c" FROM t'])
+  })
+
+  it('should skip line and nested block comments', () => {
+    expect(words('-- DELETE\nSELECT /* outer /* DROP */ still comment */ id FROM t')).toEqual([['select', 'id', 'from', 't']])
+  })
+
+  it('should read escaped, prefixed and dollar-quoted strings', () => {
+    const [statement] = parseSqlStatements(`SELECT 'it''s', E'a\\'b', $fn$ DELETE; $fn$, $1`)
+    const strings = statement.tokens.filter((t) => t.type === 'string').map((t) => t.value)
+
+    expect(strings).toEqual(["it's", "a\\'b", ' DELETE; '])
+    expect(statement.tokens[statement.tokens.length - 1]).toEqual({ type: 'parameter', value: '$1' })
+  })
+
+  it('should throw on unterminated strings and comments', () => {
+    expect(() => parseSqlStatements(`SELECT 'oops`)).toThrow(SqlParseError)
+    expect(() => parseSqlStatements('SELECT /* oops')).toThrow('Unterminated block comment')
+    expect(() => parseSqlStatements('SELECT $$oops')).toThrow('Unterminated dollar-quoted string')
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  DEFAULT_TEXT_TO_SQL_MODEL,
+  buildSqlPrompt,
+  extractSql,
+  generateSql,
+  getTextToSqlModel,
+} from '../../../src/database/text-to-sql'
+
+const schema = {
+  tables: [
+    {
+      schema: 'public',
+      name: 'orders',
+      type: 'table' as const,
+      columns: [
+        { name: 'id', type: 'integer', nullable: false, default: null },
+        { name: 'status', type: 'order_status', nullable: false, default: null, comment: 'Current state' },
+      ],
+      primaryKey: ['id'],
+    },
+  ],
+  enums: [{ schema: 'public', name: 'order_status', values: ['open', 'shipped'] }],
+}
+
+function createAi(response: unknown) {
+  return { run: vi.fn(async () => response) } as any
+}
+
+describe('Text to SQL', () => {
+  it('should describe the schema to the model', () => {
+    const [system, user] = buildSqlPrompt(schema, 'How many orders shipped?', 100)
+
+    expect(system.role).toBe('system')
+    expect(system.content).toContain('CREATE TYPE "public"."order_status" AS ENUM (\'open\', \'shipped\');')
+    expect(system.content).toContain('CREATE TABLE "public"."orders" (')
+    expect(system.content).toContain("COMMENT ON COLUMN \"public\".\"orders\".\"status\" IS 'Current state';")
+    expect(system.content).toContain('LIMIT 100')
+    expect(user).toEqual({ role: 'user', content: 'How many orders shipped?' })
+  })
+
+  it('should list tables past the prompt budget by name only', () => {
+    const columns = Array.from({ length: 800 }, (_, i) => ({ name: `column_${i}`, type: 'text', nullable: true, default: null }))
+    const tables = ['a', 'b', 'c'].map((name) => ({ schema: 'public', name, type: 'table' as const, columns }))
+
+    const [system] = buildSqlPrompt({ tables, enums: [] }, 'question', 100)
+
+    expect(system.content).toContain('CREATE TABLE "public"."a"')
+    expect(system.content).toContain('-- More tables, columns not shown: public.b, public.c')
+  })
+
+  it('should take the SQL out of the response', () => {
+    expect(extractSql('SELECT count(*) FROM public.orders;')).toEqual({ sql: 'SELECT count(*) FROM public.orders' })
+    expect(extractSql('Here you go:\n```sql\nSELECT 1\n```\nThis counts rows.')).toEqual({ sql: 'SELECT 1' })
+    expect(extractSql('CANNOT_ANSWER: there is no customers table')).toEqual({
+      error: 'The question cannot be answered from the database schema: there is no customers table',
+    })
+    expect(extractSql('  ')).toEqual({ error: 'The model did not return a SQL query' })
+  })
+
+  it('should run the configured model deterministically', async () => {
+    const ai = createAi({ response: 'SELECT 1' })
+    const messages = buildSqlPrompt(schema, 'question', 10)
+
+    expect(await generateSql(ai, getTextToSqlModel({} as any), messages)).toEqual({ sql: 'SELECT 1' })
+    expect(ai.run).toHaveBeenCalledWith(DEFAULT_TEXT_TO_SQL_MODEL, { messages, max_tokens: 1024, temperature: 0 })
+    expect(getTextToSqlModel({ AI_SQL_MODEL: '@cf/meta/llama-3.1-8b-instruct' } as any)).toBe('@cf/meta/llama-3.1-8b-instruct')
+    expect(await generateSql(createAi({}), 'model', messages)).toEqual({ error: 'The model returned no response' })
+  })
+})
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  DEFAULT_QUERY_TIMEOUTS,
+  QueryAbortedError,
+  getQueryTimeouts,
+  toQueryAbortedError,
+  withQueryTimeouts,
+} from '../../../src/database/timeouts'
+import { formatDatabaseError } from '../../../src/database/security'
+
+const timeouts = { statementTimeoutMs: 1000, lockTimeoutMs: 200 }
+
+function postgresError(code: string, message: string) {
+  return Object.assign(new Error(message), { code })
+}
+
+function createDb() {
+  const db: any = {
+    unsafe: vi.fn(async (query: string) => (query.includes('pg_backend_pid') ? [{ pid: 4242 }] : [])),
+    begin: vi.fn(async (mode: string, fn: any) => fn(db)),
+    reserve: vi.fn(async () => db),
+    release: vi.fn(),
+  }
+  return db
+}
+
+describe('Query Timeouts', () => {
+  describe('getQueryTimeouts', () => {
+    it('should use per-tool defaults', () => {
+      expect(getQueryTimeouts({} as any, 'query')).toEqual(DEFAULT_QUERY_TIMEOUTS.query)
+      expect(getQueryTimeouts({} as any, 'execute')).toEqual(DEFAULT_QUERY_TIMEOUTS.execute)
+    })
+
+    it('should read the timeouts from the environment', () => {
+      const env = { QUERY_STATEMENT_TIMEOUT_MS: '5000', QUERY_LOCK_TIMEOUT_MS: '0', EXECUTE_STATEMENT_TIMEOUT_MS: 'soon' } as any
+
+      expect(getQueryTimeouts(env, 'query')).toEqual({ statementTimeoutMs: 5000, lockTimeoutMs: 0 })
+      expect(getQueryTimeouts(env, 'execute').statementTimeoutMs).toBe(DEFAULT_QUERY_TIMEOUTS.execute.statementTimeoutMs)
+    })
+  })
+
+  describe('withQueryTimeouts', () => {
+    it('should set the timeouts locally inside a read-only transaction', async () => {
+      const db = createDb()
+
+      const result = await withQueryTimeouts(db, { timeouts, readOnly: true }, async () => 'rows')
+
+      expect(result).toBe('rows')
+      expect(db.begin).toHaveBeenCalledWith('read only', expect.any(Function))
+      expect(db.unsafe).toHaveBeenCalledWith(expect.stringContaining("set_config('statement_timeout'"), ['1000', '200', true])
+      expect(db.reserve).not.toHaveBeenCalled()
+    })
+
+    it('should set session timeouts on a reserved connection and reset them', async () => {
+      const db = createDb()
+
+      await withQueryTimeouts(db, { timeouts }, async (sql) => sql.unsafe('VACUUM users'))
+
+      expect(db.begin).not.toHaveBeenCalled()
+      expect(db.unsafe).toHaveBeenCalledWith(expect.stringContaining('pg_backend_pid'), ['1000', '200', false])
+      expect(db.unsafe).toHaveBeenCalledWith('VACUUM users')
+      expect(db.unsafe).toHaveBeenCalledWith('RESET statement_timeout')
+      expect(db.unsafe).toHaveBeenCalledWith('RESET lock_timeout')
+      expect(db.release).toHaveBeenCalled()
+    })
+
+    it('should report a statement timeout with the configured limit', async () => {
+      const db = createDb()
+
+      const error = await withQueryTimeouts(db, { timeouts, readOnly: true }, async () => {
+        throw postgresError('57014', 'canceling statement due to statement timeout')
+      }).catch((e) => e)
+
+      expect(error).toBeInstanceOf(QueryAbortedError)
+      expect(error.reason).toBe('statement_timeout')
+      expect(error.message).toContain('Query aborted due to timeout')
+      expect(error.message).toContain('1000 ms')
+    })
+
+    it('should cancel the running statement when the request is aborted', async () => {
+      const db = createDb()
+      const controller = new AbortController()
+
+      const error = await withQueryTimeouts(db, { timeouts, signal: controller.signal, readOnly: true }, async () => {
+        controller.abort()
+        throw postgresError('57014', 'canceling statement due to user request')
+      }).catch((e) => e)
+
+      expect(db.unsafe).toHaveBeenCalledWith('SELECT pg_cancel_backend($1)', [4242])
+      expect(error).toBeInstanceOf(QueryAbortedError)
+      expect(error.reason).toBe('cancelled')
+    })
+
+    it('should not start a query for an already cancelled request', async () => {
+      const db = createDb()
+      const controller = new AbortController()
+      controller.abort()
+
+      await expect(withQueryTimeouts(db, { timeouts, signal: controller.signal }, async () => 'rows')).rejects.toThrow('Query cancelled')
+      expect(db.unsafe).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('toQueryAbortedError', () => {
+    it('should map lock timeouts and leave other errors alone', () => {
+      expect(toQueryAbortedError(postgresError('55P03', 'canceling statement due to lock timeout'), timeouts)?.reason).toBe('lock_timeout')
+      expect(toQueryAbortedError(postgresError('55P03', 'could not obtain lock on row in relation "users"'), timeouts)).toBeUndefined()
+      expect(toQueryAbortedError(new Error('relation "users" does not exist'), timeouts)).toBeUndefined()
+    })
+
+    it('should not be reported as a connection timeout', () => {
+      const error = toQueryAbortedError(postgresError('57014', 'canceling statement due to statement timeout'), timeouts)
+
+      expect(formatDatabaseError(error)).toContain('Query aborted due to timeout')
+      expect(formatDatabaseError(error)).not.toContain('connection')
+    })
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+const connection: any = {
+  unsafe: vi.fn(async () => []),
+  release: vi.fn(),
+}
+
+vi.mock('../../../src/database/connection', () => ({
+  getDb: vi.fn(() => ({ reserve: vi.fn(async () => connection) })),
+}))
+
+import { DEFAULT_TRANSACTION_IDLE_TIMEOUT_MS, createTransactionManager, getTransactionIdleTimeout } from '../../../src/database/transactions'
+
+const database = { name: 'default', url: 'postgresql://localhost/test', readOnly: false, readRole: 'db-reader', writeRole: 'db-writer' }
+
+describe('Transactions', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.mocked(crypto.getRandomValues).mockImplementation((array: any) => array.fill(15))
+    connection.unsafe.mockImplementation(async () => [])
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should read the idle timeout from the environment', () => {
+    expect(getTransactionIdleTimeout({} as any)).toBe(DEFAULT_TRANSACTION_IDLE_TIMEOUT_MS)
+    expect(getTransactionIdleTimeout({ TRANSACTION_IDLE_TIMEOUT_MS: '5000' } as any)).toBe(5000)
+    expect(getTransactionIdleTimeout({ TRANSACTION_IDLE_TIMEOUT_MS: '0' } as any)).toBe(DEFAULT_TRANSACTION_IDLE_TIMEOUT_MS)
+  })
+
+  it('should open a transaction on a reserved connection and commit it', async () => {
+    const transactions = createTransactionManager({} as any)
+
+    const transaction = await transactions.begin(database, 'repeatable read')
+    await transactions.commit(transaction)
+
+    expect(transaction.id).toBe('tx_0f0f0f0f0f0f0f0f')
+    expect(connection.unsafe).toHaveBeenCalledWith('BEGIN ISOLATION LEVEL REPEATABLE READ')
+    expect(connection.unsafe).toHaveBeenCalledWith(expect.stringContaining('idle_in_transaction_session_timeout'), ['150000'])
+    expect(connection.unsafe).toHaveBeenLastCalledWith('COMMIT')
+    expect(connection.release).toHaveBeenCalledTimes(1)
+    expect(transactions.active()).toBeUndefined()
+    expect(transactions.get(transaction.id)).toEqual({ error: expect.stringContaining('no longer open: it was committed') })
+  })
+
+  it('should roll back a transaction left idle', async () => {
+    const transactions = createTransactionManager({ TRANSACTION_IDLE_TIMEOUT_MS: '10000' } as any)
+    const transaction = await transactions.begin(database)
+
+    await vi.advanceTimersByTimeAsync(9000)
+    await transactions.run(transaction, async (sql) => sql.unsafe('UPDATE users SET a = 1 WHERE id = 1'))
+    await vi.advanceTimersByTimeAsync(9000)
+    expect(connection.unsafe).not.toHaveBeenCalledWith('ROLLBACK')
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(connection.unsafe).toHaveBeenLastCalledWith('ROLLBACK')
+    expect(connection.release).toHaveBeenCalledTimes(1)
+    expect(transactions.get(transaction.id)).toEqual({ error: expect.stringContaining('rolled back after 10 seconds without a statement') })
+  })
+
+  it('should not roll back while a statement is running', async () => {
+    const transactions = createTransactionManager({ TRANSACTION_IDLE_TIMEOUT_MS: '10000' } as any)
+    const transaction = await transactions.begin(database)
+
+    const running = transactions.run(transaction, () => new Promise((resolve) => setTimeout(resolve, 30000)))
+    await vi.advanceTimersByTimeAsync(30000)
+    await running
+
+    expect(connection.unsafe).not.toHaveBeenCalledWith('ROLLBACK')
+    expect(transactions.active()).toBe(transaction)
+  })
+
+  it('should release the connection when the transaction cannot be started', async () => {
+    connection.unsafe.mockImplementation(async (query: string) => {
+      if (query.startsWith('BEGIN')) throw new Error('connection reset')
+      return []
+    })
+    const transactions = createTransactionManager({} as any)
+
+    await expect(transactions.begin(database)).rejects.toThrow('connection reset')
+    expect(connection.release).toHaveBeenCalledTimes(1)
+    expect(transactions.active()).toBeUndefined()
+  })
+
+  it('should roll back open transactions when the session closes', async () => {
+    const transactions = createTransactionManager({} as any)
+    const transaction = await transactions.begin(database)
+
+    await expect(transactions.begin(database)).rejects.toThrow('still open')
+    await transactions.close()
+
+    expect(connection.unsafe).toHaveBeenLastCalledWith('ROLLBACK')
+    expect(transactions.get(transaction.id)).toEqual({ error: expect.stringContaining('when the session ended') })
+  })
+})
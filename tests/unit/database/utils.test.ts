@@ -11,7 +11,7 @@ vi.mock('../../../src/database/connection', () => ({
 }))
 
 // Now import the modules
-import { withDatabase } from '../../../src/database/utils'
+import { withDatabase, toSqlParameters } from '../../../src/database/utils'
 
 describe('Database Utils', () => {
   beforeEach(() => {
@@ -75,4 +75,11 @@ describe('Database Utils', () => {
       consoleSpy.mockRestore()
     })
   })
+
+  describe('toSqlParameters', () => {
+    it('should serialize objects and arrays as JSON', () => {
+      expect(toSqlParameters(['a', 1, true, null, { b: [1, 2] }, ['x']])).toEqual(['a', 1, true, null, '{"b":[1,2]}', '["x"]'])
+      expect(toSqlParameters()).toEqual([])
+    })
+  })
 })
\ No newline at end of file
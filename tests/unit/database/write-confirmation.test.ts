@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  DEFAULT_CONFIRM_ROW_LIMIT,
+  consumeConfirmationToken,
+  createConfirmationToken,
+  formatWriteReport,
+  getConfirmRowLimit,
+  getHighImpactReason,
+  planWrite,
+  runWrite,
+} from '../../../src/database/write-confirmation'
+
+function createConnection(handler: (query: string, params?: unknown[]) => unknown[] = () => []) {
+  return {
+    unsafe: vi.fn(async (query: string, params?: unknown[]) => Object.assign(handler(query, params), { count: 0 })),
+  } as any
+}
+
+function createKv() {
+  const store = new Map<string, string>()
+  return {
+    put: vi.fn(async (key: string, value: string) => void store.set(key, value)),
+    get: vi.fn(async (key: string) => (store.has(key) ? JSON.parse(store.get(key)!) : null)),
+    delete: vi.fn(async (key: string) => void store.delete(key)),
+  } as any
+}
+
+const executed = (connection: any) => connection.unsafe.mock.calls.map((call: any[]) => call[0])
+
+describe('Write Confirmation', () => {
+  describe('planWrite', () => {
+    it('should flag high-impact statements', () => {
+      expect(getHighImpactReason('UPDATE users SET active = false')).toContain('UPDATE without a WHERE clause')
+      expect(getHighImpactReason('DELETE FROM users WHERE id IN (SELECT user_id FROM bans)')).toBeNull()
+      expect(getHighImpactReason('DELETE FROM users WHERE id = 1; TRUNCATE sessions')).toContain('TRUNCATE')
+      expect(getHighImpactReason('DROP TABLE users')).toContain('DROP')
+      expect(getHighImpactReason('ALTER TABLE users DROP COLUMN email')).toContain('ALTER changes the structure')
+      expect(getHighImpactReason('UPDATE users SET name = (SELECT name FROM t WHERE t.id = 1)')).toContain('WHERE')
+    })
+
+    it('should choose how to run a statement', () => {
+      expect(planWrite('UPDATE users SET a = 1 WHERE id = 1', {})).toEqual({ mode: 'guarded' })
+      expect(planWrite('UPDATE users SET a = 1 WHERE id = 1', { dryRun: true })).toEqual({ mode: 'dry-run' })
+      expect(planWrite('UPDATE users SET a = 1', {})).toMatchObject({ mode: 'dry-run', reason: expect.any(String) })
+      expect(planWrite('UPDATE users SET a = 1', { confirmed: true })).toEqual({ mode: 'execute' })
+      expect(planWrite('CREATE INDEX CONCURRENTLY users_email ON users (email)', {})).toEqual({ mode: 'execute' })
+    })
+
+    it('should find writes inside WITH queries and EXPLAIN ANALYZE', () => {
+      expect(planWrite('WITH d AS (DELETE FROM users RETURNING *) SELECT count(*) FROM d', {})).toMatchObject({ mode: 'dry-run', reason: 'DELETE without a WHERE clause changes every row of the table' })
+      expect(planWrite('WITH d AS (DELETE FROM users WHERE id > 0 RETURNING *) SELECT count(*) FROM d', {})).toMatchObject({ mode: 'dry-run', reason: 'DELETE inside another statement changes rows the row limit cannot count' })
+      expect(planWrite('EXPLAIN ANALYZE UPDATE users SET a = 1 WHERE id > 0', {})).toMatchObject({ mode: 'dry-run', reason: expect.stringContaining('UPDATE inside another statement') })
+      expect(planWrite('WITH banned AS (SELECT user_id FROM bans) DELETE FROM users WHERE id IN (SELECT user_id FROM banned)', {})).toEqual({ mode: 'guarded' })
+      expect(planWrite('MERGE INTO users u USING staged s ON u.id = s.id WHEN MATCHED THEN UPDATE SET name = s.name', {})).toEqual({ mode: 'guarded' })
+      expect(planWrite('INSERT INTO users (id) VALUES (1) ON CONFLICT (id) DO UPDATE SET name = excluded.name', {})).toEqual({ mode: 'guarded' })
+      expect(planWrite('SELECT * FROM users FOR UPDATE', {})).toEqual({ mode: 'execute' })
+    })
+
+    it('should confirm several statements that change rows', () => {
+      const reason = 'Several statements change rows together, so the row limit cannot be checked for each of them'
+
+      expect(planWrite('UPDATE users SET x = 1 WHERE id > 0; SELECT 1', {})).toEqual({ mode: 'dry-run', reason })
+      expect(planWrite('DELETE FROM users WHERE id > 0; SELECT 1', {})).toEqual({ mode: 'dry-run', reason })
+      expect(planWrite('SET search_path TO app; SELECT 1', {})).toEqual({ mode: 'execute' })
+    })
+
+    it('should read the row limit from the environment', () => {
+      expect(getConfirmRowLimit({} as any)).toBe(DEFAULT_CONFIRM_ROW_LIMIT)
+      expect(getConfirmRowLimit({ EXECUTE_CONFIRM_ROWS: '0' } as any)).toBe(0)
+    })
+  })
+
+  describe('runWrite', () => {
+    it('should sample an UPDATE and show the rows before the change', async () => {
+      const connection = createConnection((query) => {
+        if (query.startsWith('WITH affected')) return [{ __dry_run_affected_rows: 12, id: 1, name: 'new' }]
+        if (query.includes('indisprimary')) return [{ name: 'id' }]
+        if (query.startsWith('SELECT * FROM public.users')) return [{ id: 1, name: 'old' }]
+        return []
+      })
+
+      const result = await runWrite(connection, "UPDATE public.users SET name = 'new' WHERE id < $1", [13], 'dry-run', 100)
+
+      expect(result).toEqual({
+        rows: [],
+        affectedRows: 12,
+        committed: false,
+        before: [{ id: 1, name: 'old' }],
+        after: [{ id: 1, name: 'new' }],
+      })
+      expect(connection.unsafe).toHaveBeenCalledWith(expect.stringContaining("WHERE id < $1\nRETURNING *\n)"), [13])
+      expect(connection.unsafe).toHaveBeenCalledWith('SELECT * FROM public.users WHERE ("id") IN (($1))', [1])
+      expect(executed(connection)).toEqual([
+        'BEGIN',
+        'SAVEPOINT dry_run',
+        expect.stringContaining('WITH affected'),
+        'ROLLBACK TO SAVEPOINT dry_run',
+        expect.stringContaining('indisprimary'),
+        expect.stringContaining('SELECT * FROM public.users'),
+        'ROLLBACK',
+      ])
+    })
+
+    it('should show deleted rows as the before sample', async () => {
+      const connection = createConnection((query) =>
+        query.startsWith('WITH affected') ? [{ __dry_run_affected_rows: 3, id: 7 }] : []
+      )
+
+      const result = await runWrite(connection, 'DELETE FROM users WHERE id > 6 RETURNING id', [], 'dry-run', 100)
+
+      expect(result).toMatchObject({ affectedRows: 3, before: [{ id: 7 }], committed: false })
+      expect(result.after).toBeUndefined()
+      expect(connection.unsafe).not.toHaveBeenCalledWith(expect.stringContaining('RETURNING *'), [])
+    })
+
+    it('should roll back guarded writes above the row limit', async () => {
+      const connection = { unsafe: vi.fn(async () => Object.assign([], { count: 500 })) } as any
+
+      const rolledBack = await runWrite(connection, 'UPDATE users SET a = 1 WHERE b', [], 'guarded', 100)
+      const committed = await runWrite(connection, 'UPDATE users SET a = 1 WHERE b', [], 'guarded', 1000)
+
+      expect(rolledBack).toMatchObject({ affectedRows: 500, committed: false })
+      expect(committed).toMatchObject({ affectedRows: 500, committed: true })
+      expect(executed(connection)).toEqual(['BEGIN', expect.any(String), 'ROLLBACK', 'BEGIN', expect.any(String), 'COMMIT'])
+    })
+
+    it('should roll back when the statement fails', async () => {
+      const connection = createConnection((query) => {
+        if (query.startsWith('UPDATE')) throw new Error('deadlock detected')
+        return []
+      })
+
+      await expect(runWrite(connection, 'UPDATE users SET a = 1 WHERE b', [], 'guarded', 100)).rejects.toThrow('deadlock')
+      expect(executed(connection)).toEqual(['BEGIN', expect.any(String), 'ROLLBACK'])
+    })
+
+    it('should use a savepoint inside an open transaction', async () => {
+      const connection = createConnection((query) => {
+        if (query.startsWith('INSERT')) throw new Error('duplicate key value')
+        return []
+      })
+
+      await expect(runWrite(connection, 'INSERT INTO users (id) VALUES (1)', [], 'execute', 100, true)).rejects.toThrow('duplicate key')
+      expect(executed(connection)).toEqual([
+        'SAVEPOINT write_guard',
+        'INSERT INTO users (id) VALUES (1)',
+        'ROLLBACK TO SAVEPOINT write_guard',
+        'RELEASE SAVEPOINT write_guard',
+      ])
+    })
+  })
+
+  describe('confirmation tokens', () => {
+    const write = { sql: 'DELETE FROM users', params: [], database: 'default', login: 'octocat' }
+
+    it('should confirm the same write once', async () => {
+      vi.mocked(crypto.getRandomValues).mockImplementation((array: any) => array.fill(7))
+      const kv = createKv()
+
+      const token = await createConfirmationToken(kv, write)
+
+      expect(kv.put).toHaveBeenCalledWith(`write-confirmation:${token}`, JSON.stringify(write), { expirationTtl: 300 })
+      expect(await consumeConfirmationToken(kv, token, { ...write, sql: 'DELETE FROM posts' })).toBe(false)
+      expect(await consumeConfirmationToken(kv, token, { ...write, login: 'mallory' })).toBe(false)
+      expect(await consumeConfirmationToken(kv, token, write)).toBe(true)
+      expect(await consumeConfirmationToken(kv, token, write)).toBe(false)
+    })
+  })
+
+  it('should format the affected rows and samples', () => {
+    const report = formatWriteReport({ rows: [], affectedRows: 2, committed: false, before: [{ id: 1 }], after: [{ id: 1, a: 2 }] }, 'markdown')
+
+    expect(report).toContain('**Affected rows:** 2')
+    expect(report).toContain('**Before (first 5 rows):**\n| id |')
+    expect(report).toContain('**After (first 5 rows):**\n| id | a |')
+  })
+})
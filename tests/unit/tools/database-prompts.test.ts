@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { registerDatabasePrompts, registerSavedQueryPrompt } from '../../../src/tools/database-prompts'
+import { resolveRoles, DEFAULT_ACCESS_POLICY } from '../../../src/auth/access-policy'
+import { mockProps } from '../../fixtures/auth.fixtures'
+import { mockEnv } from '../../mocks/oauth.mock'
+
+const recentUsers = {
+  name: 'recent_users',
+  description: 'Users created after a date',
+  sql: 'SELECT * FROM users WHERE created_at > $1',
+  parameters: [{ name: 'since', description: 'ISO date' }],
+  database: 'default',
+  owner: 'octocat',
+  createdAt: '2024-05-01T00:00:00Z',
+  updatedAt: '2024-05-01T00:00:00Z',
+}
+
+// A KV namespace holding one saved query
+function createKv() {
+  return {
+    get: vi.fn(async (key: string) => (key === 'saved-query:recent_users' ? recentUsers : null)),
+    list: vi.fn(async () => ({
+      keys: [{ name: 'saved-query:recent_users', metadata: { description: recentUsers.description, parameters: ['since'], database: 'default', owner: 'octocat', updatedAt: recentUsers.updatedAt } }],
+      list_complete: true,
+    })),
+  } as any
+}
+
+describe('Database Prompts', () => {
+  let mockServer: McpServer
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockServer = new McpServer({ name: 'test', version: '1.0.0' })
+  })
+
+  async function getPrompts(env: any = { ...mockEnv, OAUTH_KV: createKv() }) {
+    const promptSpy = vi.spyOn(mockServer, 'prompt')
+    await registerDatabasePrompts(mockServer, env, mockProps)
+    return Object.fromEntries(promptSpy.mock.calls.map((call: any[]) => [call[0], call[call.length - 1] as Function]))
+  }
+
+  it('should offer each saved query as a prompt', async () => {
+    const prompts = await getPrompts()
+
+    expect(Object.keys(prompts)).toEqual(['run-saved-query', 'recent_users'])
+
+    const result = await prompts.recent_users({ since: '2024-01-01' })
+    expect(result.description).toBe('Users created after a date')
+    expect(result.messages[0].content.text).toContain('Run the saved query `recent_users` with the `runSavedQuery` tool')
+    expect(result.messages[0].content.text).toContain('**Parameter values:** `{"since":"2024-01-01"}`')
+    expect(result.messages[0].content.text).toContain('```sql\nSELECT * FROM users WHERE created_at > $1\n```')
+  })
+
+  it('should run any saved query by name', async () => {
+    const prompts = await getPrompts()
+
+    const result = await prompts['run-saved-query']({ name: 'recent_users' })
+    expect(result.messages[0].content.text).toContain('Parameters: since (ISO date).')
+    await expect(prompts['run-saved-query']({ name: 'recent_users', params: '{since' })).rejects.toThrow('params must be a JSON object')
+    await expect(prompts['run-saved-query']({ name: 'old_users' })).rejects.toThrow('There is no saved query named old_users')
+  })
+
+  it('should update the prompt of a query saved again', async () => {
+    await getPrompts()
+    const promptSpy = vi.spyOn(mockServer, 'prompt')
+
+    registerSavedQueryPrompt(mockServer, mockEnv as any, resolveRoles(DEFAULT_ACCESS_POLICY, mockProps), { ...recentUsers, parameters: [] })
+
+    expect(promptSpy).not.toHaveBeenCalled()
+  })
+
+  it('should not offer prompts without the OAUTH_KV binding', async () => {
+    expect(await getPrompts(mockEnv)).toEqual({})
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// Mock the database modules
+const mockDbInstance: any = {
+  unsafe: vi.fn(),
+  end: vi.fn(),
+  begin: vi.fn(async (mode: string, fn: any) => fn(mockDbInstance)),
+}
+
+// Request context passed to resource callbacks by the MCP server
+const extra = { signal: new AbortController().signal }
+
+vi.mock('../../../src/database/utils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/database/utils')>()),
+  withDatabase: vi.fn(async (url: string, operation: any) => {
+    return await operation(mockDbInstance)
+  }),
+}))
+
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { registerDatabaseResources } from '../../../src/tools/database-resources'
+import { mockProps } from '../../fixtures/auth.fixtures'
+import { mockEnv } from '../../mocks/oauth.mock'
+import { mockTableColumns, mockQueryResult } from '../../fixtures/database.fixtures'
+
+describe('Database Resources', () => {
+  let mockServer: McpServer
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockServer = new McpServer({ name: 'test', version: '1.0.0' })
+
+    mockDbInstance.unsafe.mockImplementation((query: string) => {
+      if (query.includes('pg_catalog.pg_attrdef')) return Promise.resolve(mockTableColumns)
+      if (query.includes('pg_catalog.pg_constraint')) {
+        return Promise.resolve([
+          { schema: 'public', table_name: 'posts', name: 'posts_pkey', type: 'p', columns: ['id'] },
+          { schema: 'public', table_name: 'posts', name: 'posts_user_id_fkey', type: 'f', columns: ['user_id'], ref_schema: 'public', ref_table: 'users', ref_columns: ['id'] },
+        ])
+      }
+      if (query.includes('pg_catalog.')) return Promise.resolve([])
+      return Promise.resolve(mockQueryResult)
+    })
+  })
+
+  function getResource(name: string) {
+    const resourceSpy = vi.spyOn(mockServer, 'resource')
+    registerDatabaseResources(mockServer, mockEnv as any, mockProps)
+    const call = resourceSpy.mock.calls.find((c) => c[0] === name)!
+    return { template: call[1] as ResourceTemplate, read: call[3] as Function }
+  }
+
+  it('should follow the database read permissions', () => {
+    const resourceSpy = vi.spyOn(mockServer, 'resource')
+
+    registerDatabaseResources(mockServer, mockEnv as any, { ...mockProps, grantedScopes: ['github:read'] })
+    registerDatabaseResources(mockServer, mockEnv as any, mockProps, new Set(['github']))
+
+    expect(resourceSpy).not.toHaveBeenCalled()
+  })
+
+  it('should list a schema resource for each table', async () => {
+    const { template } = getResource('table-schema')
+
+    const { resources } = await template.listCallback!({} as any)
+
+    expect(resources.map((r) => r.uri)).toEqual(['postgres://public/users/schema', 'postgres://public/posts/schema'])
+    expect(mockDbInstance.begin).toHaveBeenCalledWith('read only', expect.any(Function))
+  })
+
+  it('should describe columns, keys and DDL', async () => {
+    const { read } = getResource('table-schema')
+
+    const result = await read(new URL('postgres://public/posts/schema'), { schema: 'public', table: 'posts' }, extra)
+    const text = result.contents[0].text
+
+    expect(text).toContain('# public.posts (table)')
+    expect(text).toContain('| user_id | integer | no |  | References public.users.id |')
+    expect(text).toContain('CREATE TABLE "public"."posts" (')
+    expect(text).toContain('FOREIGN KEY ("user_id") REFERENCES "public"."users" ("id")')
+  })
+
+  it('should return sample rows in a read-only transaction', async () => {
+    const { read } = getResource('table-sample')
+
+    const result = await read(new URL('postgres://public/users/sample'), { schema: 'public', table: 'users' }, extra)
+
+    expect(mockDbInstance.begin).toHaveBeenCalledWith('read only', expect.any(Function))
+    expect(mockDbInstance.unsafe).toHaveBeenCalledWith('SELECT * FROM "public"."users" LIMIT 10')
+    expect(result.contents[0].text).toContain('| 1 | John Doe | john@example.com |')
+  })
+
+  it('should not read tables the user cannot see', async () => {
+    const { read } = getResource('table-sample')
+
+    await expect(read(new URL('postgres://public/secrets/sample'), { schema: 'public', table: 'secrets' }, extra))
+      .rejects.toThrow('Table public.secrets not found')
+  })
+})